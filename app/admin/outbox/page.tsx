@@ -0,0 +1,150 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+
+type OutboxStatus = "pending" | "sending" | "sent" | "dead";
+
+type OutboxMessage = {
+  id: string;
+  to_email: string;
+  subject: string;
+  source: string;
+  source_id: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  message_id: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function fmt(dtIso: string | null): string {
+  if (!dtIso) return "—";
+  const d = new Date(dtIso);
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+export default function OutboxAdminPage() {
+  const [status, setStatus] = useState<OutboxStatus>("dead");
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [forbidden, setForbidden] = useState<boolean>(false);
+  const [toast, setToast] = useState<string>("");
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/admin/email-outbox?status=${status}`);
+    if (res.status === 401 || res.status === 403) {
+      setForbidden(true);
+      return;
+    }
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setToast(body.error ?? `Request failed (${res.status}).`);
+      return;
+    }
+    setMessages(body.messages ?? []);
+  }, [status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function redrive(id: string) {
+    const res = await fetch(`/api/admin/email-outbox/${id}/redrive`, { method: "POST" });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setToast(body.error ?? `Request failed (${res.status}).`);
+      return;
+    }
+    setToast("Message re-queued.");
+    await load();
+  }
+
+  if (forbidden) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white grid place-items-center">
+        <div className="rounded-xl bg-white/5 ring-1 ring-white/10 p-8 text-center">
+          <h1 className="text-xl font-semibold">Email outbox</h1>
+          <p className="mt-2 text-white/70 text-sm">Only admins can inspect the email outbox.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white">
+      <div className="mx-auto max-w-4xl px-6 pt-10 pb-24">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Email outbox</h1>
+            <p className="text-sm text-white/70 mt-1">Inspect outbound email and re-drive dead-lettered messages.</p>
+          </div>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as OutboxStatus)}
+            className="rounded-xl bg-white/5 px-3 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30"
+          >
+            <option value="dead">Dead-lettered</option>
+            <option value="pending">Pending</option>
+            <option value="sending">Sending</option>
+            <option value="sent">Sent</option>
+          </select>
+        </div>
+
+        <div className="mt-6 space-y-3">
+          {messages.map((m) => (
+            <div key={m.id} className="rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm font-medium">{m.subject}</p>
+                  <p className="text-xs text-white/60">
+                    To {m.to_email} • {m.source} • attempts {m.attempts}/{m.max_attempts}
+                  </p>
+                  <p className="text-xs text-white/60 mt-1">
+                    Created {fmt(m.created_at)} • Updated {fmt(m.updated_at)}
+                    {m.status === "pending" && <> • Next attempt {fmt(m.next_attempt_at)}</>}
+                    {m.sent_at && <> • Sent {fmt(m.sent_at)}</>}
+                  </p>
+                </div>
+                {m.status === "dead" && (
+                  <button
+                    type="button"
+                    onClick={() => redrive(m.id)}
+                    className="rounded-xl bg-white text-slate-900 font-medium px-3 py-2 shadow hover:shadow-md transition text-sm"
+                  >
+                    Re-drive
+                  </button>
+                )}
+              </div>
+              {m.last_error && (
+                <div className="mt-3 rounded-lg bg-rose-500/10 ring-1 ring-rose-400/30 p-3">
+                  <p className="text-xs text-rose-200 whitespace-pre-wrap break-all">{m.last_error}</p>
+                </div>
+              )}
+            </div>
+          ))}
+          {messages.length === 0 && (
+            <div className="rounded-xl bg-white/5 ring-1 ring-white/10 p-6 text-center">
+              <p className="text-white/80">No messages with this status.</p>
+            </div>
+          )}
+        </div>
+
+        {toast && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-xl bg-emerald-500/10 text-emerald-200 ring-1 ring-emerald-400/30 px-4 py-3 text-sm">
+            {toast}
+            <button
+              type="button"
+              className="ml-3 text-emerald-300 underline underline-offset-4"
+              onClick={() => setToast("")}
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
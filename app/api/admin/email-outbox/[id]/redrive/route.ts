@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionProfile } from "@/lib/session";
+import { requeueSource } from "@/lib/outbox";
+
+// Admin-only: give a dead-lettered message a fresh set of attempts.
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!me.is_admin) {
+    return NextResponse.json({ error: "Only admins can re-drive messages." }, { status: 403 });
+  }
+
+  const supabase = createAdminClient();
+  const { data: row, error } = await supabase
+    .from("email_outbox")
+    .update({
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      locked_until: null,
+    })
+    .eq("id", id)
+    .eq("status", "dead")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!row) {
+    return NextResponse.json({ error: "Message not found or not dead-lettered." }, { status: 404 });
+  }
+
+  await requeueSource(supabase, row);
+  // eslint-disable-next-line no-console
+  console.log(`[EMAIL OUTBOX] Admin ${me.id} re-drove message ${row.id}.`);
+
+  return NextResponse.json({ message: { id: row.id, status: row.status } });
+}
@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionProfile } from "@/lib/session";
+import { Constants, type Database } from "@/database.types";
+
+type OutboxStatus = Database["public"]["Enums"]["outbox_status"];
+
+// Admin-only: inspect the outbox, dead-lettered messages by default.
+export async function GET(request: NextRequest) {
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!me.is_admin) {
+    return NextResponse.json({ error: "Only admins can inspect the email outbox." }, { status: 403 });
+  }
+
+  const search = request.nextUrl.searchParams;
+  const statusParam = search.get("status") ?? "dead";
+  if (!(Constants.public.Enums.outbox_status as readonly string[]).includes(statusParam)) {
+    return NextResponse.json({ error: `Unknown status "${statusParam}".` }, { status: 400 });
+  }
+  const limit = Math.min(Math.max(Number(search.get("limit")) || 50, 1), 200);
+
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from("email_outbox")
+    .select("id,to_email,subject,source,source_id,status,attempts,max_attempts,next_attempt_at,last_error,message_id,sent_at,created_at,updated_at")
+    .eq("status", statusParam as OutboxStatus)
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ messages: data ?? [] });
+}
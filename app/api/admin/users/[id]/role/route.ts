@@ -0,0 +1,64 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionProfile } from "@/lib/session";
+import { recordTeamAudit } from "@/lib/team";
+
+// Admin-only: promote a user to manager or demote a manager back to user.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!me.is_admin) {
+    return NextResponse.json({ error: "Only admins can change roles." }, { status: 403 });
+  }
+
+  const body = (await request.json().catch(() => null)) as { role?: unknown } | null;
+  const role = body?.role;
+  if (role !== "user" && role !== "manager") {
+    return NextResponse.json({ error: "role must be 'user' or 'manager'." }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+  const { data: target } = await supabase.from("profiles").select("id,role").eq("id", id).maybeSingle();
+  if (!target) {
+    return NextResponse.json({ error: "User not found." }, { status: 404 });
+  }
+  if (target.role === role) {
+    return NextResponse.json({ profile: target });
+  }
+
+  if (role === "user") {
+    const { count } = await supabase
+      .from("profiles")
+      .select("id", { count: "exact", head: true })
+      .eq("manager_id", id);
+    if ((count ?? 0) > 0) {
+      return NextResponse.json(
+        { error: "Move or remove this manager's team members before demoting them." },
+        { status: 409 }
+      );
+    }
+  }
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .update({ role })
+    .eq("id", id)
+    .select("id,role")
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  await recordTeamAudit(supabase, {
+    actorId: me.id,
+    action: "role.changed",
+    memberId: id,
+    details: { from: target.role, to: role },
+  });
+
+  return NextResponse.json({ profile });
+}
@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionProfile } from "@/lib/session";
+import { generateFeedToken } from "@/lib/calendar";
+
+// Creates the caller's calendar feed for { scope }, or resets it if it exists:
+// the old URL stops working immediately. The new URL is in this response only;
+// listing and revoking go straight through RLS from /calendar.
+export async function POST(request: NextRequest) {
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as { scope?: unknown } | null;
+  const scope = body?.scope === "team" ? "team" : "user";
+  if (scope === "team" && me.role !== "manager") {
+    return NextResponse.json({ error: "Only managers can have a team feed." }, { status: 403 });
+  }
+
+  const { token, prefix, hash } = generateFeedToken();
+  const supabase = createAdminClient();
+  const { data: feed, error } = await supabase
+    .from("calendar_feeds")
+    .upsert(
+      { user_id: me.id, scope, token_prefix: prefix, token_hash: hash, last_fetched_at: null },
+      { onConflict: "user_id,scope" }
+    )
+    .select("id,scope,token_prefix,last_fetched_at,created_at,updated_at")
+    .single();
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const url = new URL(`/api/calendar/${token}.ics`, request.nextUrl.origin).toString();
+  return NextResponse.json({ feed, url }, { status: 201 });
+}
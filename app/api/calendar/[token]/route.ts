@@ -0,0 +1,90 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createUserClient } from "@/lib/supabase/as-user";
+import { buildTaskCalendar, hashFeedToken, type FeedTask } from "@/lib/calendar";
+
+const TASK_COLUMNS = "id,title,description,due_date,status,updated_at,owner_id";
+
+// Public iCalendar feed at /api/calendar/<token>.ics. Calendar apps cannot
+// sign in, so the URL token is the credential. Tasks are read with a client
+// acting as the feed's owner, so the feed shows exactly what RLS lets them see,
+// rebuilt from tasks and task_shares on every fetch.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const admin = createAdminClient();
+  const { data: feed } = await admin
+    .from("calendar_feeds")
+    .select("id,user_id,scope")
+    .eq("token_hash", hashFeedToken(token.replace(/\.ics$/, "")))
+    .maybeSingle();
+  if (!feed) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { data: owner } = await admin.from("profiles").select("id,name,email,role").eq("id", feed.user_id).single();
+  if (!owner || (feed.scope === "team" && owner.role !== "manager")) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  let supabase: ReturnType<typeof createUserClient>;
+  try {
+    supabase = createUserClient(feed.user_id);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.log(`[CALENDAR FEED] Cannot act as user ${feed.user_id}: ${(e as Error).message}`);
+    return NextResponse.json({ error: "Calendar feeds are not available right now." }, { status: 500 });
+  }
+  let tasks: FeedTask[] = [];
+  let name: string;
+
+  if (feed.scope === "team") {
+    const { data: members } = await supabase.from("profiles").select("id,name,email").eq("manager_id", owner.id);
+    const names = new Map((members ?? []).map((m) => [m.id, m.name || m.email]));
+    const { data, error } = names.size
+      ? await supabase
+          .from("tasks")
+          .select(TASK_COLUMNS)
+          .in("owner_id", [...names.keys()])
+          .neq("status", "done")
+          .order("due_date", { ascending: true })
+      : { data: [], error: null };
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    tasks = (data ?? []).map((t) => ({ ...t, ownerName: names.get(t.owner_id) ?? null }));
+    name = "FlowTrack: team tasks";
+  } else {
+    const { data: shares } = await supabase.from("task_shares").select("task_id").eq("user_id", owner.id);
+    const sharedIds = (shares ?? []).map((s) => s.task_id);
+    const [owned, shared, subtasks] = await Promise.all([
+      supabase.from("tasks").select(TASK_COLUMNS).eq("owner_id", owner.id).neq("status", "done"),
+      sharedIds.length
+        ? supabase.from("tasks").select(TASK_COLUMNS).in("id", sharedIds).neq("status", "done")
+        : Promise.resolve({ data: [], error: null }),
+      // Subtasks of a shared task are shared with it (task_share_permission)
+      sharedIds.length
+        ? supabase.from("tasks").select(TASK_COLUMNS).in("parent_id", sharedIds).neq("status", "done")
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    const error = owned.error ?? shared.error ?? subtasks.error;
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    const byId = new Map(
+      [...(owned.data ?? []), ...(shared.data ?? []), ...(subtasks.data ?? [])].map((t) => [t.id, t])
+    );
+    tasks = [...byId.values()].sort((a, b) => a.due_date.localeCompare(b.due_date));
+    name = "FlowTrack: my tasks";
+  }
+
+  await admin.from("calendar_feeds").update({ last_fetched_at: new Date().toISOString() }).eq("id", feed.id);
+
+  const ics = buildTaskCalendar(name, tasks, new URL("/tasks", request.nextUrl.origin).toString());
+  return new NextResponse(ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="flowtrack-${feed.scope}.ics"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,128 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { isAuthorizedCron } from "@/lib/cron";
+import { sendEmail } from "@/lib/email";
+import { applyDeliveryOutcome, nextAttemptDelayMs } from "@/lib/outbox";
+
+const BATCH_SIZE = 25;
+const LEASE_SECONDS = 300;
+
+function logLostLease(id: string) {
+  // eslint-disable-next-line no-console
+  console.log(`[EMAIL WORKER] Lost the lease on ${id}; another worker owns it now.`);
+}
+
+// Drains email_outbox: claims due rows, sends them, and either marks them
+// sent, schedules a retry with backoff, or dead-letters them. Rows are sent one
+// after another, so each row's lease is renewed right before its send; a row
+// whose lease was lost (another worker reclaimed it) is left alone.
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCron(request)) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: claimed, error } = await supabase.rpc("claim_email_outbox", {
+    batch_size: BATCH_SIZE,
+    lease_seconds: LEASE_SECONDS,
+  });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  let sent = 0;
+  let retried = 0;
+  let dead = 0;
+
+  for (const row of claimed ?? []) {
+    const { data: renewed } = await supabase
+      .from("email_outbox")
+      .update({ locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString() })
+      .eq("id", row.id)
+      .eq("status", "sending")
+      .eq("attempts", row.attempts)
+      .select("id");
+    if (!renewed?.length) {
+      logLostLease(row.id);
+      continue;
+    }
+
+    const res = await sendEmail({
+      to: row.to_email,
+      subject: row.subject,
+      html: row.html,
+      text: row.text_body ?? undefined,
+    });
+
+    // Only the worker holding the current lease (same attempt number) may
+    // record the outcome, and only a recorded outcome reaches the source row.
+    if (res.ok) {
+      const { data: settled } = await supabase
+        .from("email_outbox")
+        .update({
+          status: "sent",
+          sent_at: new Date().toISOString(),
+          message_id: res.messageId,
+          locked_until: null,
+          last_error: null,
+        })
+        .eq("id", row.id)
+        .eq("status", "sending")
+        .eq("attempts", row.attempts)
+        .select("id");
+      if (!settled?.length) {
+        logLostLease(row.id);
+        continue;
+      }
+      await applyDeliveryOutcome(supabase, row, "sent");
+      sent += 1;
+      continue;
+    }
+
+    const exhausted = !res.retryable || row.attempts >= row.max_attempts;
+    if (exhausted) {
+      const { data: settled } = await supabase
+        .from("email_outbox")
+        .update({ status: "dead", locked_until: null, last_error: res.error })
+        .eq("id", row.id)
+        .eq("status", "sending")
+        .eq("attempts", row.attempts)
+        .select("id");
+      if (!settled?.length) {
+        logLostLease(row.id);
+        continue;
+      }
+      await applyDeliveryOutcome(supabase, row, "dead");
+      dead += 1;
+      // eslint-disable-next-line no-console
+      console.log(
+        `[EMAIL WORKER] Dead-lettered ${row.id} after ${row.attempts} attempt(s) (${res.retryable ? "retries exhausted" : "permanent"}): ${res.error}`
+      );
+    } else {
+      const nextAttemptAt = new Date(Date.now() + nextAttemptDelayMs(row.attempts)).toISOString();
+      const { data: settled } = await supabase
+        .from("email_outbox")
+        .update({ status: "pending", locked_until: null, last_error: res.error, next_attempt_at: nextAttemptAt })
+        .eq("id", row.id)
+        .eq("status", "sending")
+        .eq("attempts", row.attempts)
+        .select("id");
+      if (!settled?.length) {
+        logLostLease(row.id);
+        continue;
+      }
+      retried += 1;
+      // eslint-disable-next-line no-console
+      console.log(`[EMAIL WORKER] Attempt ${row.attempts} for ${row.id} failed, retrying at ${nextAttemptAt}: ${res.error}`);
+    }
+  }
+
+  return NextResponse.json({
+    claimed: claimed?.length ?? 0,
+    sent,
+    retried,
+    dead_lettered: dead,
+  });
+}
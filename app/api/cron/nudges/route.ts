@@ -1,71 +1,16 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { sendEmail } from "@/lib/email";
+import { isAuthorizedCron } from "@/lib/cron";
 import type { Database, Tables } from "@/database.types";
-import crypto from "node:crypto";
-import { DateTime } from "luxon";
+import { DEFAULT_TIMEZONE, isDueSoon, isDueToday, isOverdue, localTimeToUtcIso, resolveTimezone } from "@/lib/dates";
+import { renderNudgeEmail, type NudgePayload, type NudgeTaskSample } from "@/lib/email/templates/nudge";
+import { buildAckUrl, buildActionUrl } from "@/lib/nudge-tokens";
+import { recordNudgeUpdates } from "@/lib/nudge-outcomes";
+import { deliverEvent } from "@/lib/notifications";
+import { DEFAULT_PREFERENCES, isOnVacation, loadNotificationSettings } from "@/lib/notification-preferences";
 
 type Profile = Tables<"profiles">;
-
-function isAuthorizedCron(req: NextRequest): boolean {
-  const secret = process.env.CRON_SECRET;
-  if (!secret) return true; // allow in dev if not set
-  const authHeader = req.headers.get("authorization") || req.headers.get("x-cron-secret");
-  if (!authHeader) return false;
-  if (authHeader === secret) return true;
-  if (authHeader.startsWith("Bearer ")) {
-    return authHeader.slice(7) === secret;
-  }
-  return false;
-}
-
-function buildAckToken(id: string): string {
-  const secret = process.env.ACK_SECRET || "dev-ack-secret";
-  return crypto.createHmac("sha256", secret).update(id).digest("hex");
-}
-
-function buildAckUrl(origin: string, id: string): string {
-  const token = buildAckToken(id);
-  const u = new URL("/api/nudges/ack", origin);
-  u.searchParams.set("i", id);
-  u.searchParams.set("t", token);
-  return u.toString();
-}
-
-function htmlEscape(s: string): string {
-  return s.replace(/[&<>"']/g, (c) => {
-    switch (c) {
-      case "&":
-        return "&amp;";
-      case "<":
-        return "&lt;";
-      case ">":
-        return "&gt;";
-      case '"':
-        return "&quot;";
-      case "'":
-        return "&#039;";
-      default:
-        return c;
-    }
-  });
-}
-
-function parseTimeToUTCISO(localTime: string, tz: string): string | null {
-  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(localTime);
-  if (!match) return null;
-  const hour = Number(match[1]);
-  const minute = Number(match[2]);
-  const zone = tz || "UTC";
-  const localNow = DateTime.now().setZone(zone);
-  if (!localNow.isValid) return null;
-  const scheduledLocal = DateTime.fromObject(
-    { year: localNow.year, month: localNow.month, day: localNow.day, hour, minute, second: 0, millisecond: 0 },
-    { zone: zone }
-  );
-  if (!scheduledLocal.isValid) return null;
-  return scheduledLocal.toUTC().toISO();
-}
+type Task = Tables<"tasks">;
 
 export async function GET(request: NextRequest) {
   if (!isAuthorizedCron(request)) {
@@ -87,141 +32,230 @@ export async function GET(request: NextRequest) {
   const confByUser = new Map<string, Database["public"]["Tables"]["nudge_configs"]["Row"]>();
   (configs ?? []).forEach((c) => confByUser.set(c.user_id, c));
 
-  // Ensure today's nudges exist per user using timezone-aware conversion
-  const ensurePromises: Promise<unknown>[] = [];
+  // Materialize today's nudges per user using timezone-aware conversion.
+  // A single upsert against (user_id, scheduled_at) makes this idempotent, so
+  // overlapping cron runs cannot create duplicates.
+  const slots: Database["public"]["Tables"]["nudges"]["Insert"][] = [];
   for (const p of profiles ?? []) {
     const conf = confByUser.get(p.id);
     if (conf && conf.enabled === false) continue;
     const times = conf?.times ?? ["09:00", "13:00", "17:00"];
-    const timezone = (conf?.timezone && conf.timezone.trim()) || "UTC";
-
-    for (const t of times) {
-      ensurePromises.push(
-        (async () => {
-          const scheduledISO = parseTimeToUTCISO(t, timezone);
-          if (!scheduledISO) return;
-
-          const { data: exists } = await supabase
-            .from("nudges")
-            .select("id")
-            .eq("user_id", p.id)
-            .eq("scheduled_at", scheduledISO)
-            .maybeSingle();
-
-          if (!exists) {
-            await supabase.from("nudges").insert({
-              user_id: p.id,
-              scheduled_at: scheduledISO,
-              status: "scheduled",
-            } satisfies Database["public"]["Tables"]["nudges"]["Insert"]);
-            // eslint-disable-next-line no-console
-            console.log(`[NUDGES CRON] Created scheduled nudge for user ${p.id} at ${scheduledISO}`);
-          }
-        })()
-      );
+    const timezone = resolveTimezone(conf?.timezone);
+
+    for (const t of new Set(times)) {
+      const scheduledISO = localTimeToUtcIso(t, timezone);
+      if (!scheduledISO) continue;
+      slots.push({ user_id: p.id, scheduled_at: scheduledISO, status: "scheduled" });
     }
   }
-  await Promise.all(ensurePromises);
 
-  // Send due nudges
+  if (slots.length > 0) {
+    const { data: created, error: upErr } = await supabase
+      .from("nudges")
+      .upsert(slots, { onConflict: "user_id,scheduled_at", ignoreDuplicates: true })
+      .select("id");
+    if (upErr) {
+      return NextResponse.json({ error: upErr.message }, { status: 500 });
+    }
+    if (created && created.length > 0) {
+      // eslint-disable-next-line no-console
+      console.log(`[NUDGES CRON] Materialized ${created.length} new scheduled nudge(s).`);
+    }
+  }
+
+  const settingsByUser = await loadNotificationSettings(
+    supabase,
+    (profiles ?? []).map((p) => p.id)
+  );
+
+  // Queue due nudges
   const nowISO = new Date().toISOString();
   const { data: dueNudges, error: nErr } = await supabase
     .from("nudges")
     .select("*")
     .lte("scheduled_at", nowISO)
-    .is("sent_at", null);
+    .eq("status", "scheduled");
 
   if (nErr) {
     return NextResponse.json({ error: nErr.message }, { status: 500 });
   }
 
-  let sentCount = 0;
-  for (const nudge of dueNudges ?? []) {
+  let queuedCount = 0;
+  let updatedCount = 0;
+  let skippedCount = 0;
+  const failures: { nudge_id: string; error: string }[] = [];
+  for (const due of dueNudges ?? []) {
+    // Claim the nudge before doing any work: only the run whose conditional
+    // update flips it out of "scheduled" gets to queue the email.
+    const { data: nudge } = await supabase
+      .from("nudges")
+      .update({ status: "queued" })
+      .eq("id", due.id)
+      .eq("status", "scheduled")
+      .select("*")
+      .maybeSingle();
+    if (!nudge) continue;
+
     const userId = nudge.user_id;
+
+    // This nudge ends the previous one's window: record what the user changed since.
+    updatedCount += await recordNudgeUpdates(supabase, userId, new Date());
+
+    const settings = settingsByUser.get(userId) ?? { prefs: DEFAULT_PREFERENCES, timezone: DEFAULT_TIMEZONE };
+    if (isOnVacation(settings)) {
+      await supabase.from("nudges").update({ status: "skipped" }).eq("id", nudge.id);
+      skippedCount += 1;
+      // eslint-disable-next-line no-console
+      console.log(`[NUDGES CRON] User ${userId} is on vacation. Skipped nudge ${nudge.id}.`);
+      continue;
+    }
+
     const prof = (profiles ?? []).find((x) => x.id === userId) as Profile | undefined;
     const email = prof?.email ?? "";
     const name = prof?.name || email || "there";
 
-    const { data: myTasks } = await supabase.from("tasks").select("*").eq("owner_id", userId);
+    const { data: ownTasks } = await supabase.from("tasks").select("*").eq("owner_id", userId);
 
-    const todayDate = DateTime.now().toISODate() ?? new Date().toISOString().slice(0, 10);
-    const todayEnd = DateTime.fromISO(`${todayDate}T23:59:59.999Z`).toMillis();
+    // Tasks shared with the user count too, unless they opted out
+    const conf = confByUser.get(userId);
+    let sharedTasks: Task[] = [];
+    const sharePermission = new Map<string, Database["public"]["Enums"]["share_permission"]>();
+    if (conf?.include_shared ?? true) {
+      const { data: shareRows } = await supabase
+        .from("task_shares")
+        .select("task_id,permission")
+        .eq("user_id", userId);
+      (shareRows ?? []).forEach((r) => sharePermission.set(r.task_id, r.permission));
+      const sharedIds = (shareRows ?? []).map((r) => r.task_id);
+      if (sharedIds.length > 0) {
+        const [{ data: direct }, { data: children }] = await Promise.all([
+          supabase.from("tasks").select("*").in("id", sharedIds).neq("owner_id", userId),
+          // Subtasks of a shared task are shared with it (task_share_permission)
+          supabase.from("tasks").select("*").in("parent_id", sharedIds).neq("owner_id", userId),
+        ]);
+        const inherited = (children ?? []).filter((c) => !sharePermission.has(c.id));
+        inherited.forEach((c) => sharePermission.set(c.id, sharePermission.get(c.parent_id as string)!));
+        sharedTasks = [...(direct ?? []), ...inherited];
+      }
+    }
+    const myTasks = [...(ownTasks ?? []), ...sharedTasks];
+    const sharedIdSet = new Set(sharedTasks.map((t) => t.id));
+    const ownerName = (ownerId: string) => {
+      const owner = (profiles ?? []).find((x) => x.id === ownerId);
+      return owner?.name || owner?.email || "Someone";
+    };
+    const sampleOf = (t: Task): NudgeTaskSample =>
+      sharedIdSet.has(t.id)
+        ? {
+            id: t.id,
+            title: t.title,
+            due: t.due_date,
+            status: t.status,
+            shared: true,
+            owner: ownerName(t.owner_id),
+            permission: sharePermission.get(t.id),
+          }
+        : { id: t.id, title: t.title, due: t.due_date, status: t.status };
 
-    const overdue = (myTasks ?? []).filter(
-      (t) => t.status !== "done" && DateTime.fromISO(`${t.due_date}T23:59:59Z`).toMillis() < Date.now()
-    );
-    const dueToday = (myTasks ?? []).filter((t) => t.status !== "done" && t.due_date === todayDate);
-    const dueSoon = (myTasks ?? []).filter((t) => {
-      if (t.status === "done") return false;
-      const due = DateTime.fromISO(`${t.due_date}T23:59:59Z`).toMillis();
-      const diffDays = Math.floor((due - todayEnd) / (1000 * 60 * 60 * 24));
-      return diffDays >= 0 && diffDays <= 1;
-    });
+    // Due-date labels use the user's own calendar day.
+    const timezone = resolveTimezone(conf?.timezone);
+    const overdue = (myTasks ?? []).filter((t) => isOverdue(t, timezone));
+    const dueToday = (myTasks ?? []).filter((t) => isDueToday(t, timezone));
+    // Due soon excludes today's tasks so no task is listed twice in the email
+    const dueSoon = (myTasks ?? []).filter((t) => isDueSoon(t, timezone) && !isDueToday(t, timezone));
 
-    const payload = {
+    const payload: NudgePayload = {
       counts: {
         overdue: overdue.length,
         dueToday: dueToday.length,
         dueSoon: dueSoon.length,
         open: (myTasks ?? []).filter((t) => t.status !== "done").length,
         done: (myTasks ?? []).filter((t) => t.status === "done").length,
+        shared: sharedTasks.filter((t) => t.status !== "done").length,
       },
       sample: {
-        overdue: overdue.slice(0, 3).map((t) => ({ id: t.id, title: t.title, due: t.due_date })),
-        dueToday: dueToday.slice(0, 3).map((t) => ({ id: t.id, title: t.title })),
-        dueSoon: dueSoon.slice(0, 3).map((t) => ({ id: t.id, title: t.title, due: t.due_date })),
+        overdue: overdue.slice(0, 3).map(sampleOf),
+        dueToday: dueToday.slice(0, 3).map(sampleOf),
+        dueSoon: dueSoon.slice(0, 3).map(sampleOf),
       },
     };
 
-    const ackUrl = buildAckUrl(origin, nudge.id);
-    const html = `
-      <div style="font-family: Arial, Helvetica, sans-serif; line-height:1.5; color:#111;">
-        <h2>Hi ${htmlEscape(name)}, quick task check-in ⚡</h2>
-        <p>Here's a snapshot:</p>
-        <ul>
-          <li><strong>Overdue:</strong> ${payload.counts.overdue}</li>
-          <li><strong>Due today:</strong> ${payload.counts.dueToday}</li>
-          <li><strong>Due soon:</strong> ${payload.counts.dueSoon}</li>
-          <li><strong>Open:</strong> ${payload.counts.open}</li>
-          <li><strong>Done:</strong> ${payload.counts.done}</li>
-        </ul>
-        <p>Tap below once you've reviewed or updated your tasks:</p>
-        <p><a href="${ackUrl}" target="_blank" style="display:inline-block;padding:10px 14px;background:#111;color:#fff;text-decoration:none;border-radius:8px;">I'm up to date</a></p>
-        <p style="font-size:12px;color:#555;">This link records your acknowledgement.</p>
-      </div>
-    `;
-
-    if (email) {
+    const ackUrl = buildAckUrl(origin, nudge.id, userId);
+    const message = renderNudgeEmail({
+      origin,
+      name,
+      payload,
+      ackUrl,
+      actionUrl: (taskId, action) => buildActionUrl(origin, nudge.id, taskId, action),
+    });
+    const delivery = await deliverEvent(supabase, settings, {
+      userId,
+      event: "nudge",
+      // Delivery (with retries) is handled by the outbox worker at /api/cron/email,
+      // which flips the nudge to sent or failed.
+      email: email
+        ? {
+            to: email,
+            subject: message.subject,
+            html: message.html,
+            text: message.text,
+            source: "nudge",
+            sourceId: nudge.id,
+          }
+        : null,
+      inApp: {
+        type: "nudge",
+        title: "Task check-in",
+        body: `${payload.counts.overdue} overdue, ${payload.counts.dueToday} due today, ${payload.counts.dueSoon} due soon.`,
+        link: "/tasks",
+        sourceId: nudge.id,
+      },
+      webhook: { nudge_id: nudge.id, user_id: userId, scheduled_at: nudge.scheduled_at, ack_url: ackUrl, ...payload },
+    });
+    const queued = delivery.email;
+
+    if (queued?.ok) {
+      await supabase.from("nudges").update({ payload }).eq("id", nudge.id);
+      queuedCount += 1;
       // eslint-disable-next-line no-console
-      console.log(`[NUDGES CRON] Sending nudge ${nudge.id} to user ${userId} (${email}) scheduled_at ${nudge.scheduled_at}`);
-      const res = await sendEmail({
-        to: email,
-        subject: "Your FlowTrack nudge",
-        html,
-      });
-
-      if (res.ok) {
-        await supabase
-          .from("nudges")
-          .update({ sent_at: new Date().toISOString(), status: "sent", payload })
-          .eq("id", nudge.id);
-        sentCount += 1;
-        // eslint-disable-next-line no-console
-        console.log(`[NUDGES CRON] Marked nudge ${nudge.id} as sent.`);
-      } else {
-        await supabase.from("nudges").update({ status: "failed" }).eq("id", nudge.id);
-        // eslint-disable-next-line no-console
-        console.log(`[NUDGES CRON] Failed to send nudge ${nudge.id}.`);
-      }
+      console.log(`[NUDGES CRON] Queued nudge ${nudge.id} for user ${userId} (outbox ${queued.id}).`);
+    } else if (queued?.duplicate) {
+      // eslint-disable-next-line no-console
+      console.log(`[NUDGES CRON] Nudge ${nudge.id} is already in the outbox.`);
+    } else if (queued) {
+      // Release the claim so the next run can try again.
+      await supabase.from("nudges").update({ status: "scheduled" }).eq("id", nudge.id).eq("status", "queued");
+      failures.push({ nudge_id: nudge.id, error: queued.error });
+      // eslint-disable-next-line no-console
+      console.log(`[NUDGES CRON] Failed to queue nudge ${nudge.id}: ${queued.error}`);
+    } else if (delivery.delivered.length > 0) {
+      // No email this time (no address, vacation or the user's channels),
+      // so the nudge is sent once another channel took it.
+      await supabase
+        .from("nudges")
+        .update({ status: "sent", sent_at: new Date().toISOString(), payload })
+        .eq("id", nudge.id);
+      // eslint-disable-next-line no-console
+      console.log(`[NUDGES CRON] Delivered nudge ${nudge.id} via ${delivery.delivered.join(", ")}.`);
+    } else if (delivery.channels.length === 0) {
+      await supabase.from("nudges").update({ status: "skipped", payload }).eq("id", nudge.id);
+      skippedCount += 1;
+      // eslint-disable-next-line no-console
+      console.log(`[NUDGES CRON] User ${userId} has no channel for nudges right now. Skipped nudge ${nudge.id}.`);
     } else {
       await supabase.from("nudges").update({ status: "failed" }).eq("id", nudge.id);
+      const error = delivery.errors.join("; ") || "No deliverable channel.";
+      failures.push({ nudge_id: nudge.id, error });
       // eslint-disable-next-line no-console
-      console.log(`[NUDGES CRON] No email for user ${userId}. Marked nudge ${nudge.id} as failed.`);
+      console.log(`[NUDGES CRON] Delivery failed for nudge ${nudge.id}: ${error}`);
     }
   }
 
   return NextResponse.json({
     ensured_for_users: profiles?.length ?? 0,
-    nudges_sent: sentCount,
+    nudges_queued: queuedCount,
+    previous_nudges_updated: updatedCount,
+    nudges_skipped: skippedCount,
+    failures,
   });
 }
@@ -1,25 +1,258 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { sendEmail } from "@/lib/email";
-import type { Tables } from "@/database.types";
+import { isAuthorizedCron } from "@/lib/cron";
+import { deliverEvent } from "@/lib/notifications";
+import { DEFAULT_PREFERENCES, loadNotificationSettings, type NotificationSettings } from "@/lib/notification-preferences";
+import { addDays, isDueSoon, isOverdue, localDate, localDateOf, localTimeToUtcIso, resolveTimezone } from "@/lib/dates";
+import { DateTime } from "luxon";
+import { formatRate, nudgeRates } from "@/lib/nudge-outcomes";
+import {
+  formatPeriod,
+  PERIOD_LABELS,
+  renderRollupEmail,
+  type RollupMember,
+  type RollupPeriod,
+  type RollupSummary,
+} from "@/lib/email/templates/report-rollup";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/database.types";
 
 type Profile = Tables<"profiles">;
 type Task = Tables<"tasks">;
+type ReportConfig = Pick<
+  Tables<"report_configs">,
+  "send_time" | "timezone" | "weekdays_only" | "enabled" | "weekly_enabled" | "monthly_enabled" | "include_subtasks"
+>;
+type ReportPeriod = Database["public"]["Enums"]["report_period"];
+type TeamMember = Pick<Profile, "id" | "name" | "email">;
+type RollupRange = { start: string; end: string };
 
-function isAuthorizedCron(req: NextRequest): boolean {
-  const secret = process.env.CRON_SECRET;
-  if (!secret) return true; // allow in dev if not set
-  const authHeader = req.headers.get("authorization") || req.headers.get("x-cron-secret");
-  if (!authHeader) return false;
-  if (authHeader === secret) return true;
-  if (authHeader.startsWith("Bearer ")) {
-    return authHeader.slice(7) === secret;
+const ROLLUP_PERIODS: RollupPeriod[] = ["weekly", "monthly"];
+
+// How many of the most overdue open tasks a rollup lists
+const MOST_OVERDUE_LIMIT = 5;
+
+// Managers without a report_configs row get the evening report in their nudge timezone
+const DEFAULT_SEND_TIME = "17:00";
+
+// Nudge ack and update rates cover this many days up to the report
+const RATE_WINDOW_DAYS = 7;
+
+// The manager's local date if today's report is due (enabled, a sending day,
+// and past the send time), otherwise null.
+function dueReportDate(config: ReportConfig, now: Date): string | null {
+  if (!config.enabled) return null;
+  const tz = resolveTimezone(config.timezone);
+  const today = localDate(tz, now);
+  if (config.weekdays_only && DateTime.fromISO(today).weekday > 5) return null;
+  const sendAt = localTimeToUtcIso(config.send_time, tz, today);
+  if (!sendAt || new Date(sendAt).getTime() > now.getTime()) return null;
+  return today;
+}
+
+// The period that just ended if its rollup is due: today is the first day of
+// a new week (Monday) or month, that rollup is enabled, and the send time has
+// passed. Rollups ignore weekdays_only.
+function dueRollupRange(config: ReportConfig, period: RollupPeriod, now: Date): RollupRange | null {
+  if (!(period === "weekly" ? config.weekly_enabled : config.monthly_enabled)) return null;
+  const tz = resolveTimezone(config.timezone);
+  const today = DateTime.fromISO(localDate(tz, now), { zone: "UTC" });
+  if (period === "weekly" ? today.weekday !== 1 : today.day !== 1) return null;
+  const sendAt = localTimeToUtcIso(config.send_time, tz, today.toISODate() as string);
+  if (!sendAt || new Date(sendAt).getTime() > now.getTime()) return null;
+  return {
+    start: today.minus(period === "weekly" ? { weeks: 1 } : { months: 1 }).toISODate() as string,
+    end: today.minus({ days: 1 }).toISODate() as string,
+  };
+}
+
+// Claims a report by inserting its row, or by retrying one whose enqueue
+// failed. Null means the report is already handled.
+async function claimReport(
+  supabase: SupabaseClient<Database>,
+  managerId: string,
+  period: ReportPeriod,
+  reportDate: string
+): Promise<string | null> {
+  const { data: inserted } = await supabase
+    .from("manager_reports")
+    .upsert(
+      { manager_id: managerId, period, report_date: reportDate, status: "scheduled" },
+      { onConflict: "manager_id,period,report_date", ignoreDuplicates: true }
+    )
+    .select("id");
+  if (inserted?.[0]?.id) return inserted[0].id;
+
+  const { data: retried } = await supabase
+    .from("manager_reports")
+    .update({ status: "scheduled", sent_at: null })
+    .eq("manager_id", managerId)
+    .eq("period", period)
+    .eq("report_date", reportDate)
+    .eq("status", "failed")
+    .select("id")
+    .maybeSingle();
+  return retried?.id ?? null;
+}
+
+// Subtasks only count when the manager opted in (report_configs.include_subtasks).
+// Returns the ids to leave out of counts and completions.
+function excludedSubtaskIds(tasks: Pick<Task, "id" | "parent_id">[], includeSubtasks: boolean): Set<string> {
+  if (includeSubtasks) return new Set();
+  return new Set(tasks.filter((t) => t.parent_id).map((t) => t.id));
+}
+
+function daysBetween(from: string, to: string): number {
+  return DateTime.fromISO(to, { zone: "UTC" }).diff(DateTime.fromISO(from, { zone: "UTC" }), "days").days;
+}
+
+// Throughput and lateness come from task history, the overdue trend from the
+// period's daily reports, and the most overdue list from open tasks now.
+async function buildRollupSummary(
+  supabase: SupabaseClient<Database>,
+  managerId: string,
+  team: TeamMember[],
+  tz: string,
+  period: RollupPeriod,
+  range: RollupRange,
+  includeSubtasks: boolean,
+  now: Date
+): Promise<RollupSummary> {
+  const perUser: Record<string, RollupMember> = {};
+  for (const member of team) {
+    perUser[member.id] = {
+      name: member.name || member.email || "Unknown",
+      completed: 0,
+      avgLatenessDays: null,
+      overdueTrend: [],
+    };
   }
-  return false;
+  const summary: RollupSummary = {
+    period,
+    start: range.start,
+    end: range.end,
+    team: { completed: 0, avgLatenessDays: null, overdueTrend: [] },
+    perUser,
+    mostOverdue: [],
+  };
+  const teamIds = team.map((m) => m.id);
+  if (teamIds.length === 0) return summary;
+
+  const { data: allTasks } = await supabase
+    .from("tasks")
+    .select("id,title,owner_id,status,due_date,parent_id")
+    .in("owner_id", teamIds);
+  const excluded = excludedSubtaskIds(allTasks ?? [], includeSubtasks);
+  const tasks = (allTasks ?? []).filter((t) => !excluded.has(t.id));
+  const taskById = new Map(tasks.map((t) => [t.id, t]));
+
+  const { data: completions } = await supabase
+    .from("task_events")
+    .select("task_id,owner_id,created_at")
+    .in("owner_id", teamIds)
+    .eq("event_type", "status_changed")
+    .eq("new_status", "done")
+    .gte("created_at", localTimeToUtcIso("00:00", tz, range.start) as string)
+    .lt("created_at", localTimeToUtcIso("00:00", tz, addDays(range.end, 1)) as string)
+    .order("created_at", { ascending: true });
+
+  // Each task counts once, at its first completion in the period
+  const counted = new Set<string>();
+  const lateness = new Map<string, number[]>();
+  for (const c of completions ?? []) {
+    const user = perUser[c.owner_id];
+    if (!user || counted.has(c.task_id) || excluded.has(c.task_id)) continue;
+    counted.add(c.task_id);
+    user.completed += 1;
+    summary.team.completed += 1;
+    const task = taskById.get(c.task_id);
+    if (task) {
+      const days = daysBetween(task.due_date, localDateOf(c.created_at, tz));
+      lateness.set(c.owner_id, [...(lateness.get(c.owner_id) ?? []), days]);
+    }
+  }
+  const mean = (xs: number[]) => (xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : null);
+  lateness.forEach((days, userId) => {
+    perUser[userId].avgLatenessDays = mean(days);
+  });
+  summary.team.avgLatenessDays = mean([...lateness.values()].flat());
+
+  const { data: dailies } = await supabase
+    .from("manager_reports")
+    .select("report_date,summary")
+    .eq("manager_id", managerId)
+    .eq("period", "daily")
+    .gte("report_date", range.start)
+    .lte("report_date", range.end)
+    .order("report_date", { ascending: true });
+  for (const daily of dailies ?? []) {
+    const counts = (daily.summary as { perUser?: Record<string, { overdue?: number }> } | null)?.perUser ?? {};
+    let overdue = 0;
+    for (const id of teamIds) {
+      const n = counts[id]?.overdue ?? 0;
+      perUser[id].overdueTrend.push(n);
+      overdue += n;
+    }
+    summary.team.overdueTrend.push({ date: daily.report_date, overdue });
+  }
+
+  const today = localDate(tz, now);
+  summary.mostOverdue = tasks
+    .filter((t) => t.status !== "done" && isOverdue(t, tz, now))
+    .sort((a, b) => a.due_date.localeCompare(b.due_date))
+    .slice(0, MOST_OVERDUE_LIMIT)
+    .map((t) => ({
+      taskId: t.id,
+      title: t.title,
+      owner: perUser[t.owner_id]?.name ?? "Unknown",
+      dueDate: t.due_date,
+      daysOverdue: daysBetween(t.due_date, today),
+    }));
+
+  return summary;
 }
 
-function todayUtcDateStr(): string {
-  return new Date().toISOString().slice(0, 10);
+type ReportDelivery = {
+  manager: Pick<Profile, "id" | "email">;
+  reportId: string;
+  message: { subject: string; html: string; text?: string };
+  inApp: { title: string; body: string };
+  webhook: Record<string, unknown>;
+};
+
+// Sends a claimed report over the manager's channels. Every period (daily,
+// weekly, monthly) follows the manager's daily_report preference. A queued email leaves
+// the row for the outbox worker to settle; otherwise it is settled here.
+async function deliverReport(
+  supabase: SupabaseClient<Database>,
+  settings: NotificationSettings,
+  { manager, reportId, message, inApp, webhook }: ReportDelivery
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const delivery = await deliverEvent(supabase, settings, {
+    userId: manager.id,
+    event: "daily_report",
+    email: manager.email ? { to: manager.email, ...message, source: "manager_report", sourceId: reportId } : null,
+    inApp: { type: "report_ready", ...inApp, link: "/reports", sourceId: reportId },
+    webhook: { report_id: reportId, ...webhook },
+  });
+  if (delivery.email && (delivery.email.ok || delivery.email.duplicate)) return { ok: true };
+
+  if (delivery.channels.length > 0 && delivery.delivered.length === 0) {
+    await supabase.from("manager_reports").update({ status: "failed" }).eq("id", reportId);
+    return { ok: false, error: delivery.errors.join("; ") || "No deliverable channel." };
+  }
+  // Muted by vacation: nothing went out, so the report is skipped (it stays
+  // readable on /reports) rather than marked sent
+  if (delivery.channels.length === 0) {
+    await supabase.from("manager_reports").update({ status: "skipped" }).eq("id", reportId);
+    return { ok: true };
+  }
+  // Delivered in-app or queued as a webhook
+  await supabase
+    .from("manager_reports")
+    .update({ status: "sent", sent_at: new Date().toISOString() })
+    .eq("id", reportId);
+  return { ok: true };
 }
 
 function htmlEscape(s: string): string {
@@ -47,7 +280,19 @@ export async function GET(request: NextRequest) {
   }
 
   const supabase = createAdminClient();
-  const today = todayUtcDateStr();
+  const now = new Date();
+
+  // Fallback timezones come from nudge_configs; users without a config are on UTC.
+  const { data: configs } = await supabase.from("nudge_configs").select("user_id,timezone");
+  const tzByUser = new Map<string, string>();
+  (configs ?? []).forEach((c) => tzByUser.set(c.user_id, resolveTimezone(c.timezone)));
+  const tzOf = (userId: string) => tzByUser.get(userId) ?? resolveTimezone(null);
+
+  const { data: reportConfigs } = await supabase
+    .from("report_configs")
+    .select("manager_id,send_time,timezone,weekdays_only,enabled,weekly_enabled,monthly_enabled,include_subtasks");
+  const reportConfigByManager = new Map<string, ReportConfig>();
+  (reportConfigs ?? []).forEach((c) => reportConfigByManager.set(c.manager_id, c));
 
   // 1) Fetch managers
   const { data: managers, error: mErr } = await supabase
@@ -59,10 +304,80 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: mErr.message }, { status: 500 });
   }
 
-  let sentCount = 0;
+  const settingsByManager = await loadNotificationSettings(
+    supabase,
+    (managers ?? []).map((m) => m.id)
+  );
+
+  let queuedCount = 0;
+  let rollupsQueued = 0;
+  let notDueCount = 0;
+  const failures: { manager_id: string; error: string }[] = [];
 
   for (const manager of managers ?? []) {
-    // 2) Team members: profiles with manager_id = manager.id
+    const config = reportConfigByManager.get(manager.id) ?? {
+      send_time: DEFAULT_SEND_TIME,
+      timezone: tzOf(manager.id),
+      weekdays_only: false,
+      enabled: true,
+      weekly_enabled: true,
+      monthly_enabled: true,
+      include_subtasks: false,
+    };
+    const tz = resolveTimezone(config.timezone);
+    const settings = settingsByManager.get(manager.id) ?? { prefs: DEFAULT_PREFERENCES, timezone: tz };
+
+    // Weekly and monthly rollups run on their own schedule, independent of the daily report
+    for (const period of ROLLUP_PERIODS) {
+      const range = dueRollupRange(config, period, now);
+      if (!range) continue;
+      const rollupId = await claimReport(supabase, manager.id, period, range.start);
+      if (!rollupId) continue;
+
+      const { data: members } = await supabase.from("profiles").select("id,name,email").eq("manager_id", manager.id);
+      const summary = await buildRollupSummary(
+        supabase,
+        manager.id,
+        members ?? [],
+        tz,
+        period,
+        range,
+        config.include_subtasks,
+        now
+      );
+      await supabase.from("manager_reports").update({ summary }).eq("id", rollupId);
+
+      const delivered = await deliverReport(supabase, settings, {
+        manager,
+        reportId: rollupId,
+        message: renderRollupEmail(summary),
+        inApp: {
+          title: `${PERIOD_LABELS[period]} team rollup: ${formatPeriod(range.start, range.end)}`,
+          body: `${summary.team.completed} task(s) completed.`,
+        },
+        webhook: { period, start: range.start, end: range.end, summary },
+      });
+      if (delivered.ok) {
+        rollupsQueued += 1;
+      } else {
+        failures.push({ manager_id: manager.id, error: delivered.error });
+        // eslint-disable-next-line no-console
+        console.log(`[REPORTS CRON] Failed to deliver ${period} rollup for manager ${manager.id}: ${delivered.error}`);
+      }
+    }
+
+    // The report is dated by the manager's calendar day
+    const today = dueReportDate(config, now);
+    if (!today) {
+      notDueCount += 1;
+      continue;
+    }
+
+    // 2) Claim the day; anything else means this day's report is already handled
+    const reportId = await claimReport(supabase, manager.id, "daily", today);
+    if (!reportId) continue;
+
+    // 3) Team members: profiles with manager_id = manager.id
     const { data: team } = await supabase
       .from("profiles")
       .select("id,name,email")
@@ -77,24 +392,53 @@ export async function GET(request: NextRequest) {
           <p>No team members assigned yet.</p>
         </div>
       `;
-      if (manager.email) {
-        await sendEmail({
-          to: manager.email,
-          subject: "FlowTrack - Daily team report (no team yet)",
-          html,
-        });
-        sentCount += 1;
+      await supabase
+        .from("manager_reports")
+        .update({ summary: { date: today, perUser: {} } })
+        .eq("id", reportId);
+      const delivered = await deliverReport(supabase, settings, {
+        manager,
+        reportId,
+        message: { subject: "FlowTrack - Daily team report (no team yet)", html },
+        inApp: { title: `Daily team report for ${today}`, body: "No team members assigned yet." },
+        webhook: { period: "daily", report_date: today, summary: { date: today, perUser: {} } },
+      });
+      if (delivered.ok) {
+        queuedCount += 1;
+      } else {
+        failures.push({ manager_id: manager.id, error: delivered.error });
       }
       continue;
     }
 
-    // 3) Fetch tasks for the team
-    const { data: tasks } = await supabase
+    // 4) Fetch tasks for the team
+    const { data: allTasks } = await supabase
       .from("tasks")
       .select("*")
       .in("owner_id", teamIds);
+    const excluded = excludedSubtaskIds(allTasks ?? [], config.include_subtasks);
+    const tasks = (allTasks ?? []).filter((t) => !excluded.has(t.id));
 
-    // 4) Compute per-user stats
+    // Completions come from task history: a task counts once for the day it
+    // moved to done, even if it was reopened or edited afterwards.
+    const dayStart = localTimeToUtcIso("00:00", tz, today) as string;
+    const dayEnd = localTimeToUtcIso("00:00", tz, addDays(today, 1)) as string;
+    const { data: completions } = await supabase
+      .from("task_events")
+      .select("task_id,owner_id")
+      .in("owner_id", teamIds)
+      .eq("event_type", "status_changed")
+      .eq("new_status", "done")
+      .gte("created_at", dayStart)
+      .lt("created_at", dayEnd);
+
+    const { data: teamNudges } = await supabase
+      .from("nudges")
+      .select("user_id,sent_at,acknowledged_at,outcome_checked_at,updated_task_ids")
+      .in("user_id", teamIds)
+      .gte("sent_at", new Date(now.getTime() - RATE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString());
+
+    // 5) Compute per-user stats
     const perUser: Record<
       string,
       {
@@ -103,74 +447,55 @@ export async function GET(request: NextRequest) {
         open: number;
         overdue: number;
         dueSoon: number;
+        ackRate: number | null;
+        updateRate: number | null;
       }
     > = {};
 
-    const todayEnd = new Date(`${today}T23:59:59.999Z`).getTime();
-
     for (const member of team ?? []) {
+      const rates = nudgeRates((teamNudges ?? []).filter((n) => n.user_id === member.id));
       perUser[member.id] = {
         name: member.name || member.email || "Unknown",
         completedToday: 0,
         open: 0,
         overdue: 0,
         dueSoon: 0,
+        ackRate: rates.ackRate,
+        updateRate: rates.updateRate,
       };
     }
 
-    for (const t of tasks ?? []) {
+    // Counts are for the report's day, i.e. the manager's calendar day
+    for (const t of tasks) {
       const user = perUser[t.owner_id];
       if (!user) continue;
 
       const isDone = t.status === "done";
-      const updatedDate = t.updated_at.slice(0, 10);
-      const isCompletedToday = isDone && updatedDate === today;
-
-      if (isCompletedToday) user.completedToday += 1;
       if (!isDone) {
         user.open += 1;
-        const due = new Date(`${t.due_date}T23:59:59Z`).getTime();
-        if (due < Date.now()) {
+        if (isOverdue(t, tz, now)) {
           user.overdue += 1;
-        } else {
-          const diffDays = Math.floor((due - todayEnd) / (1000 * 60 * 60 * 24));
-          if (diffDays >= 0 && diffDays <= 1) {
-            user.dueSoon += 1;
-          }
+        } else if (isDueSoon(t, tz, now)) {
+          user.dueSoon += 1;
         }
       }
     }
 
-    // 5) Compose and upsert manager_report row
+    const completedTaskIds = new Set<string>();
+    for (const c of completions ?? []) {
+      const user = perUser[c.owner_id];
+      if (!user || completedTaskIds.has(c.task_id) || excluded.has(c.task_id)) continue;
+      completedTaskIds.add(c.task_id);
+      user.completedToday += 1;
+    }
+
+    // 6) Compose the summary stored on the manager_report row
     const summary = {
       date: today,
       perUser,
     };
 
-    // Upsert (select existing for this date)
-    const { data: existing } = await supabase
-      .from("manager_reports")
-      .select("id")
-      .eq("manager_id", manager.id)
-      .eq("report_date", today)
-      .maybeSingle();
-
-    if (existing) {
-      await supabase
-        .from("manager_reports")
-        .update({ summary, status: "sent", sent_at: new Date().toISOString() })
-        .eq("id", existing.id);
-    } else {
-      await supabase.from("manager_reports").insert({
-        manager_id: manager.id,
-        report_date: today,
-        summary,
-        status: "sent",
-        sent_at: new Date().toISOString(),
-      });
-    }
-
-    // 6) Email the manager
+    // 7) Render the manager email
     const rowsHtml = Object.values(perUser)
       .map(
         (u) => `
@@ -180,6 +505,8 @@ export async function GET(request: NextRequest) {
         <td style="padding:8px 12px;border:1px solid #eee;">${u.open}</td>
         <td style="padding:8px 12px;border:1px solid #eee;">${u.overdue}</td>
         <td style="padding:8px 12px;border:1px solid #eee;">${u.dueSoon}</td>
+        <td style="padding:8px 12px;border:1px solid #eee;">${formatRate(u.ackRate)}</td>
+        <td style="padding:8px 12px;border:1px solid #eee;">${formatRate(u.updateRate)}</td>
       </tr>`
       )
       .join("");
@@ -195,27 +522,44 @@ export async function GET(request: NextRequest) {
               <th style="text-align:left;padding:8px 12px;border:1px solid #eee;">Open</th>
               <th style="text-align:left;padding:8px 12px;border:1px solid #eee;">Overdue</th>
               <th style="text-align:left;padding:8px 12px;border:1px solid #eee;">Due soon</th>
+              <th style="text-align:left;padding:8px 12px;border:1px solid #eee;">Nudges acked (${RATE_WINDOW_DAYS}d)</th>
+              <th style="text-align:left;padding:8px 12px;border:1px solid #eee;">Tasks updated after nudge (${RATE_WINDOW_DAYS}d)</th>
             </tr>
           </thead>
           <tbody>
-            ${rowsHtml || `<tr><td colspan="5" style="padding:8px 12px;border:1px solid #eee;">No data</td></tr>`}
+            ${rowsHtml || `<tr><td colspan="7" style="padding:8px 12px;border:1px solid #eee;">No data</td></tr>`}
           </tbody>
         </table>
       </div>
     `;
 
-    if (manager.email) {
-      await sendEmail({
-        to: manager.email,
-        subject: "FlowTrack - Daily team report",
-        html,
-      });
-      sentCount += 1;
+    // 8) Store the summary on the claimed row; deliverReport or the outbox worker marks it sent/failed
+    await supabase.from("manager_reports").update({ summary }).eq("id", reportId);
+
+    const delivered = await deliverReport(supabase, settings, {
+      manager,
+      reportId,
+      message: { subject: "FlowTrack - Daily team report", html },
+      inApp: {
+        title: `Daily team report for ${today}`,
+        body: `${completedTaskIds.size} task(s) completed today.`,
+      },
+      webhook: { period: "daily", report_date: today, summary },
+    });
+    if (delivered.ok) {
+      queuedCount += 1;
+    } else {
+      failures.push({ manager_id: manager.id, error: delivered.error });
+      // eslint-disable-next-line no-console
+      console.log(`[REPORTS CRON] Failed to deliver report for manager ${manager.id}: ${delivered.error}`);
     }
   }
 
   return NextResponse.json({
-    reports_sent: sentCount,
+    reports_queued: queuedCount,
+    rollups_queued: rollupsQueued,
     managers_considered: managers?.length ?? 0,
+    managers_not_due: notDueCount,
+    failures,
   });
 }
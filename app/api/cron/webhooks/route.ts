@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { isAuthorizedCron } from "@/lib/cron";
+import { attemptDelivery } from "@/lib/webhooks";
+
+const BATCH_SIZE = 25;
+const LEASE_SECONDS = 300;
+
+// Drains webhook_deliveries: claims due rows, POSTs them signed with their
+// subscription's secret, and marks each sent, retried with backoff, or dead.
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCron(request)) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: claimed, error } = await supabase.rpc("claim_webhook_deliveries", {
+    batch_size: BATCH_SIZE,
+    lease_seconds: LEASE_SECONDS,
+  });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const subscriptionIds = [...new Set((claimed ?? []).map((d) => d.subscription_id))];
+  const { data: subscriptions } = subscriptionIds.length
+    ? await supabase.from("webhook_subscriptions").select("id,url,secret,enabled").in("id", subscriptionIds)
+    : { data: [] };
+
+  const outcomes = { sent: 0, retry: 0, dead: 0 };
+  for (const delivery of claimed ?? []) {
+    const subscription = (subscriptions ?? []).find((s) => s.id === delivery.subscription_id) ?? null;
+    const outcome = await attemptDelivery(supabase, delivery, subscription);
+    outcomes[outcome] += 1;
+    if (outcome === "dead") {
+      // eslint-disable-next-line no-console
+      console.log(`[WEBHOOK WORKER] Dead-lettered ${delivery.id} (${delivery.event}) after ${delivery.attempts} attempt(s).`);
+    }
+  }
+
+  return NextResponse.json({
+    claimed: claimed?.length ?? 0,
+    sent: outcomes.sent,
+    retried: outcomes.retry,
+    dead_lettered: outcomes.dead,
+  });
+}
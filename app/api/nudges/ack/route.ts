@@ -1,41 +1,102 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import crypto from "node:crypto";
+import { verifyAckToken } from "@/lib/nudge-tokens";
+import { htmlEscape } from "@/lib/email/templates/layout";
 
-function verifyToken(id: string, token: string): boolean {
-  const secret = process.env.ACK_SECRET || "dev-ack-secret";
-  const expected = crypto.createHmac("sha256", secret).update(id).digest("hex");
-  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(token));
+function page(status: number, title: string, message: string, extraHtml = ""): NextResponse {
+  return new NextResponse(
+    `<!doctype html>
+    <html>
+      <body style="font-family:Arial;padding:24px;">
+        <h2>${title}</h2>
+        <p>${message}</p>${extraHtml}
+      </body>
+    </html>`,
+    { status, headers: { "content-type": "text/html; charset=utf-8" } }
+  );
 }
 
-export async function GET(request: NextRequest) {
+type AckLink = { id: string; userId: string };
+
+// The signed link's parameters, or null if they are missing, tampered with or expired.
+function readLink(request: NextRequest): AckLink | null {
   const search = request.nextUrl.searchParams;
   const id = search.get("i");
+  const userId = search.get("u");
   const token = search.get("t");
 
-  if (!id || !token || !verifyToken(id, token)) {
-    return new NextResponse(
-      `<!doctype html><html><body style="font-family:Arial;padding:24px;"><h2>Invalid or expired link</h2><p>Please open the latest nudge email and try again.</p></body></html>`,
-      { status: 400, headers: { "content-type": "text/html; charset=utf-8" } }
-    );
+  if (!id || !userId || !token || !verifyAckToken(id, userId, token)) return null;
+  return { id, userId };
+}
+
+// Acknowledgement links from nudge emails. Opening the link only asks for
+// confirmation: mail scanners and link prefetchers follow GETs, and an
+// acknowledgement is recorded once. The form POSTs back to the same signed URL.
+export async function GET(request: NextRequest) {
+  const link = readLink(request);
+  if (!link) {
+    return page(400, "Invalid or expired link", "Please open the latest nudge email and try again.");
   }
 
+  const target = `${request.nextUrl.pathname}${request.nextUrl.search}`;
+  return page(
+    200,
+    "Confirm your check-in",
+    "Let your manager know you've reviewed or updated your tasks.",
+    `
+        <form method="post" action="${htmlEscape(target)}">
+          <button type="submit" style="padding:10px 14px;background:#111;color:#fff;border:0;border-radius:8px;cursor:pointer;">I'm up to date</button>
+        </form>`
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const link = readLink(request);
+  if (!link) {
+    return page(400, "Invalid or expired link", "Please open the latest nudge email and try again.");
+  }
+  const { id, userId } = link;
+
   const supabase = createAdminClient();
 
-  await supabase
+  // Only the first use acknowledges; the token is bound to the nudge's recipient.
+  const { data: acknowledged } = await supabase
     .from("nudges")
     .update({ acknowledged_at: new Date().toISOString(), status: "acknowledged" })
-    .eq("id", id);
+    .eq("id", id)
+    .eq("user_id", userId)
+    .is("acknowledged_at", null)
+    .select("id")
+    .maybeSingle();
 
-  return new NextResponse(
-    `<!doctype html>
-    <html>
-      <body style="font-family:Arial;padding:24px;">
-        <h2>Thanks!</h2>
-        <p>Your task check-in has been recorded.</p>
-        <p>You can now close this tab.</p>
-      </body>
-    </html>`,
-    { status: 200, headers: { "content-type": "text/html; charset=utf-8" } }
+  if (!acknowledged) {
+    const { data: existing } = await supabase
+      .from("nudges")
+      .select("acknowledged_at")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (!existing) {
+      return page(404, "Invalid or expired link", "Please open the latest nudge email and try again.");
+    }
+
+    // eslint-disable-next-line no-console
+    console.log(`[NUDGE ACK] Reused acknowledgement link for nudge ${id} (first used ${existing.acknowledged_at})`);
+    return page(
+      409,
+      "Already recorded",
+      "This check-in was acknowledged earlier, so nothing changed.",
+      `
+        <p>You can now close this tab.</p>`
+    );
+  }
+
+  return page(
+    200,
+    "Thanks!",
+    "Your task check-in has been recorded.",
+    `
+        <p>You can now close this tab.</p>`
   );
 }
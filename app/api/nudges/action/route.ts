@@ -0,0 +1,118 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { verifyActionToken, type NudgeTaskAction } from "@/lib/nudge-tokens";
+import { Constants } from "@/database.types";
+import { htmlEscape } from "@/lib/email/templates/layout";
+
+const CONFIRM_LABELS: Record<NudgeTaskAction, string> = {
+  done: "Mark done",
+  in_progress: "Mark in progress",
+  snooze: "Snooze 1 day",
+};
+
+const DONE_MESSAGES: Record<NudgeTaskAction, string> = {
+  done: "The task is marked as done.",
+  in_progress: "The task is marked as in progress.",
+  snooze: "The task's due date moved one day later.",
+};
+
+function page(status: number, title: string, message: string, extraHtml = ""): NextResponse {
+  return new NextResponse(
+    `<!doctype html>
+    <html>
+      <body style="font-family:Arial;padding:24px;">
+        <h2>${title}</h2>
+        <p>${message}</p>${extraHtml}
+      </body>
+    </html>`,
+    { status, headers: { "content-type": "text/html; charset=utf-8" } }
+  );
+}
+
+type ActionLink = { nudgeId: string; taskId: string; action: NudgeTaskAction };
+
+// The signed link's parameters, or null if they are missing, tampered with or expired.
+function readLink(request: NextRequest): ActionLink | null {
+  const search = request.nextUrl.searchParams;
+  const nudgeId = search.get("n");
+  const taskId = search.get("k");
+  const action = search.get("a");
+  const token = search.get("t");
+
+  if (
+    !nudgeId ||
+    !taskId ||
+    !token ||
+    !action ||
+    !(Constants.public.Enums.nudge_action as readonly string[]).includes(action) ||
+    !verifyActionToken(nudgeId, taskId, action as NudgeTaskAction, token)
+  ) {
+    return null;
+  }
+  return { nudgeId, taskId, action: action as NudgeTaskAction };
+}
+
+// Task action links from nudge emails. Opening the link only asks for
+// confirmation: mail scanners and link prefetchers follow GETs, and the link
+// works once. The confirmation form POSTs back to the same signed URL.
+export async function GET(request: NextRequest) {
+  const link = readLink(request);
+  if (!link) {
+    return page(400, "Invalid or expired link", "Please open the latest nudge email and try again.");
+  }
+
+  const supabase = createAdminClient();
+  const { data: task } = await supabase.from("tasks").select("title").eq("id", link.taskId).maybeSingle();
+  if (!task) {
+    return page(404, "Task not found", "This task or nudge no longer exists.");
+  }
+
+  const label = CONFIRM_LABELS[link.action];
+  const target = `${request.nextUrl.pathname}${request.nextUrl.search}`;
+  return page(
+    200,
+    `${label}?`,
+    `<strong>${htmlEscape(task.title)}</strong>`,
+    `
+        <form method="post" action="${htmlEscape(target)}">
+          <button type="submit" style="padding:10px 14px;background:#111;color:#fff;border:0;border-radius:8px;cursor:pointer;">${label}</button>
+        </form>
+        <p style="font-size:12px;color:#555;">This link works once.</p>`
+  );
+}
+
+// Applies the confirmed action: apply_nudge_action consumes the link, updates
+// the task and acknowledges the nudge.
+export async function POST(request: NextRequest) {
+  const link = readLink(request);
+  if (!link) {
+    return page(400, "Invalid or expired link", "Please open the latest nudge email and try again.");
+  }
+  const { nudgeId, taskId, action } = link;
+
+  const supabase = createAdminClient();
+  const { data: outcome, error } = await supabase.rpc("apply_nudge_action", {
+    p_nudge_id: nudgeId,
+    p_task_id: taskId,
+    p_action: action,
+  });
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.log(`[NUDGE ACTION] Failed to apply ${action} on task ${taskId} for nudge ${nudgeId}: ${error.message}`);
+    return page(500, "Something went wrong", "We couldn't update the task. Please try again from FlowTrack.");
+  }
+
+  switch (outcome) {
+    case "applied":
+      return page(200, "Done!", `${DONE_MESSAGES[action]} You can now close this tab.`);
+    case "used":
+      // eslint-disable-next-line no-console
+      console.log(`[NUDGE ACTION] Reused ${action} link on task ${taskId} for nudge ${nudgeId}`);
+      return page(409, "Link already used", "This action was already applied. Open FlowTrack to make further changes.");
+    case "forbidden":
+      return page(403, "Not allowed", "You no longer have permission to make this change to the task.");
+    default:
+      return page(404, "Task not found", "This task or nudge no longer exists.");
+  }
+}
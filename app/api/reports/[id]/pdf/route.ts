@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { reportToPdfBlocks } from "@/lib/reports";
+import { renderPdf } from "@/lib/pdf";
+import type { Tables } from "@/database.types";
+
+type ReportRow = Tables<"manager_reports">;
+
+// Print-ready PDF of one report, rendered in-process. The report is read with
+// the caller's session, so manager_reports RLS decides access.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data } = await supabase.from("manager_reports").select("*").eq("id", id).maybeSingle();
+  const report = data as ReportRow | null;
+  if (!report) {
+    return NextResponse.json({ error: "Report not found." }, { status: 404 });
+  }
+
+  const pdf = renderPdf(reportToPdfBlocks(report));
+  return new NextResponse(new Uint8Array(pdf), {
+    status: 200,
+    headers: {
+      "content-type": "application/pdf",
+      "content-disposition": `attachment; filename="flowtrack-${report.period}-report-${report.report_date}.pdf"`,
+      "cache-control": "no-store",
+    },
+  });
+}
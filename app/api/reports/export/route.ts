@@ -0,0 +1,73 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { MAX_EXPORT_DAYS, REPORT_PERIODS, reportsToCsv, reportsToJson } from "@/lib/reports";
+import { addDays } from "@/lib/dates";
+import type { Database, Tables } from "@/database.types";
+
+type ReportRow = Tables<"manager_reports">;
+type ReportPeriod = Database["public"]["Enums"]["report_period"];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Downloads manager reports as CSV or JSON: one report with ?date=, or history
+// with ?from=&to= (inclusive, by report_date). Reads go through the caller's
+// session, so manager_reports RLS decides what is visible.
+export async function GET(request: NextRequest) {
+  const search = request.nextUrl.searchParams;
+  const format = search.get("format") ?? "csv";
+  const period = (search.get("period") ?? "daily") as ReportPeriod;
+  const date = search.get("date");
+  const from = date ?? search.get("from");
+  const to = date ?? search.get("to");
+
+  if (format !== "csv" && format !== "json") {
+    return NextResponse.json({ error: "format must be csv or json." }, { status: 400 });
+  }
+  if (!REPORT_PERIODS.includes(period)) {
+    return NextResponse.json({ error: "period must be daily, weekly or monthly." }, { status: 400 });
+  }
+  if (!from || !to || !DATE_RE.test(from) || !DATE_RE.test(to)) {
+    return NextResponse.json({ error: "Provide date, or from and to, as YYYY-MM-DD." }, { status: 400 });
+  }
+  if (from > to) {
+    return NextResponse.json({ error: "from must not be after to." }, { status: 400 });
+  }
+  if (addDays(from, MAX_EXPORT_DAYS) <= to) {
+    return NextResponse.json({ error: `Exports cover at most ${MAX_EXPORT_DAYS} days.` }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from("manager_reports")
+    .select("*")
+    .eq("period", period)
+    .gte("report_date", from)
+    .lte("report_date", to)
+    .order("report_date", { ascending: true });
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  const reports = (data ?? []) as ReportRow[];
+  if (date && reports.length === 0) {
+    return NextResponse.json({ error: "No report for that date." }, { status: 404 });
+  }
+
+  const filename = `flowtrack-${period}-report${date ? `-${date}` : `s-${from}_${to}`}.${format}`;
+  // The byte order mark makes spreadsheet apps read the CSV as UTF-8
+  const body = format === "csv" ? `\uFEFF${reportsToCsv(period, reports)}` : reportsToJson(reports);
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      "content-type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "content-disposition": `attachment; filename="${filename}"`,
+      "cache-control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,83 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionProfile } from "@/lib/session";
+import { deliverEvent } from "@/lib/notifications";
+import { loadNotificationSettings } from "@/lib/notification-preferences";
+import { MAX_COMMENT_LENGTH, extractMentionTokens, loadTaskAudience, resolveMentions } from "@/lib/comments";
+import { htmlEscape } from "@/lib/email/templates/layout";
+
+// Anyone who can see the task can comment; @mentioned collaborators are notified
+// over the channels they chose for mentions.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const payload = (await request.json().catch(() => null)) as { body?: unknown } | null;
+  const body = typeof payload?.body === "string" ? payload.body.trim() : "";
+  if (!body) {
+    return NextResponse.json({ error: "Comment cannot be empty." }, { status: 400 });
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json({ error: "Comment is too long." }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+  const audience = await loadTaskAudience(supabase, id);
+  if (!audience || !audience.people.some((p) => p.id === me.id)) {
+    return NextResponse.json({ error: "Task not found." }, { status: 404 });
+  }
+
+  // Only people who can already see the task can be mentioned
+  const mentions = resolveMentions(extractMentionTokens(body), audience.people).filter((uid) => uid !== me.id);
+
+  const { data: comment, error } = await supabase
+    .from("task_comments")
+    .insert({ task_id: id, author_id: me.id, body, mentions })
+    .select("*")
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const tasksUrl = new URL("/tasks", request.nextUrl.origin).toString();
+  const authorName = me.name || me.email;
+
+  const subject = `${authorName} mentioned you on "${audience.task.title}"`;
+  const html = `
+    <div style="font-family: Arial, Helvetica, sans-serif; line-height:1.5; color:#111;">
+      <h2>You were mentioned on a task</h2>
+      <p>${htmlEscape(authorName)} commented on <strong>${htmlEscape(audience.task.title)}</strong>:</p>
+      <blockquote style="margin:0;padding:8px 12px;border-left:3px solid #ddd;color:#333;white-space:pre-wrap;">${htmlEscape(body)}</blockquote>
+      <p><a href="${tasksUrl}" target="_blank" style="display:inline-block;padding:10px 14px;background:#111;color:#fff;text-decoration:none;border-radius:8px;">Open tasks</a></p>
+    </div>
+  `;
+
+  const settingsByUser = await loadNotificationSettings(supabase, mentions);
+  for (const person of audience.people.filter((p) => mentions.includes(p.id))) {
+    const settings = settingsByUser.get(person.id);
+    if (!settings) continue;
+    const delivery = await deliverEvent(supabase, settings, {
+      userId: person.id,
+      event: "mention",
+      email: person.email ? { to: person.email, subject, html, source: "task_comment", sourceId: comment.id } : null,
+      inApp: {
+        type: "mention",
+        title: subject,
+        body: body.length > 200 ? `${body.slice(0, 197)}...` : body,
+        link: `/tasks?task=${id}`,
+        sourceId: comment.id,
+      },
+      webhook: { task_id: id, task_title: audience.task.title, comment_id: comment.id, author: authorName, body },
+    });
+    if (delivery.errors.length > 0) {
+      // eslint-disable-next-line no-console
+      console.log(`[TASK COMMENTS] Mention delivery to ${person.id} failed: ${delivery.errors.join("; ")}`);
+    }
+  }
+
+  return NextResponse.json({ comment }, { status: 201 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getSessionProfile } from "@/lib/session";
+import { parseShareMap, replaceTaskShares } from "@/lib/task-shares";
+
+// Replaces a task's share list with { shares: { [userId]: permission } }.
+// The writes go through the caller's session, so the task_shares policies
+// decide who may grant what.
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const payload = (await request.json().catch(() => null)) as { shares?: unknown } | null;
+  const shares = parseShareMap(payload?.shares);
+  if (!shares) {
+    return NextResponse.json({ error: "shares must map user ids to permissions." }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const result = await replaceTaskShares(supabase, me, id, shares, request.nextUrl.origin);
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return NextResponse.json({ error: "Task not found." }, { status: 404 });
+    }
+    // 42501: the task_shares policies rejected the write
+    return NextResponse.json(
+      { error: result.error.message },
+      { status: result.error.code === "42501" ? 403 : 500 }
+    );
+  }
+
+  return NextResponse.json({ added: result.added, removed: result.removed, changed: result.changed });
+}
@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionIdentity } from "@/lib/session";
+import { respondToInvite } from "@/lib/team";
+
+// Invitee accepts a pending team invite.
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const identity = await getSessionIdentity();
+  if (!identity) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await respondToInvite(createAdminClient(), identity.profile, identity.authEmail, id, "accepted");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ invite: result.invite });
+}
@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionProfile } from "@/lib/session";
+import { recordTeamAudit } from "@/lib/team";
+
+// Manager revokes a pending invite they sent.
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+  const { data: invite, error } = await supabase
+    .from("team_invites")
+    .update({ status: "revoked", responded_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("manager_id", me.id)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!invite) {
+    return NextResponse.json({ error: "Invite not found or no longer pending." }, { status: 404 });
+  }
+
+  await recordTeamAudit(supabase, {
+    actorId: me.id,
+    action: "invite.revoked",
+    managerId: me.id,
+    inviteId: invite.id,
+    details: { email: invite.email },
+  });
+
+  return NextResponse.json({ invite });
+}
@@ -0,0 +1,86 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionIdentity } from "@/lib/session";
+import { normalizeEmail, recordTeamAudit } from "@/lib/team";
+import { enqueueEmail } from "@/lib/outbox";
+import { htmlEscape } from "@/lib/email/templates/layout";
+
+// Manager invites a user (by email) to join their team. Invites that promote
+// the invitee to manager (role: "manager") additionally require an admin.
+export async function POST(request: NextRequest) {
+  const identity = await getSessionIdentity();
+  if (!identity) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const me = identity.profile;
+  if (me.role !== "manager") {
+    return NextResponse.json({ error: "Only managers can invite team members." }, { status: 403 });
+  }
+
+  const body = (await request.json().catch(() => null)) as { email?: unknown; role?: unknown } | null;
+  const email = typeof body?.email === "string" ? normalizeEmail(body.email) : "";
+  const grantRole = body?.role === "manager" ? "manager" : "user";
+  if (grantRole === "manager" && !me.is_admin) {
+    return NextResponse.json({ error: "Only admins can invite new managers." }, { status: 403 });
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return NextResponse.json({ error: "Please enter a valid email address." }, { status: 400 });
+  }
+  if (email === normalizeEmail(identity.authEmail)) {
+    return NextResponse.json({ error: "You cannot invite yourself." }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: invitee } = await supabase
+    .from("profiles")
+    .select("id,manager_id")
+    .eq("email", email)
+    .maybeSingle();
+  if (invitee?.manager_id === me.id) {
+    return NextResponse.json({ error: "This user is already on your team." }, { status: 409 });
+  }
+
+  const { data: invite, error } = await supabase
+    .from("team_invites")
+    .insert({ manager_id: me.id, email, grant_role: grantRole })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      return NextResponse.json({ error: "An invite is already pending for this email." }, { status: 409 });
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  await recordTeamAudit(supabase, {
+    actorId: me.id,
+    action: "invite.created",
+    memberId: invitee?.id ?? null,
+    managerId: me.id,
+    inviteId: invite.id,
+    details: { email, grant_role: grantRole },
+  });
+
+  const teamUrl = new URL("/team", request.nextUrl.origin).toString();
+  const managerName = me.name || me.email;
+  await enqueueEmail(supabase, {
+    to: email,
+    subject: `${managerName} invited you to their FlowTrack team`,
+    html: `
+      <div style="font-family: Arial, Helvetica, sans-serif; line-height:1.5; color:#111;">
+        <h2>You're invited to join a team</h2>
+        <p>${htmlEscape(managerName)} would like you to report to them in FlowTrack${
+          grantRole === "manager" ? " as a manager" : ""
+        }.</p>
+        <p><a href="${teamUrl}" target="_blank" style="display:inline-block;padding:10px 14px;background:#111;color:#fff;text-decoration:none;border-radius:8px;">Review invite</a></p>
+        <p style="font-size:12px;color:#555;">Sign in with this email address to accept or decline.</p>
+      </div>
+    `,
+    source: "team_invite",
+    sourceId: invite.id,
+  });
+
+  return NextResponse.json({ invite }, { status: 201 });
+}
@@ -0,0 +1,94 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionProfile } from "@/lib/session";
+import { recordTeamAudit } from "@/lib/team";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Current manager moves a member to another manager.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as { managerId?: unknown } | null;
+  const targetManagerId = typeof body?.managerId === "string" ? body.managerId : "";
+  if (!targetManagerId) {
+    return NextResponse.json({ error: "managerId is required." }, { status: 400 });
+  }
+  if (targetManagerId === id) {
+    return NextResponse.json({ error: "A user cannot report to themselves." }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: target } = await supabase
+    .from("profiles")
+    .select("id,role")
+    .eq("id", targetManagerId)
+    .maybeSingle();
+  if (!target || target.role !== "manager") {
+    return NextResponse.json({ error: "Target user is not a manager." }, { status: 400 });
+  }
+
+  const { data: member, error } = await supabase
+    .from("profiles")
+    .update({ manager_id: targetManagerId })
+    .eq("id", id)
+    .eq("manager_id", me.id)
+    .select("id,manager_id")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!member) {
+    return NextResponse.json({ error: "Member not found on your team." }, { status: 404 });
+  }
+
+  await recordTeamAudit(supabase, {
+    actorId: me.id,
+    action: "member.moved",
+    memberId: id,
+    managerId: targetManagerId,
+    previousManagerId: me.id,
+  });
+
+  return NextResponse.json({ member });
+}
+
+// Current manager removes a member from their team.
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+  const { data: member, error } = await supabase
+    .from("profiles")
+    .update({ manager_id: null })
+    .eq("id", id)
+    .eq("manager_id", me.id)
+    .select("id,manager_id")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!member) {
+    return NextResponse.json({ error: "Member not found on your team." }, { status: 404 });
+  }
+
+  await recordTeamAudit(supabase, {
+    actorId: me.id,
+    action: "member.removed",
+    memberId: id,
+    previousManagerId: me.id,
+  });
+
+  return NextResponse.json({ member });
+}
@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionProfile } from "@/lib/session";
+import { generateAccessToken } from "@/lib/api-tokens";
+import { API_SCOPES, type ApiScope } from "@/lib/api-scopes";
+
+const MAX_EXPIRY_DAYS = 365;
+
+// Creates a personal access token for /api/v1. The plaintext token is in this
+// response only; listing goes through RLS from /tokens.
+export async function POST(request: NextRequest) {
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    name?: unknown;
+    scopes?: unknown;
+    expires_in_days?: unknown;
+  } | null;
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const scopes = Array.isArray(body?.scopes) ? (body.scopes as unknown[]) : [];
+  const days = body?.expires_in_days ?? null;
+
+  if (!name) {
+    return NextResponse.json({ error: "Give the token a name." }, { status: 400 });
+  }
+  if (scopes.length === 0 || !scopes.every((s) => API_SCOPES.includes(s as ApiScope))) {
+    return NextResponse.json({ error: `scopes must be a non-empty subset of: ${API_SCOPES.join(", ")}.` }, { status: 400 });
+  }
+  if (days !== null && (!Number.isInteger(days) || (days as number) < 1 || (days as number) > MAX_EXPIRY_DAYS)) {
+    return NextResponse.json({ error: `expires_in_days must be from 1 to ${MAX_EXPIRY_DAYS}.` }, { status: 400 });
+  }
+
+  const { token, prefix, hash } = generateAccessToken();
+  const supabase = createAdminClient();
+  const { data: created, error } = await supabase
+    .from("personal_access_tokens")
+    .insert({
+      user_id: me.id,
+      name,
+      token_prefix: prefix,
+      token_hash: hash,
+      scopes: [...new Set(scopes as ApiScope[])],
+      expires_at: days === null ? null : new Date(Date.now() + (days as number) * 86_400_000).toISOString(),
+    })
+    .select("id,name,token_prefix,scopes,expires_at,last_used_at,revoked_at,created_at")
+    .single();
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ token: created, secret: token }, { status: 201 });
+}
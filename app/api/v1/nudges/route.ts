@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Constants, type Database } from "@/database.types";
+import { apiError, authorize, dbError, paginated, parsePage } from "@/lib/api-v1";
+
+type NudgeStatus = Database["public"]["Enums"]["nudge_status"];
+
+// Nudges visible to the token's owner under the nudges RLS policies, newest
+// first. Filter: ?status=
+export async function GET(request: NextRequest) {
+  const ctx = await authorize(request, "read:tasks");
+  if (ctx instanceof NextResponse) return ctx;
+  const page = parsePage(request.nextUrl.searchParams);
+  if (page instanceof NextResponse) return page;
+
+  const status = request.nextUrl.searchParams.get("status");
+  if (status && !Constants.public.Enums.nudge_status.includes(status as NudgeStatus)) {
+    return apiError(400, "invalid_request", `status must be one of: ${Constants.public.Enums.nudge_status.join(", ")}.`);
+  }
+
+  let query = ctx.supabase
+    .from("nudges")
+    .select("*", { count: "exact" })
+    .order("scheduled_at", { ascending: false })
+    .range(page.offset, page.offset + page.limit - 1);
+  if (status) query = query.eq("status", status as NudgeStatus);
+
+  const { data, count, error } = await query;
+  if (error) return dbError(error);
+  return paginated(data ?? [], page, count);
+}
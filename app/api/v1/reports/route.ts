@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Constants, type Database } from "@/database.types";
+import { apiError, authorize, dbError, paginated, parsePage } from "@/lib/api-v1";
+
+type ReportPeriod = Database["public"]["Enums"]["report_period"];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Manager reports visible to the token's owner, newest first.
+// Filters: ?period=, ?from=YYYY-MM-DD, ?to=YYYY-MM-DD (on report_date)
+export async function GET(request: NextRequest) {
+  const ctx = await authorize(request, "read:reports");
+  if (ctx instanceof NextResponse) return ctx;
+  const search = request.nextUrl.searchParams;
+  const page = parsePage(search);
+  if (page instanceof NextResponse) return page;
+
+  const period = search.get("period");
+  const from = search.get("from");
+  const to = search.get("to");
+  if (period && !Constants.public.Enums.report_period.includes(period as ReportPeriod)) {
+    return apiError(400, "invalid_request", `period must be one of: ${Constants.public.Enums.report_period.join(", ")}.`);
+  }
+  if ((from && !DATE_RE.test(from)) || (to && !DATE_RE.test(to))) {
+    return apiError(400, "invalid_request", "from and to must be YYYY-MM-DD.");
+  }
+
+  let query = ctx.supabase
+    .from("manager_reports")
+    .select("*", { count: "exact" })
+    .order("report_date", { ascending: false })
+    .range(page.offset, page.offset + page.limit - 1);
+  if (period) query = query.eq("period", period as ReportPeriod);
+  if (from) query = query.gte("report_date", from);
+  if (to) query = query.lte("report_date", to);
+
+  const { data, count, error } = await query;
+  if (error) return dbError(error);
+  return paginated(data ?? [], page, count);
+}
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { apiError, authorize, dbError, parseTaskInput } from "@/lib/api-v1";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const ctx = await authorize(request, "read:tasks");
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { data, error } = await ctx.supabase.from("tasks").select("*").eq("id", id).maybeSingle();
+  if (error) return dbError(error);
+  if (!data) return apiError(404, "not_found", "Task not found.");
+  return NextResponse.json({ data });
+}
+
+// Viewers get 403 from the task triggers; invisible tasks are 404.
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const ctx = await authorize(request, "write:tasks");
+  if (ctx instanceof NextResponse) return ctx;
+
+  const parsed = parseTaskInput(await request.json().catch(() => null), "update");
+  if (!parsed.ok) return apiError(400, "invalid_request", parsed.message);
+
+  const { data, error } = await ctx.supabase.from("tasks").update(parsed.values).eq("id", id).select("*").maybeSingle();
+  if (error) return dbError(error);
+  if (!data) return apiError(404, "not_found", "Task not found.");
+  return NextResponse.json({ data });
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const ctx = await authorize(request, "write:tasks");
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { data, error } = await ctx.supabase.from("tasks").delete().eq("id", id).select("id");
+  if (error) return dbError(error);
+  if (!data || data.length === 0) {
+    // Visible but not deletable (shared as viewer/editor) vs. not visible at all
+    const { data: visible } = await ctx.supabase.from("tasks").select("id").eq("id", id).maybeSingle();
+    return visible
+      ? apiError(403, "forbidden", "You cannot delete this task.")
+      : apiError(404, "not_found", "Task not found.");
+  }
+  return NextResponse.json({ data: { id } });
+}
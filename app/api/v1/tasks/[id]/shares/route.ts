@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { apiError, authorize, dbError } from "@/lib/api-v1";
+import { parseShareMap, replaceTaskShares } from "@/lib/task-shares";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const ctx = await authorize(request, "read:tasks");
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { data: task } = await ctx.supabase.from("tasks").select("id").eq("id", id).maybeSingle();
+  if (!task) return apiError(404, "not_found", "Task not found.");
+
+  const { data, error } = await ctx.supabase
+    .from("task_shares")
+    .select("user_id,permission,created_at")
+    .eq("task_id", id)
+    .order("created_at", { ascending: true });
+  if (error) return dbError(error);
+  return NextResponse.json({ data: data ?? [] });
+}
+
+// Same contract as the session route: { shares: { [userId]: permission } }
+// replaces the whole list.
+export async function PUT(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const ctx = await authorize(request, "write:tasks");
+  if (ctx instanceof NextResponse) return ctx;
+
+  const payload = (await request.json().catch(() => null)) as { shares?: unknown } | null;
+  const shares = parseShareMap(payload?.shares);
+  if (!shares) return apiError(400, "invalid_request", "shares must map user ids to permissions.");
+
+  const { data: sharer } = await createAdminClient()
+    .from("profiles")
+    .select("id,name,email")
+    .eq("id", ctx.userId)
+    .single();
+  if (!sharer) return apiError(401, "unauthorized", "Token owner no longer exists.");
+
+  const result = await replaceTaskShares(ctx.supabase, sharer, id, shares, request.nextUrl.origin);
+  if (!result.ok) {
+    if (result.reason === "not_found") return apiError(404, "not_found", "Task not found.");
+    return dbError(result.error);
+  }
+  return NextResponse.json({ data: { added: result.added, removed: result.removed, changed: result.changed } });
+}
@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { Constants, type Database } from "@/database.types";
+import { apiError, authorize, dbError, paginated, parsePage, parseTaskInput } from "@/lib/api-v1";
+
+type TaskStatus = Database["public"]["Enums"]["task_status"];
+
+// Tasks the token's owner can see: their own and those shared with them (or,
+// for managers, their reports'), exactly as the tasks RLS policies allow.
+// Filters: ?status=, ?owner_id=
+export async function GET(request: NextRequest) {
+  const ctx = await authorize(request, "read:tasks");
+  if (ctx instanceof NextResponse) return ctx;
+  const page = parsePage(request.nextUrl.searchParams);
+  if (page instanceof NextResponse) return page;
+
+  const status = request.nextUrl.searchParams.get("status");
+  const ownerId = request.nextUrl.searchParams.get("owner_id");
+  if (status && !Constants.public.Enums.task_status.includes(status as TaskStatus)) {
+    return apiError(400, "invalid_request", `status must be one of: ${Constants.public.Enums.task_status.join(", ")}.`);
+  }
+
+  let query = ctx.supabase
+    .from("tasks")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(page.offset, page.offset + page.limit - 1);
+  if (status) query = query.eq("status", status as TaskStatus);
+  if (ownerId) query = query.eq("owner_id", ownerId);
+
+  const { data, count, error } = await query;
+  if (error) return dbError(error);
+  return paginated(data ?? [], page, count);
+}
+
+// Creates a task owned by the token's owner.
+export async function POST(request: NextRequest) {
+  const ctx = await authorize(request, "write:tasks");
+  if (ctx instanceof NextResponse) return ctx;
+
+  const parsed = parseTaskInput(await request.json().catch(() => null), "create");
+  if (!parsed.ok) return apiError(400, "invalid_request", parsed.message);
+
+  const { data, error } = await ctx.supabase
+    .from("tasks")
+    .insert({
+      ...parsed.values,
+      title: parsed.values.title as string,
+      due_date: parsed.values.due_date as string,
+      owner_id: ctx.userId,
+    })
+    .select("*")
+    .single();
+  if (error) return dbError(error);
+  return NextResponse.json({ data }, { status: 201 });
+}
@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { attemptDelivery, type WebhookSubscription } from "@/lib/webhooks";
+import { TEST_EVENT } from "@/lib/webhook-events";
+
+// "Send test event": queues a webhook.test delivery and attempts it right away,
+// so the result shows up immediately. A failed test is retried like any other
+// delivery.
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Read through RLS: only the owner sees the subscription
+  const { data } = await supabase.from("webhook_subscriptions").select("*").eq("id", id).maybeSingle();
+  const subscription = data as WebhookSubscription | null;
+  if (!subscription) {
+    return NextResponse.json({ error: "Webhook not found." }, { status: 404 });
+  }
+  if (!subscription.enabled) {
+    return NextResponse.json({ error: "Enable the webhook before sending a test event." }, { status: 409 });
+  }
+
+  // Deliveries are written by the service role only
+  const admin = createAdminClient();
+  const { data: delivery, error } = await admin
+    .from("webhook_deliveries")
+    .insert({
+      subscription_id: subscription.id,
+      event: TEST_EVENT,
+      payload: { message: "Test event from FlowTrack.", subscription_id: subscription.id },
+      status: "sending",
+      attempts: 1,
+    })
+    .select("*")
+    .single();
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const outcome = await attemptDelivery(admin, delivery, subscription);
+  const { data: recorded } = await admin.from("webhook_deliveries").select("*").eq("id", delivery.id).single();
+  return NextResponse.json({ outcome, delivery: recorded ?? delivery });
+}
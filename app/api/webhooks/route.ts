@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getSessionProfile } from "@/lib/session";
+import { checkWebhookUrl, generateWebhookSecret } from "@/lib/webhooks";
+import { NOTIFICATION_EVENT, WEBHOOK_EVENTS, type WebhookEvent } from "@/lib/webhook-events";
+
+// Creates a webhook subscription with a freshly generated signing secret.
+// Listing, toggling and deleting go straight through RLS from /webhooks.
+export async function POST(request: NextRequest) {
+  const me = await getSessionProfile();
+  if (!me) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    url?: unknown;
+    events?: unknown;
+    scope?: unknown;
+  } | null;
+  const url = typeof body?.url === "string" ? body.url.trim() : "";
+  const events = Array.isArray(body?.events) ? (body.events as unknown[]) : [];
+  const scope = body?.scope === "team" ? "team" : "user";
+
+  const target = await checkWebhookUrl(url);
+  if (!target.ok) {
+    return NextResponse.json({ error: target.error }, { status: 400 });
+  }
+  if (events.length === 0 || !events.every((e) => WEBHOOK_EVENTS.includes(e as WebhookEvent))) {
+    return NextResponse.json({ error: `events must be a non-empty subset of: ${WEBHOOK_EVENTS.join(", ")}.` }, { status: 400 });
+  }
+  if (scope === "team" && me.role !== "manager") {
+    return NextResponse.json({ error: "Only managers can subscribe to team events." }, { status: 403 });
+  }
+  if (scope === "team" && events.includes(NOTIFICATION_EVENT)) {
+    return NextResponse.json({ error: "Notifications can only be delivered to your own webhooks." }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+  const { data: subscription, error } = await supabase
+    .from("webhook_subscriptions")
+    .insert({
+      owner_id: me.id,
+      scope,
+      url: target.url.toString(),
+      secret: generateWebhookSecret(),
+      events: [...new Set(events as WebhookEvent[])],
+    })
+    .select("*")
+    .single();
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ subscription }, { status: 201 });
+}
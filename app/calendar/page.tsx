@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import type { Database, Tables } from "@/database.types";
+
+type Profile = Tables<"profiles">;
+type FeedRow = Omit<Tables<"calendar_feeds">, "token_hash" | "user_id">;
+type FeedScope = Database["public"]["Enums"]["calendar_feed_scope"];
+
+const FEEDS: { scope: FeedScope; title: string; description: string }[] = [
+  {
+    scope: "user",
+    title: "My tasks",
+    description: "Open tasks you own or that are shared with you, on their due dates.",
+  },
+  {
+    scope: "team",
+    title: "Team tasks",
+    description: "Open tasks of everyone who reports to you, labelled with their name.",
+  },
+];
+
+function fmt(dtIso: string | null): string {
+  if (!dtIso) return "—";
+  const d = new Date(dtIso);
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+export default function CalendarFeedsPage() {
+  const supabase = useMemo(() => createClient(), []);
+  const [me, setMe] = useState<Profile | null>(null);
+  const [feeds, setFeeds] = useState<FeedRow[]>([]);
+  const [urls, setUrls] = useState<Partial<Record<FeedScope, string>>>({});
+  const [busy, setBusy] = useState<boolean>(false);
+  const [toast, setToast] = useState<string>("");
+
+  const load = useCallback(async () => {
+    const { data } = await supabase.auth.getUser();
+    const uid = data.user?.id ?? null;
+    if (!uid) return;
+    const [{ data: prof }, { data: rows }] = await Promise.all([
+      supabase.from("profiles").select("*").eq("id", uid).maybeSingle(),
+      supabase.from("calendar_feeds").select("id,scope,token_prefix,last_fetched_at,created_at,updated_at"),
+    ]);
+    setMe(prof ?? null);
+    setFeeds(rows ?? []);
+  }, [supabase]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function issue(scope: FeedScope, reset: boolean) {
+    setBusy(true);
+    try {
+      const res = await fetch("/api/calendar-feeds", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ scope }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setToast(body.error ?? `Request failed (${res.status}).`);
+        return;
+      }
+      setUrls((prev) => ({ ...prev, [scope]: body.url }));
+      setToast(
+        reset
+          ? "Feed URL reset. The old URL no longer works; copy the new one below."
+          : "Feed created. Copy its URL now; it will not be shown again."
+      );
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function revoke(feed: FeedRow) {
+    const { error } = await supabase.from("calendar_feeds").delete().eq("id", feed.id);
+    if (error) {
+      setToast(error.message);
+      return;
+    }
+    setFeeds((prev) => prev.filter((f) => f.id !== feed.id));
+    setUrls((prev) => ({ ...prev, [feed.scope]: undefined }));
+    setToast("Feed revoked.");
+  }
+
+  const isManager = me?.role === "manager";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white">
+      <div className="mx-auto max-w-4xl px-6 pt-10 pb-24">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Calendar feeds</h1>
+            <p className="text-sm text-white/70 mt-1">Subscribe to your due dates from any calendar app.</p>
+          </div>
+          <Link
+            href="/tasks"
+            className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+          >
+            Back to tasks
+          </Link>
+        </div>
+
+        <section className="mt-8 space-y-4">
+          {FEEDS.filter((f) => f.scope === "user" || isManager).map(({ scope, title, description }) => {
+            const feed = feeds.find((f) => f.scope === scope) ?? null;
+            const url = urls[scope];
+            return (
+              <div key={scope} className="rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{title}</p>
+                    <p className="mt-1 text-xs text-white/60">{description}</p>
+                    {feed && (
+                      <p className="mt-1 text-xs text-white/60">
+                        <span className="font-mono">{feed.token_prefix}…</span> • Issued {fmt(feed.updated_at)} • Last
+                        fetched {fmt(feed.last_fetched_at)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2 text-sm">
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => issue(scope, !!feed)}
+                      className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition disabled:opacity-50"
+                    >
+                      {feed ? "Reset URL" : "Create feed"}
+                    </button>
+                    {feed && (
+                      <button
+                        type="button"
+                        onClick={() => revoke(feed)}
+                        className="rounded-xl px-3 py-2 bg-rose-500/20 text-rose-200 ring-1 ring-rose-400/30 hover:bg-rose-500/25 transition"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {url && (
+                  <p className="mt-3 rounded-lg bg-black/30 px-3 py-2 font-mono text-xs break-all">{url}</p>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-white/60">
+            Add the URL as a subscribed calendar (&quot;From URL&quot; in Google Calendar, &quot;New Calendar
+            Subscription&quot; in Apple Calendar). Anyone with the URL can read the feed, so reset it if it leaks.
+            Calendar apps refresh on their own schedule, usually every few hours.
+          </p>
+        </section>
+
+        {toast && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-xl bg-emerald-500/10 text-emerald-200 ring-1 ring-emerald-400/30 px-4 py-3 text-sm">
+            {toast}
+            <button
+              type="button"
+              className="ml-3 text-emerald-300 underline underline-offset-4"
+              onClick={() => setToast("")}
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
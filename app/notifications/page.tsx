@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import type { TablesInsert } from "@/database.types";
+import {
+  DEFAULT_PREFERENCES,
+  EVENT_COLUMNS,
+  NOTIFICATION_CHANNELS,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationPreferences,
+} from "@/lib/notification-preferences";
+
+const EVENT_LABELS: Record<NotificationEvent, { title: string; hint: string }> = {
+  nudge: { title: "Nudges", hint: "Your scheduled task check-ins." },
+  share_received: { title: "Task shared with you", hint: "Someone gives you access to a task." },
+  share_revoked: { title: "Share removed", hint: "Someone stops sharing a task with you." },
+  mention: { title: "Mentions", hint: "You are @mentioned in a task comment." },
+  daily_report: { title: "Team reports (daily, weekly, monthly)", hint: "Every team report and rollup you receive as a manager." },
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: "Email",
+  in_app: "In-app",
+  webhook: "Webhook",
+};
+
+export default function NotificationPreferencesPage() {
+  const supabase = useMemo(() => createClient(), []);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [prefs, setPrefs] = useState<NotificationPreferences>(DEFAULT_PREFERENCES);
+  const [quietEnabled, setQuietEnabled] = useState<boolean>(false);
+  const [timezone, setTimezone] = useState<string>("UTC");
+  const [saving, setSaving] = useState<boolean>(false);
+  const [toast, setToast] = useState<string>("");
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      const uid = data.user?.id ?? null;
+      if (!mounted || !uid) return;
+      setUserId(uid);
+      const { data: row } = await supabase.from("notification_preferences").select("*").eq("user_id", uid).maybeSingle();
+      const { data: conf } = await supabase.from("nudge_configs").select("timezone").eq("user_id", uid).maybeSingle();
+      if (!mounted) return;
+      if (row) {
+        setPrefs(row);
+        setQuietEnabled(!!row.quiet_hours_start);
+      }
+      setTimezone(conf?.timezone || "UTC");
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [supabase]);
+
+  function toggleChannel(event: NotificationEvent, channel: NotificationChannel) {
+    const column = EVENT_COLUMNS[event];
+    setPrefs((prev) => ({
+      ...prev,
+      [column]: prev[column].includes(channel)
+        ? prev[column].filter((c) => c !== channel)
+        : NOTIFICATION_CHANNELS.filter((c) => c === channel || prev[column].includes(c)),
+    }));
+  }
+
+  async function save() {
+    if (!userId) return;
+    const payload = {
+      user_id: userId,
+      ...prefs,
+      quiet_hours_start: quietEnabled ? prefs.quiet_hours_start || "22:00" : null,
+      quiet_hours_end: quietEnabled ? prefs.quiet_hours_end || "07:00" : null,
+      vacation_until: prefs.vacation_until || null,
+      updated_at: new Date().toISOString(),
+    } as TablesInsert<"notification_preferences">;
+
+    setSaving(true);
+    const { error } = await supabase.from("notification_preferences").upsert(payload);
+    setSaving(false);
+    setToast(error ? error.message : "Preferences saved.");
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white">
+      <div className="mx-auto max-w-4xl px-6 pt-10 pb-24">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Notification preferences</h1>
+            <p className="text-sm text-white/70 mt-1">Choose where each kind of notification reaches you.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/webhooks"
+              className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+            >
+              Webhooks
+            </Link>
+            <Link
+              href="/tasks"
+              className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+            >
+              Back to tasks
+            </Link>
+          </div>
+        </div>
+
+        <section className="mt-6 rounded-xl ring-1 ring-white/10">
+          <table className="w-full text-sm">
+            <thead className="text-white/60 text-xs">
+              <tr>
+                <th className="text-left font-medium p-3">Event</th>
+                {NOTIFICATION_CHANNELS.map((c) => (
+                  <th key={c} className="text-center font-medium p-3">
+                    {CHANNEL_LABELS[c]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {(Object.keys(EVENT_LABELS) as NotificationEvent[]).map((event) => (
+                <tr key={event}>
+                  <td className="p-3">
+                    <p>{EVENT_LABELS[event].title}</p>
+                    <p className="text-xs text-white/60">{EVENT_LABELS[event].hint}</p>
+                  </td>
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <td key={channel} className="p-3 text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`${EVENT_LABELS[event].title} by ${CHANNEL_LABELS[channel]}`}
+                        checked={prefs[EVENT_COLUMNS[event]].includes(channel)}
+                        onChange={() => toggleChannel(event, channel)}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="mt-6 rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
+          <p className="text-sm">Webhook channel</p>
+          <p className="mt-1 text-xs text-white/60">
+            Notifications sent to the webhook channel are delivered, signed and with retries, to your{" "}
+            <Link href="/webhooks" className="underline underline-offset-4">webhook subscriptions</Link> that include the{" "}
+            <code>notification</code> event.
+          </p>
+        </section>
+
+        <section className="mt-6 rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
+          <label className="inline-flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={quietEnabled} onChange={(e) => setQuietEnabled(e.target.checked)} />
+            Quiet hours
+          </label>
+          {quietEnabled && (
+            <div className="mt-3 flex items-center gap-2 text-sm">
+              <input
+                type="time"
+                value={prefs.quiet_hours_start ?? "22:00"}
+                onChange={(e) => setPrefs((prev) => ({ ...prev, quiet_hours_start: e.target.value }))}
+                className="rounded-xl bg-white/5 px-3 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30"
+              />
+              <span className="text-white/60">to</span>
+              <input
+                type="time"
+                value={prefs.quiet_hours_end ?? "07:00"}
+                onChange={(e) => setPrefs((prev) => ({ ...prev, quiet_hours_end: e.target.value }))}
+                className="rounded-xl bg-white/5 px-3 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30"
+              />
+            </div>
+          )}
+          <p className="mt-2 text-xs text-white/60">
+            During quiet hours only in-app notifications are delivered; email and webhooks are held back. Times are in
+            your nudge timezone ({timezone}).
+          </p>
+
+          <label className="mt-4 block text-sm">
+            On vacation until
+            <input
+              type="date"
+              value={prefs.vacation_until ?? ""}
+              onChange={(e) => setPrefs((prev) => ({ ...prev, vacation_until: e.target.value || null }))}
+              className="mt-1 block rounded-xl bg-white/5 px-3 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30"
+            />
+          </label>
+          <p className="mt-1 text-xs text-white/60">
+            Nudges are skipped through this date and everything else waits in-app. Clear it to come back early.
+          </p>
+        </section>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            type="button"
+            disabled={saving || !userId}
+            onClick={save}
+            className="rounded-xl bg-white text-slate-900 font-medium px-4 py-2 shadow hover:shadow-md transition disabled:opacity-70"
+          >
+            {saving ? "Saving…" : "Save preferences"}
+          </button>
+        </div>
+
+        {toast && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-xl bg-emerald-500/10 text-emerald-200 ring-1 ring-emerald-400/30 px-4 py-3 text-sm">
+            {toast}
+            <button
+              type="button"
+              className="ml-3 text-emerald-300 underline underline-offset-4"
+              onClick={() => setToast("")}
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
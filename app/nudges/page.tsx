@@ -3,6 +3,7 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { createClient } from "@/lib/supabase/client";
 import type { Tables } from "@/database.types";
+import { formatRate, nudgeRates } from "@/lib/nudge-outcomes";
 
 type NudgeRow = Tables<"nudges">;
 
@@ -17,6 +18,7 @@ export default function NudgesPage() {
   const [nudges, setNudges] = useState<NudgeRow[]>([]);
   const [userId, setUserId] = useState<string | null>(null);
   const [toast, setToast] = useState<string>("");
+  const rates = useMemo(() => nudgeRates(nudges), [nudges]);
 
   useEffect(() => {
     supabase.auth.getUser().then(({ data }) => {
@@ -57,6 +59,23 @@ export default function NudgesPage() {
         <h1 className="text-2xl font-semibold tracking-tight">Your Nudge History</h1>
         <p className="text-sm text-white/70 mt-1">Review reminders and acknowledgements.</p>
 
+        <div className="mt-6 grid grid-cols-2 gap-3">
+          <div className="rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
+            <p className="text-xs text-white/60">Acknowledged</p>
+            <p className="mt-1 text-2xl font-semibold">{formatRate(rates.ackRate)}</p>
+            <p className="text-xs text-white/60 mt-1">
+              {rates.acknowledged} of {rates.sent} sent nudge(s)
+            </p>
+          </div>
+          <div className="rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
+            <p className="text-xs text-white/60">Tasks updated before the next nudge</p>
+            <p className="mt-1 text-2xl font-semibold">{formatRate(rates.updateRate)}</p>
+            <p className="text-xs text-white/60 mt-1">
+              {rates.updated} of {rates.evaluated} completed nudge window(s)
+            </p>
+          </div>
+        </div>
+
         <div className="mt-6 space-y-3">
           {nudges.map((n) => (
             <div key={n.id} className="rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
@@ -71,10 +90,17 @@ export default function NudgesPage() {
                   <p className="text-sm">
                     Acknowledged: <span className="text-white/80">{fmt(n.acknowledged_at)}</span>
                   </p>
+                  {n.outcome_checked_at && (
+                    <p className="text-sm">
+                      Tasks updated afterwards: <span className="text-white/80">{n.updated_task_ids.length}</span>
+                    </p>
+                  )}
                 </div>
                 <span
                   className={`rounded-full px-3 py-1 text-xs font-medium ${
-                    n.status === "acknowledged"
+                    n.status === "updated"
+                      ? "bg-violet-500/20 text-violet-200 ring-1 ring-violet-400/30"
+                      : n.status === "acknowledged"
                       ? "bg-emerald-500/20 text-emerald-200 ring-1 ring-emerald-400/30"
                       : n.status === "sent"
                       ? "bg-sky-500/20 text-sky-200 ring-1 ring-sky-400/30"
@@ -86,7 +112,7 @@ export default function NudgesPage() {
                   {n.status}
                 </span>
               </div>
-              {n.status === "sent" && !n.acknowledged_at && userId && (
+              {n.sent_at && !n.acknowledged_at && userId && (
                 <div className="mt-3">
                   <button
                     type="button"
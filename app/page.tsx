@@ -15,7 +15,6 @@ type RegisterForm = {
   email: string;
   password: string;
   confirmPassword: string;
-  role: "user" | "manager";
 };
 
 export default function LoginPage() {
@@ -36,7 +35,6 @@ export default function LoginPage() {
     email: "",
     password: "",
     confirmPassword: "",
-    role: "user",
   });
 
   const isLogin = mode === "login";
@@ -72,9 +70,6 @@ export default function LoginPage() {
       if (registerForm.confirmPassword !== registerForm.password) {
         newErrors.confirmPassword = "Passwords do not match.";
       }
-      if (!["user", "manager"].includes(registerForm.role)) {
-        newErrors.role = "Please select a role.";
-      }
     }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -106,7 +101,6 @@ export default function LoginPage() {
         options: {
           data: {
             name: registerForm.name,
-            role: registerForm.role,
           },
           emailRedirectTo: undefined,
         },
@@ -168,7 +162,7 @@ export default function LoginPage() {
                   <span className="mt-1 inline-flex h-6 w-6 items-center justify-center rounded-full bg-emerald-500/20 text-emerald-300 ring-1 ring-emerald-400/30">✓</span>
                   <div>
                     <p className="font-medium">Simple account roles</p>
-                    <p className="text-sm text-white/60">Choose Manager or User during sign up—no complexity.</p>
+                    <p className="text-sm text-white/60">Everyone starts as a User; managers are set up by invite.</p>
                   </div>
                 </li>
                 <li className="flex items-start gap-3">
@@ -313,86 +307,26 @@ export default function LoginPage() {
               </div>
 
               {mode === "register" && (
-                <>
-                  <div>
-                    <label htmlFor="confirmPassword" className="block text-sm font-medium">Confirm password</label>
-                    <div className="mt-2 relative">
-                      <input
-                        id="confirmPassword"
-                        type={showPassword ? "text" : "password"}
-                        value={registerForm.confirmPassword}
-                        onChange={(e) =>
-                          setRegisterForm((p) => ({ ...p, confirmPassword: e.target.value }))
-                        }
-                        placeholder="********"
-                        className={`w-full rounded-xl bg-white/5 px-4 py-3 outline-none ring-1 transition placeholder:text-white/40 ${
-                          errors.confirmPassword ? "ring-rose-400/60 focus:ring-rose-300" : "ring-white/10 focus:ring-white/30"
-                        }`}
-                      />
-                      {errors.confirmPassword && (
-                        <p className="mt-2 text-xs text-rose-300">{errors.confirmPassword}</p>
-                      )}
-                    </div>
-                  </div>
-
-                  <div>
-                    <span className="block text-sm font-medium">Select role</span>
-                    <div className="mt-3 grid grid-cols-2 gap-3">
-                      <button
-                        type="button"
-                        onClick={() => setRegisterForm((p) => ({ ...p, role: "user" }))}
-                        className={`group rounded-2xl p-4 text-left ring-1 transition ${
-                          registerForm.role === "user"
-                            ? "bg-emerald-400 text-slate-900 ring-emerald-300"
-                            : "bg-white/5 text-white ring-white/10 hover:bg-white/10"
-                        }`}
-                      >
-                        <div className="flex items-center justify-between">
-                          <p className="font-semibold">User</p>
-                          <span
-                            className={`h-5 w-5 rounded-full border ${
-                              registerForm.role === "user"
-                                ? "border-slate-900 bg-slate-900/20"
-                                : "border-white/30"
-                            }`}
-                          />
-                        </div>
-                        <p
-                          className={`mt-1 text-xs ${
-                            registerForm.role === "user" ? "text-slate-800/90" : "text-white/70"
-                          }`}
-                        >
-                          Track and share tasks, receive nudges.
-                        </p>
-                      </button>
-
-                      <button
-                        type="button"
-                        onClick={() => setRegisterForm((p) => ({ ...p, role: "manager" }))}
-                        className={`group rounded-2xl p-4 text-left ring-1 transition ${
-                          registerForm.role === "manager"
-                            ? "bg-sky-400 text-slate-900 ring-sky-300"
-                            : "bg-white/5 text-white ring-white/10 hover:bg-white/10"
-                        }`}
-                      >
-                        <div className="flex items-center justify-between">
-                          <p className="font-semibold">Manager</p>
-                          <span
-                            className={`h-5 w-5 rounded-full border ${
-                              registerForm.role === "manager"
-                                ? "border-slate-900 bg-slate-900/20"
-                                : "border-white/30"
-                            }`}
-                          />
-                        </div>
-                        <p className={`mt-1 text-xs ${registerForm.role === "manager" ? "text-slate-800/90" : "text-white/70"}`}>
-                          View daily reports.
-                        </p>
-                      </button>
-                    </div>
-                    {errors.role && <p className="mt-2 text-xs text-rose-300">{errors.role}</p>}
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium">Confirm password</label>
+                  <div className="mt-2 relative">
+                    <input
+                      id="confirmPassword"
+                      type={showPassword ? "text" : "password"}
+                      value={registerForm.confirmPassword}
+                      onChange={(e) =>
+                        setRegisterForm((p) => ({ ...p, confirmPassword: e.target.value }))
+                      }
+                      placeholder="********"
+                      className={`w-full rounded-xl bg-white/5 px-4 py-3 outline-none ring-1 transition placeholder:text-white/40 ${
+                        errors.confirmPassword ? "ring-rose-400/60 focus:ring-rose-300" : "ring-white/10 focus:ring-white/30"
+                      }`}
+                    />
+                    {errors.confirmPassword && (
+                      <p className="mt-2 text-xs text-rose-300">{errors.confirmPassword}</p>
+                    )}
                   </div>
-                </>
+                </div>
               )}
 
               <button
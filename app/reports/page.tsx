@@ -2,10 +2,62 @@
 
 import React, { useEffect, useMemo, useState } from "react";
 import { createClient } from "@/lib/supabase/client";
-import type { Tables } from "@/database.types";
+import type { Database, Tables, TablesInsert } from "@/database.types";
+import {
+  addDays,
+  DEFAULT_TIMEZONE,
+  isDueSoon,
+  isOverdue,
+  localDate,
+  localTimeToUtcIso,
+  resolveTimezone,
+} from "@/lib/dates";
+import { formatRate, nudgeRates } from "@/lib/nudge-outcomes";
+import { REPORT_PERIODS, type DailySummary } from "@/lib/reports";
+import {
+  formatLateness,
+  formatPeriod,
+  PERIOD_LABELS,
+  type RollupSummary,
+} from "@/lib/email/templates/report-rollup";
 
 type ReportRow = Tables<"manager_reports">;
 type Profile = Tables<"profiles">;
+type TaskRow = Tables<"tasks">;
+type NudgeRow = Tables<"nudges">;
+type TaskStatus = Database["public"]["Enums"]["task_status"];
+type ReportPeriod = Database["public"]["Enums"]["report_period"];
+
+type MemberStats = {
+  id: string;
+  name: string;
+  completedToday: number;
+  open: number;
+  overdue: number;
+  dueSoon: number;
+  // Oldest first, one point per report
+  completedTrend: number[];
+  overdueTrend: number[];
+};
+
+type SortKey = "name" | "completedToday" | "open" | "overdue" | "dueSoon";
+
+// Sparklines cover this many of the most recent daily reports
+const TREND_REPORTS = 30;
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: "Todo",
+  in_progress: "In Progress",
+  done: "Done",
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "name", label: "Team member" },
+  { key: "completedToday", label: "Completed today" },
+  { key: "open", label: "Open" },
+  { key: "overdue", label: "Overdue" },
+  { key: "dueSoon", label: "Due soon" },
+];
 
 function fmtDate(d: string): string {
   try {
@@ -17,12 +69,38 @@ function fmtDate(d: string): string {
   }
 }
 
+function exportUrl(params: Record<string, string>): string {
+  return `/api/reports/export?${new URLSearchParams(params).toString()}`;
+}
+
 export default function ReportsPage() {
   const supabase = useMemo(() => createClient(), []);
   const [me, setMe] = useState<Profile | null>(null);
   const [reports, setReports] = useState<ReportRow[]>([]);
   const [toast, setToast] = useState<string>("");
 
+  // Report schedule
+  const [configuring, setConfiguring] = useState<boolean>(false);
+  const [sendTime, setSendTime] = useState<string>("17:00");
+  const [reportTZ, setReportTZ] = useState<string>(DEFAULT_TIMEZONE);
+  const [weekdaysOnly, setWeekdaysOnly] = useState<boolean>(false);
+  const [reportEnabled, setReportEnabled] = useState<boolean>(true);
+  const [weeklyEnabled, setWeeklyEnabled] = useState<boolean>(true);
+  const [monthlyEnabled, setMonthlyEnabled] = useState<boolean>(true);
+  const [includeSubtasks, setIncludeSubtasks] = useState<boolean>(false);
+  const [historyPeriod, setHistoryPeriod] = useState<ReportPeriod>("daily");
+  const [exportFrom, setExportFrom] = useState<string>(() => addDays(localDate(DEFAULT_TIMEZONE), -30));
+  const [exportTo, setExportTo] = useState<string>(() => localDate(DEFAULT_TIMEZONE));
+
+  // Dashboard: live counts come from the team's tasks, trends from past reports
+  const [team, setTeam] = useState<Profile[]>([]);
+  const [teamTasks, setTeamTasks] = useState<TaskRow[]>([]);
+  const [completedTaskIds, setCompletedTaskIds] = useState<Map<string, string>>(new Map());
+  const [dashboardTZ, setDashboardTZ] = useState<string>(DEFAULT_TIMEZONE);
+  const [sortKey, setSortKey] = useState<SortKey>("overdue");
+  const [sortDesc, setSortDesc] = useState<boolean>(true);
+  const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
+
   useEffect(() => {
     supabase.auth.getUser().then(async ({ data }) => {
       const uid = data.user?.id ?? null;
@@ -44,9 +122,155 @@ export default function ReportsPage() {
         return;
       }
       setReports(rows ?? []);
+
+      const { data: config } = await supabase
+        .from("report_configs")
+        .select("*")
+        .eq("manager_id", uid)
+        .maybeSingle();
+      let tz = DEFAULT_TIMEZONE;
+      if (config) {
+        setSendTime(config.send_time);
+        setReportTZ(config.timezone);
+        setWeekdaysOnly(config.weekdays_only);
+        setReportEnabled(config.enabled);
+        setWeeklyEnabled(config.weekly_enabled);
+        setMonthlyEnabled(config.monthly_enabled);
+        setIncludeSubtasks(config.include_subtasks);
+        tz = resolveTimezone(config.timezone);
+      } else {
+        // Until saved, reports go out in the nudge timezone (same as the cron's fallback)
+        const { data: nudge } = await supabase
+          .from("nudge_configs")
+          .select("timezone")
+          .eq("user_id", uid)
+          .maybeSingle();
+        tz = resolveTimezone(nudge?.timezone);
+        setReportTZ(tz);
+      }
+      setDashboardTZ(tz);
+      await loadTeam(uid, tz);
     });
   }, [supabase]);
 
+  // RLS lets managers read their reports' profiles, tasks, task history and nudges
+  async function loadTeam(managerId: string, tz: string) {
+    const { data: members } = await supabase.from("profiles").select("*").eq("manager_id", managerId).order("name");
+    setTeam(members ?? []);
+    const memberIds = (members ?? []).map((m) => m.id);
+    if (memberIds.length === 0) {
+      setTeamTasks([]);
+      setCompletedTaskIds(new Map());
+      return;
+    }
+
+    const { data: tasks } = await supabase.from("tasks").select("*").in("owner_id", memberIds);
+    setTeamTasks(tasks ?? []);
+
+    // Same rule as the report: a task counts once for the day it moved to done
+    const today = localDate(tz);
+    const { data: completions } = await supabase
+      .from("task_events")
+      .select("task_id,owner_id")
+      .in("owner_id", memberIds)
+      .eq("event_type", "status_changed")
+      .eq("new_status", "done")
+      .gte("created_at", localTimeToUtcIso("00:00", tz, today) as string)
+      .lt("created_at", localTimeToUtcIso("00:00", tz, addDays(today, 1)) as string);
+    const completed = new Map<string, string>();
+    (completions ?? []).forEach((c) => completed.set(c.task_id, c.owner_id));
+    setCompletedTaskIds(completed);
+  }
+
+  const memberStats = useMemo<MemberStats[]>(() => {
+    // Oldest first so sparklines read left to right
+    const recent = reports
+      .filter((r) => r.period === "daily")
+      .slice(0, TREND_REPORTS)
+      .reverse()
+      .map((r) => r.summary as DailySummary | null);
+    // Same subtask rule as the report
+    const excluded = new Set(includeSubtasks ? [] : teamTasks.filter((t) => t.parent_id).map((t) => t.id));
+    return team.map((m) => {
+      const stats: MemberStats = {
+        id: m.id,
+        name: m.name || m.email || "Unknown",
+        completedToday: 0,
+        open: 0,
+        overdue: 0,
+        dueSoon: 0,
+        completedTrend: recent.map((s) => s?.perUser?.[m.id]?.completedToday ?? 0),
+        overdueTrend: recent.map((s) => s?.perUser?.[m.id]?.overdue ?? 0),
+      };
+      for (const t of teamTasks) {
+        if (t.owner_id !== m.id || t.status === "done" || excluded.has(t.id)) continue;
+        stats.open += 1;
+        if (isOverdue(t, dashboardTZ)) {
+          stats.overdue += 1;
+        } else if (isDueSoon(t, dashboardTZ)) {
+          stats.dueSoon += 1;
+        }
+      }
+      completedTaskIds.forEach((ownerId, taskId) => {
+        if (ownerId === m.id && !excluded.has(taskId)) stats.completedToday += 1;
+      });
+      return stats;
+    });
+  }, [team, teamTasks, completedTaskIds, reports, dashboardTZ, includeSubtasks]);
+
+  const sortedStats = useMemo(() => {
+    const sorted = [...memberStats].sort((a, b) =>
+      sortKey === "name" ? a.name.localeCompare(b.name) : a[sortKey] - b[sortKey]
+    );
+    return sortDesc ? sorted.reverse() : sorted;
+  }, [memberStats, sortKey, sortDesc]);
+
+  const historyReports = useMemo(() => reports.filter((r) => r.period === historyPeriod), [reports, historyPeriod]);
+
+  function toggleSort(key: SortKey) {
+    if (key === sortKey) {
+      setSortDesc((d) => !d);
+    } else {
+      setSortKey(key);
+      setSortDesc(key !== "name");
+    }
+  }
+
+  async function saveReportConfig() {
+    if (!me) return;
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(sendTime)) {
+      setToast("Send time must be in 24h format (HH:MM).");
+      return;
+    }
+    const tz = reportTZ.trim();
+    if (resolveTimezone(tz) !== tz) {
+      setToast(`Unknown timezone "${tz}".`);
+      return;
+    }
+    const payload = {
+      manager_id: me.id,
+      send_time: sendTime,
+      timezone: tz,
+      weekdays_only: weekdaysOnly,
+      weekly_enabled: weeklyEnabled,
+      monthly_enabled: monthlyEnabled,
+      include_subtasks: includeSubtasks,
+      enabled: reportEnabled,
+    } as TablesInsert<"report_configs">;
+
+    const { error } = await supabase.from("report_configs").upsert(payload).eq("manager_id", me.id);
+    if (error) {
+      setToast(error.message);
+      return;
+    }
+    setToast("Report settings saved.");
+    setConfiguring(false);
+    if (tz !== dashboardTZ) {
+      setDashboardTZ(tz);
+      await loadTeam(me.id, tz);
+    }
+  }
+
   if (me && me.role !== "manager") {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white grid place-items-center">
@@ -61,39 +285,302 @@ export default function ReportsPage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white">
       <div className="mx-auto max-w-4xl px-6 pt-10 pb-24">
-        <h1 className="text-2xl font-semibold tracking-tight">Manager Reports</h1>
-        <p className="text-sm text-white/70 mt-1">Browse past daily summaries.</p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Manager Reports</h1>
+            <p className="text-sm text-white/70 mt-1">Your team at a glance, with past daily summaries.</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setConfiguring(true)}
+            className="rounded-xl px-4 py-2 text-sm bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15 transition"
+          >
+            Report settings
+          </button>
+        </div>
+        <p className="text-xs text-white/60 mt-2">
+          {reportEnabled
+            ? `Sent daily at ${sendTime} (${reportTZ})${weekdaysOnly ? ", weekdays only" : ""}.`
+            : "Daily reports are turned off."}
+          {(weeklyEnabled || monthlyEnabled) &&
+            ` ${[weeklyEnabled && "Weekly rollups on Mondays", monthlyEnabled && "monthly rollups on the 1st"]
+              .filter(Boolean)
+              .join(" and ")} at the same time.`}
+        </p>
+
+        <section className="mt-8">
+          <div className="flex items-baseline justify-between">
+            <h2 className="text-lg font-semibold">Team today</h2>
+            <p className="text-xs text-white/60">
+              Counts for {localDate(dashboardTZ)} ({dashboardTZ}). Trends cover the last{" "}
+              {Math.min(reports.filter((r) => r.period === "daily").length, TREND_REPORTS)} daily report(s).
+            </p>
+          </div>
+          <div className="mt-3 overflow-x-auto rounded-xl bg-white/5 ring-1 ring-white/10">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-white/60">
+                  {COLUMNS.map((c) => (
+                    <th key={c.key} className="px-4 py-3 font-medium">
+                      <button
+                        type="button"
+                        onClick={() => toggleSort(c.key)}
+                        className="inline-flex items-center gap-1 hover:text-white transition"
+                      >
+                        {c.label}
+                        {sortKey === c.key && <span aria-hidden>{sortDesc ? "▼" : "▲"}</span>}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="px-4 py-3 font-medium">Trend</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedStats.map((m) => (
+                  <tr
+                    key={m.id}
+                    onClick={() => setSelectedMemberId((cur) => (cur === m.id ? null : m.id))}
+                    className={`cursor-pointer border-t border-white/10 hover:bg-white/5 ${
+                      selectedMemberId === m.id ? "bg-white/10" : ""
+                    }`}
+                  >
+                    <td className="px-4 py-3 font-medium">{m.name}</td>
+                    <td className="px-4 py-3">{m.completedToday}</td>
+                    <td className="px-4 py-3">{m.open}</td>
+                    <td className={`px-4 py-3 ${m.overdue > 0 ? "text-rose-300" : ""}`}>{m.overdue}</td>
+                    <td className="px-4 py-3">{m.dueSoon}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-col gap-1">
+                        <Sparkline values={m.completedTrend} className="text-emerald-300" label="Completed" />
+                        <Sparkline values={m.overdueTrend} className="text-rose-300" label="Overdue" />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {sortedStats.length === 0 && (
+                  <tr>
+                    <td colSpan={COLUMNS.length + 1} className="px-4 py-6 text-center text-white/70">
+                      No team members yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-white/50">Select a team member to see their tasks and nudge history.</p>
+
+          {selectedMemberId && (
+            <MemberDrilldown
+              key={selectedMemberId}
+              member={team.find((m) => m.id === selectedMemberId) as Profile}
+              tasks={teamTasks.filter((t) => t.owner_id === selectedMemberId)}
+              timezone={dashboardTZ}
+              onClose={() => setSelectedMemberId(null)}
+            />
+          )}
+        </section>
 
-        <div className="mt-6 space-y-3">
-          {reports.map((r) => (
+        <div className="mt-10 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Past reports</h2>
+          <div className="flex gap-1 rounded-xl bg-white/5 p-1 ring-1 ring-white/10">
+            {REPORT_PERIODS.map((p) => (
+              <button
+                key={p}
+                type="button"
+                onClick={() => setHistoryPeriod(p)}
+                className={`rounded-lg px-3 py-1 text-xs transition ${
+                  historyPeriod === p ? "bg-white text-slate-900 font-medium" : "text-white/70 hover:text-white"
+                }`}
+              >
+                {p === "daily" ? "Daily" : PERIOD_LABELS[p]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-white/70">Export {historyPeriod} reports from</span>
+          <input
+            type="date"
+            value={exportFrom}
+            onChange={(e) => setExportFrom(e.target.value)}
+            className="rounded-lg bg-white/5 px-2 py-1 outline-none ring-1 ring-white/10 focus:ring-white/30"
+          />
+          <span className="text-white/70">to</span>
+          <input
+            type="date"
+            value={exportTo}
+            onChange={(e) => setExportTo(e.target.value)}
+            className="rounded-lg bg-white/5 px-2 py-1 outline-none ring-1 ring-white/10 focus:ring-white/30"
+          />
+          {(["csv", "json"] as const).map((format) => (
+            <a
+              key={format}
+              href={exportUrl({ format, period: historyPeriod, from: exportFrom, to: exportTo })}
+              className="rounded-lg px-3 py-1 text-xs bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15 transition"
+            >
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+        <div className="mt-3 space-y-3">
+          {historyReports.map((r) => (
             <div key={r.id} className="rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm">Report date: <span className="text-white/80">{fmtDate(r.report_date)}</span></p>
+                  {r.period === "daily" ? (
+                    <p className="text-sm">Report date: <span className="text-white/80">{fmtDate(r.report_date)}</span></p>
+                  ) : (
+                    <p className="text-sm">
+                      Period:{" "}
+                      <span className="text-white/80">
+                        {r.summary ? formatPeriod((r.summary as RollupSummary).start, (r.summary as RollupSummary).end) : fmtDate(r.report_date)}
+                      </span>
+                    </p>
+                  )}
                   <p className="text-sm">Status: <span className="text-white/80">{r.status}</span></p>
                   <p className="text-sm">Sent: <span className="text-white/80">{r.sent_at ? new Date(r.sent_at).toLocaleString() : "—"}</span></p>
                 </div>
-                <span className="rounded-full px-3 py-1 text-xs font-medium bg-white/10 text-white ring-1 ring-white/20">
-                  {new Date(r.created_at).toLocaleDateString()}
-                </span>
-              </div>
-              {r.summary && (
-                <div className="mt-3 rounded-lg bg-white/5 ring-1 ring-white/10 p-3">
-                  <p className="text-xs text-white/60">Summary</p>
-                  <pre className="mt-1 text-[11px] whitespace-pre-wrap break-all">
-                    {JSON.stringify(r.summary, null, 2)}
-                  </pre>
+                <div className="flex flex-col items-end gap-2">
+                  <span className="rounded-full px-3 py-1 text-xs font-medium bg-white/10 text-white ring-1 ring-white/20">
+                    {new Date(r.created_at).toLocaleDateString()}
+                  </span>
+                  <div className="flex gap-3 text-xs text-white/70">
+                    <a
+                      href={exportUrl({ format: "csv", period: r.period, date: r.report_date })}
+                      className="underline underline-offset-4 hover:text-white"
+                    >
+                      CSV
+                    </a>
+                    <a
+                      href={exportUrl({ format: "json", period: r.period, date: r.report_date })}
+                      className="underline underline-offset-4 hover:text-white"
+                    >
+                      JSON
+                    </a>
+                    <a href={`/api/reports/${r.id}/pdf`} className="underline underline-offset-4 hover:text-white">
+                      PDF
+                    </a>
+                  </div>
                 </div>
-              )}
+              </div>
+              {r.summary &&
+                (r.period === "daily" ? (
+                  <SummaryTable summary={r.summary as DailySummary} />
+                ) : (
+                  <RollupView summary={r.summary as RollupSummary} />
+                ))}
             </div>
           ))}
-          {reports.length === 0 && (
+          {historyReports.length === 0 && (
             <div className="rounded-xl bg-white/5 ring-1 ring-white/10 p-6 text-center">
               <p className="text-white/80">No reports found.</p>
             </div>
           )}
         </div>
 
+        {/* Report settings modal */}
+        {configuring && (
+          <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-4">
+            <div
+              className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm"
+              onClick={() => setConfiguring(false)}
+            />
+            <div className="relative w-full max-w-lg rounded-2xl bg-slate-900 ring-1 ring-white/15 p-6">
+              <h3 className="text-lg font-semibold">Report settings</h3>
+              <p className="mt-1 text-sm text-white/70">Choose when your team reports are emailed.</p>
+
+              <div className="mt-4 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium">Enabled</label>
+                  <div className="mt-2 space-y-2">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={reportEnabled}
+                        onChange={(e) => setReportEnabled(e.target.checked)}
+                      />
+                      Send a daily team report
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={weekdaysOnly}
+                        onChange={(e) => setWeekdaysOnly(e.target.checked)}
+                      />
+                      Weekdays only (Monday to Friday)
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={weeklyEnabled}
+                        onChange={(e) => setWeeklyEnabled(e.target.checked)}
+                      />
+                      Send a weekly rollup every Monday
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={monthlyEnabled}
+                        onChange={(e) => setMonthlyEnabled(e.target.checked)}
+                      />
+                      Send a monthly rollup on the 1st
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={includeSubtasks}
+                        onChange={(e) => setIncludeSubtasks(e.target.checked)}
+                      />
+                      Count subtasks as tasks in reports
+                    </label>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium">Send time (local)</label>
+                  <p className="text-xs text-white/60 mt-1">24h format (HH:MM).</p>
+                  <input
+                    type="text"
+                    value={sendTime}
+                    onChange={(e) => setSendTime(e.target.value)}
+                    placeholder="17:00"
+                    className="mt-2 w-full rounded-xl bg-white/5 px-4 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30 placeholder:text-white/40"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium">Timezone (IANA)</label>
+                  <input
+                    type="text"
+                    value={reportTZ}
+                    onChange={(e) => setReportTZ(e.target.value)}
+                    placeholder="e.g., America/New_York"
+                    className="mt-2 w-full rounded-xl bg-white/5 px-4 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30 placeholder:text-white/40"
+                  />
+                  <p className="text-xs text-white/60 mt-1">&quot;Completed today&quot; and &quot;due soon&quot; are counted for this timezone&apos;s day.</p>
+                </div>
+              </div>
+
+              <div className="mt-6 flex items-center justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setConfiguring(false)}
+                  className="rounded-xl px-4 py-2 text-sm bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={saveReportConfig}
+                  className="rounded-xl px-4 py-2 text-sm bg-white text-slate-900 font-medium shadow hover:shadow-md transition"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {toast && (
           <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-xl bg-rose-500/10 text-rose-200 ring-1 ring-rose-400/30 px-4 py-3 text-sm">
             {toast}
@@ -110,3 +597,241 @@ export default function ReportsPage() {
     </div>
   );
 }
+
+function SummaryTable({ summary }: { summary: DailySummary }) {
+  const rows = Object.values(summary.perUser ?? {});
+  if (rows.length === 0) {
+    return <p className="mt-3 text-sm text-white/60">No team members at the time of this report.</p>;
+  }
+  return (
+    <div className="mt-3 overflow-x-auto rounded-lg bg-white/5 ring-1 ring-white/10">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-white/60">
+            <th className="px-3 py-2 font-medium">Team member</th>
+            <th className="px-3 py-2 font-medium">Completed</th>
+            <th className="px-3 py-2 font-medium">Open</th>
+            <th className="px-3 py-2 font-medium">Overdue</th>
+            <th className="px-3 py-2 font-medium">Due soon</th>
+            <th className="px-3 py-2 font-medium">Acked</th>
+            <th className="px-3 py-2 font-medium">Updated</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((u, i) => (
+            <tr key={i} className="border-t border-white/10">
+              <td className="px-3 py-2">{u.name}</td>
+              <td className="px-3 py-2">{u.completedToday}</td>
+              <td className="px-3 py-2">{u.open}</td>
+              <td className="px-3 py-2">{u.overdue}</td>
+              <td className="px-3 py-2">{u.dueSoon}</td>
+              <td className="px-3 py-2">{formatRate(u.ackRate ?? null)}</td>
+              <td className="px-3 py-2">{formatRate(u.updateRate ?? null)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+type SparklineProps = {
+  values: number[];
+  label: string;
+  className?: string;
+};
+
+// Inline SVG trend line; the stroke takes the text colour from className.
+function Sparkline({ values, label, className }: SparklineProps) {
+  const width = 96;
+  const height = 20;
+  if (values.length < 2) {
+    return <span className="text-xs text-white/40">—</span>;
+  }
+  const max = Math.max(1, ...values);
+  const step = width / (values.length - 1);
+  const points = values.map((v, i) => `${(i * step).toFixed(1)},${(height - 1 - (v / max) * (height - 2)).toFixed(1)}`);
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      role="img"
+      aria-label={`${label}: ${values.join(", ")}`}
+    >
+      <title>{`${label} per report, latest ${values[values.length - 1]}`}</title>
+      <polyline points={points.join(" ")} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+type MemberDrilldownProps = {
+  member: Profile;
+  tasks: TaskRow[];
+  timezone: string;
+  onClose: () => void;
+};
+
+function MemberDrilldown({ member, tasks, timezone, onClose }: MemberDrilldownProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [nudges, setNudges] = useState<NudgeRow[] | null>(null);
+  const rates = useMemo(() => nudgeRates(nudges ?? []), [nudges]);
+
+  useEffect(() => {
+    let mounted = true;
+    supabase
+      .from("nudges")
+      .select("*")
+      .eq("user_id", member.id)
+      .order("scheduled_at", { ascending: false })
+      .limit(30)
+      .then(({ data }) => {
+        if (!mounted) return;
+        setNudges(data ?? []);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [supabase, member.id]);
+
+  // Open tasks first, soonest due first
+  const sortedTasks = [...tasks].sort(
+    (a, b) => Number(a.status === "done") - Number(b.status === "done") || a.due_date.localeCompare(b.due_date)
+  );
+
+  return (
+    <div className="mt-4 rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">{member.name || member.email}</h3>
+          {member.email && <p className="text-xs text-white/60">{member.email}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-xl px-3 py-1.5 text-xs bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15 transition"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="mt-4 grid gap-4 md:grid-cols-2">
+        <div>
+          <p className="text-xs text-white/70">Tasks ({tasks.length})</p>
+          {sortedTasks.length === 0 ? (
+            <p className="mt-2 text-sm text-white/60">No tasks.</p>
+          ) : (
+            <ul className="mt-2 space-y-2">
+              {sortedTasks.map((t) => (
+                <li key={t.id} className="rounded-lg bg-white/5 px-3 py-2 ring-1 ring-white/10 text-sm">
+                  <p className={t.status === "done" ? "line-through text-white/50" : "font-medium"}>{t.title}</p>
+                  <p className="text-xs text-white/60">
+                    {STATUS_LABELS[t.status]} · due {fmtDate(t.due_date)}
+                    {t.status !== "done" && isOverdue(t, timezone) && <span className="text-rose-300"> · overdue</span>}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs text-white/70">
+            Nudges: {formatRate(rates.ackRate)} acknowledged, {formatRate(rates.updateRate)} followed by task updates
+          </p>
+          {nudges === null ? (
+            <p className="mt-2 text-sm text-white/60">Loading…</p>
+          ) : nudges.length === 0 ? (
+            <p className="mt-2 text-sm text-white/60">No nudges yet.</p>
+          ) : (
+            <ol className="mt-2 space-y-2 border-l border-white/15 pl-3">
+              {nudges.map((n) => (
+                <li key={n.id} className="text-sm">
+                  <span className="font-medium">{new Date(n.scheduled_at).toLocaleString()}</span>{" "}
+                  <span className="text-white/70">{n.status}</span>
+                  <span className="block text-xs text-white/50">
+                    {n.acknowledged_at
+                      ? `Acknowledged ${new Date(n.acknowledged_at).toLocaleString()}`
+                      : n.sent_at
+                      ? "Not acknowledged"
+                      : "Not sent"}
+                    {n.outcome_checked_at && ` · ${n.updated_task_ids.length} task(s) updated afterwards`}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RollupView({ summary }: { summary: RollupSummary }) {
+  const members = Object.values(summary.perUser ?? {});
+  const teamTrend = (summary.team?.overdueTrend ?? []).map((d) => d.overdue);
+  return (
+    <div className="mt-3 space-y-3">
+      <div className="grid grid-cols-3 gap-3 text-sm">
+        <div className="rounded-lg bg-white/5 ring-1 ring-white/10 p-3">
+          <p className="text-xs text-white/60">Completed</p>
+          <p className="mt-1 text-lg font-semibold">{summary.team?.completed ?? 0}</p>
+        </div>
+        <div className="rounded-lg bg-white/5 ring-1 ring-white/10 p-3">
+          <p className="text-xs text-white/60">Average lateness</p>
+          <p className="mt-1 text-lg font-semibold">{formatLateness(summary.team?.avgLatenessDays ?? null)}</p>
+        </div>
+        <div className="rounded-lg bg-white/5 ring-1 ring-white/10 p-3">
+          <p className="text-xs text-white/60">Overdue trend</p>
+          <Sparkline values={teamTrend} className="mt-2 text-rose-300" label="Team overdue" />
+        </div>
+      </div>
+
+      {members.length > 0 && (
+        <div className="overflow-x-auto rounded-lg bg-white/5 ring-1 ring-white/10">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-white/60">
+                <th className="px-3 py-2 font-medium">Team member</th>
+                <th className="px-3 py-2 font-medium">Completed</th>
+                <th className="px-3 py-2 font-medium">Avg lateness</th>
+                <th className="px-3 py-2 font-medium">Overdue trend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.map((u, i) => (
+                <tr key={i} className="border-t border-white/10">
+                  <td className="px-3 py-2">{u.name}</td>
+                  <td className="px-3 py-2">{u.completed}</td>
+                  <td className="px-3 py-2">{formatLateness(u.avgLatenessDays)}</td>
+                  <td className="px-3 py-2">
+                    <Sparkline values={u.overdueTrend} className="text-rose-300" label="Overdue" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs text-white/60">Most overdue tasks</p>
+        {(summary.mostOverdue ?? []).length === 0 ? (
+          <p className="mt-1 text-sm text-white/70">Nothing was overdue.</p>
+        ) : (
+          <ul className="mt-1 space-y-1 text-sm">
+            {summary.mostOverdue.map((t) => (
+              <li key={t.taskId}>
+                {t.title}{" "}
+                <span className="text-white/60">
+                  ({t.owner}, due {fmtDate(t.dueDate)}, {t.daysOverdue} day(s) overdue)
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
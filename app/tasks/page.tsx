@@ -4,12 +4,27 @@ import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
 import type { Database, Tables, TablesInsert } from "@/database.types";
+import { DEFAULT_TIMEZONE, isDueSoon, isOverdue, localDate, resolveTimezone } from "@/lib/dates";
+import {
+  WEEKDAYS,
+  describeRecurrence,
+  draftFromRecurrence,
+  ruleFromDraft,
+  validateRecurrenceDraft,
+  type RecurrenceDraft,
+  type RecurrenceFrequency,
+  type RecurrenceRow,
+} from "@/lib/recurrence";
 
 type Role = Database["public"]["Enums"]["role_type"];
 type TaskStatus = Database["public"]["Enums"]["task_status"];
+type SharePermission = Database["public"]["Enums"]["share_permission"];
 
 type Profile = Tables<"profiles">;
 type TaskRow = Tables<"tasks">;
+type TaskEvent = Tables<"task_events">;
+type TaskComment = Tables<"task_comments">;
+type NotificationRow = Tables<"notifications">;
 
 type TaskDraft = {
   title: string;
@@ -17,6 +32,7 @@ type TaskDraft = {
   dueDate: string;
   status: TaskStatus;
   notes?: string;
+  recurrence: RecurrenceDraft;
 };
 
 function formatDateForDisplay(isoDate: string): string {
@@ -33,19 +49,6 @@ function formatDateForDisplay(isoDate: string): string {
   }
 }
 
-function isOverdue(task: TaskRow): boolean {
-  const today = new Date();
-  const date = new Date(`${task.due_date}T23:59:59`);
-  return task.status !== "done" && date.getTime() < today.getTime();
-}
-
-function isDueSoon(task: TaskRow): boolean {
-  const today = new Date();
-  const due = new Date(`${task.due_date}T23:59:59`);
-  const diffDays = Math.floor((due.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-  return task.status !== "done" && diffDays >= 0 && diffDays <= 1;
-}
-
 export default function TasksPage() {
   const supabase = useMemo(() => createClient(), []);
   const [sessionUserId, setSessionUserId] = useState<string | null>(null);
@@ -53,7 +56,12 @@ export default function TasksPage() {
 
   const [people, setPeople] = useState<Profile[]>([]);
   const [tasks, setTasks] = useState<TaskRow[]>([]);
-  const [sharedTaskIds, setSharedTaskIds] = useState<Set<string>>(new Set());
+  // Tasks shared with me and my permission on each
+  const [sharePermissions, setSharePermissions] = useState<Map<string, SharePermission>>(new Map());
+  // Schedules of the recurring tasks on the board, by id
+  const [recurrences, setRecurrences] = useState<Map<string, RecurrenceRow>>(new Map());
+  // Subtasks by parent id, in display order. Board cards are top-level tasks only.
+  const [subtasks, setSubtasks] = useState<Map<string, TaskRow[]>>(new Map());
   const [search, setSearch] = useState<string>("");
   const [filter, setFilter] = useState<"all" | TaskStatus | "overdue" | "due_soon">("all");
 
@@ -61,13 +69,16 @@ export default function TasksPage() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [shareOpenFor, setShareOpenFor] = useState<string | null>(null);
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  // Deep link from emails: /tasks?task=<id>
+  const [focusTaskId, setFocusTaskId] = useState<string | null>(null);
 
   const [draft, setDraft] = useState<TaskDraft>({
     title: "",
     description: "",
-    dueDate: new Date().toISOString().slice(0, 10),
+    dueDate: localDate(DEFAULT_TIMEZONE),
     status: "todo",
     notes: "",
+    recurrence: draftFromRecurrence(null, localDate(DEFAULT_TIMEZONE)),
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [toast, setToast] = useState<string>("");
@@ -77,6 +88,13 @@ export default function TasksPage() {
   const [nudgeTimes, setNudgeTimes] = useState<string[]>(["09:00", "13:00", "17:00"]);
   const [nudgeTZ, setNudgeTZ] = useState<string>("UTC");
   const [nudgeEnabled, setNudgeEnabled] = useState<boolean>(true);
+  const [nudgeIncludeShared, setNudgeIncludeShared] = useState<boolean>(true);
+  // Saved timezone (not the form field) that due/overdue labels are computed in
+  const [userTimezone, setUserTimezone] = useState<string>(DEFAULT_TIMEZONE);
+
+  useEffect(() => {
+    setFocusTaskId(new URLSearchParams(window.location.search).get("task"));
+  }, []);
 
   useEffect(() => {
     let mounted = true;
@@ -121,10 +139,14 @@ export default function TasksPage() {
             setNudgeTimes(data.times ?? ["09:00", "13:00", "17:00"]);
             setNudgeTZ(data.timezone ?? "UTC");
             setNudgeEnabled(Boolean(data.enabled));
+            setNudgeIncludeShared(data.include_shared ?? true);
+            setUserTimezone(resolveTimezone(data.timezone));
           } else {
             setNudgeTimes(["09:00", "13:00", "17:00"]);
             setNudgeTZ("UTC");
             setNudgeEnabled(true);
+            setNudgeIncludeShared(true);
+            setUserTimezone(DEFAULT_TIMEZONE);
           }
         });
     }
@@ -152,10 +174,10 @@ export default function TasksPage() {
       .eq("owner_id", uid)
       .order("created_at", { ascending: false });
 
-    const { data: shareRows } = await supabase.from("task_shares").select("task_id").eq("user_id", uid);
+    const { data: shareRows } = await supabase.from("task_shares").select("task_id,permission").eq("user_id", uid);
     console.log(`[TASKS PAGE] fetchTasks. uid: ${uid}, shareRows: ${JSON.stringify(shareRows)}`);
     const sharedIds = new Set<string>((shareRows ?? []).map((r) => r.task_id));
-    setSharedTaskIds(sharedIds);
+    setSharePermissions(new Map((shareRows ?? []).map((r) => [r.task_id, r.permission])));
 
     let merged: TaskRow[] = [];
     const [{ data: myData }] = await Promise.all([myTasksPromise]);
@@ -176,7 +198,26 @@ export default function TasksPage() {
         );
       }
     }
-    setTasks(merged);
+    // Subtasks render inside their parent's card; one shared directly without
+    // its parent stays a card of its own
+    const visibleIds = new Set(merged.map((t) => t.id));
+    const topLevel = merged.filter((t) => !t.parent_id || !visibleIds.has(t.parent_id));
+    setTasks(topLevel);
+
+    // Sharing a parent grants access to its subtasks, so load them by parent
+    const parentIds = topLevel.filter((t) => !t.parent_id).map((t) => t.id);
+    const { data: children } = parentIds.length
+      ? await supabase.from("tasks").select("*").in("parent_id", parentIds).order("position", { ascending: true })
+      : { data: [] };
+    const byParent = new Map<string, TaskRow[]>();
+    (children ?? []).forEach((c) => byParent.set(c.parent_id as string, [...(byParent.get(c.parent_id as string) ?? []), c]));
+    setSubtasks(byParent);
+
+    const recurrenceIds = [...new Set(merged.map((t) => t.recurrence_id).filter((id): id is string => !!id))];
+    const { data: rules } = recurrenceIds.length
+      ? await supabase.from("task_recurrences").select("*").in("id", recurrenceIds)
+      : { data: [] };
+    setRecurrences(new Map((rules ?? []).map((r) => [r.id, r])));
   }
 
   function validateDraft(): boolean {
@@ -185,6 +226,8 @@ export default function TasksPage() {
     if (!draft.dueDate) errs.dueDate = "Due date is required.";
     if (draft.title.length > 120) errs.title = "Title should be under 120 characters.";
     if ((draft.description ?? "").length > 2000) errs.description = "Description is too long.";
+    const recurrenceError = validateRecurrenceDraft(draft.recurrence, draft.dueDate);
+    if (recurrenceError) errs.recurrence = recurrenceError;
     setFormErrors(errs);
     return Object.keys(errs).length === 0;
   }
@@ -193,23 +236,33 @@ export default function TasksPage() {
     setDraft({
       title: "",
       description: "",
-      dueDate: new Date().toISOString().slice(0, 10),
+      dueDate: localDate(userTimezone),
       status: "todo",
       notes: "",
+      recurrence: draftFromRecurrence(null, localDate(userTimezone)),
     });
     setEditingId(null);
     setFormErrors({});
     setFormOpen(true);
   }
 
+  // Title and description stay owner-only; co-owners edit the rest
+  const canEditDetails = !editingId || tasks.find((t) => t.id === editingId)?.owner_id === sessionUserId;
+  // Only top-level tasks repeat; their subtasks are copied to each occurrence
+  const canRepeat = canEditDetails && !(editingId && tasks.find((t) => t.id === editingId)?.parent_id);
+
   function openEditForm(task: TaskRow) {
-    if (task.owner_id !== sessionUserId) return;
+    if (task.owner_id !== sessionUserId && sharePermissions.get(task.id) !== "co_owner") return;
     setDraft({
       title: task.title,
       description: task.description ?? "",
       dueDate: task.due_date,
       status: task.status,
       notes: task.notes ?? "",
+      recurrence: draftFromRecurrence(
+        task.recurrence_id ? recurrences.get(task.recurrence_id) ?? null : null,
+        task.due_date
+      ),
     });
     setEditingId(task.id);
     setFormOpen(true);
@@ -221,11 +274,13 @@ export default function TasksPage() {
     if (!validateDraft()) return;
 
     if (editingId) {
+      // Co-owners cannot touch title/description, so leave them out entirely
       const { data, error } = await supabase
         .from("tasks")
         .update({
-          title: draft.title.trim(),
-          description: (draft.description ?? "").trim(),
+          ...(canEditDetails
+            ? { title: draft.title.trim(), description: (draft.description ?? "").trim() }
+            : {}),
           due_date: draft.dueDate,
           status: draft.status,
           notes: (draft.notes ?? "").trim(),
@@ -239,8 +294,12 @@ export default function TasksPage() {
         return;
       }
       if (data) {
-        setTasks((prev) => prev.map((t) => (t.id === data.id ? data : t)));
+        const saved = canEditDetails ? await saveRecurrence(data) : data;
+        if (!saved) return;
+        setTasks((prev) => prev.map((t) => (t.id === saved.id ? saved : t)));
         setToast("Task updated.");
+        // Marking a recurring task done here creates its next occurrence
+        if (saved.recurrence_id && saved.status === "done") await fetchTasks(sessionUserId);
       }
     } else {
       const insert = {
@@ -258,7 +317,9 @@ export default function TasksPage() {
         return;
       }
       if (data) {
-        setTasks((prev) => [data, ...prev]);
+        const saved = await saveRecurrence(data);
+        if (!saved) return;
+        setTasks((prev) => [saved, ...prev]);
         setToast("Task created.");
       }
     }
@@ -267,6 +328,60 @@ export default function TasksPage() {
     setEditingId(null);
   }
 
+  // Creates, updates or removes the task's schedule to match the form.
+  // Removing it leaves past occurrences as ordinary tasks.
+  async function saveRecurrence(task: TaskRow): Promise<TaskRow | null> {
+    const rule = ruleFromDraft(draft.recurrence);
+    const existing = task.recurrence_id ? recurrences.get(task.recurrence_id) ?? null : null;
+
+    if (!rule) {
+      if (!existing) return task;
+      const { error } = await supabase.from("task_recurrences").delete().eq("id", existing.id);
+      if (error) {
+        setToast(error.message);
+        return null;
+      }
+      return { ...task, recurrence_id: null, recurrence_date: null };
+    }
+
+    if (existing) {
+      const { data, error } = await supabase
+        .from("task_recurrences")
+        .update(rule)
+        .eq("id", existing.id)
+        .select("*")
+        .single();
+      if (error) {
+        setToast(error.message);
+        return null;
+      }
+      setRecurrences((prev) => new Map(prev).set(data.id, data));
+      return task;
+    }
+
+    const { data: created, error } = await supabase
+      .from("task_recurrences")
+      .insert({ ...rule, owner_id: task.owner_id, starts_on: task.due_date } as TablesInsert<"task_recurrences">)
+      .select("*")
+      .single();
+    if (error) {
+      setToast(error.message);
+      return null;
+    }
+    const { data: linked, error: linkError } = await supabase
+      .from("tasks")
+      .update({ recurrence_id: created.id, recurrence_date: task.due_date })
+      .eq("id", task.id)
+      .select("*")
+      .single();
+    if (linkError) {
+      setToast(linkError.message);
+      return null;
+    }
+    setRecurrences((prev) => new Map(prev).set(created.id, created));
+    return linked;
+  }
+
   async function toggleDone(task: TaskRow) {
     const nextStatus: TaskStatus = task.status === "done" ? "todo" : "done";
     const { data, error } = await supabase
@@ -282,6 +397,10 @@ export default function TasksPage() {
     }
     if (data) {
       setTasks((prev) => prev.map((t) => (t.id === data.id ? data : t)));
+      if (data.recurrence_id && data.status === "done" && sessionUserId) {
+        await fetchTasks(sessionUserId);
+        setToast("Done. The next occurrence has been added.");
+      }
     }
   }
 
@@ -296,28 +415,18 @@ export default function TasksPage() {
     setToast("Task deleted.");
   }
 
-  async function updateSharing(taskId: string, nextSharedWith: string[]) {
+  async function updateSharing(taskId: string, nextSharedWith: Record<string, SharePermission>) {
     if (!sessionUserId) return;
-    const { data: current } = await supabase.from("task_shares").select("user_id").eq("task_id", taskId);
-    const currentSet = new Set((current ?? []).map((r) => r.user_id));
-    const nextSet = new Set(nextSharedWith);
-    const toRemove = [...currentSet].filter((x) => !nextSet.has(x));
-    const toAdd = [...nextSet].filter((x) => !currentSet.has(x));
-
-    if (toRemove.length > 0) {
-      const { error } = await supabase.from("task_shares").delete().eq("task_id", taskId).in("user_id", toRemove);
-      if (error) {
-        setToast(error.message);
-        return;
-      }
-    }
-    if (toAdd.length > 0) {
-      const rows = toAdd.map((user_id) => ({ task_id: taskId, user_id }));
-      const { error } = await supabase.from("task_shares").insert(rows);
-      if (error) {
-        setToast(error.message);
-        return;
-      }
+    // The route notifies added and removed recipients
+    const res = await fetch(`/api/tasks/${taskId}/shares`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ shares: nextSharedWith }),
+    });
+    if (!res.ok) {
+      const json = await res.json().catch(() => ({}));
+      setToast(json.error ?? `Request failed (${res.status}).`);
+      return;
     }
 
     await fetchTasks(sessionUserId);
@@ -331,6 +440,7 @@ export default function TasksPage() {
       times: nudgeTimes,
       timezone: nudgeTZ,
       enabled: nudgeEnabled,
+      include_shared: nudgeIncludeShared,
     } as TablesInsert<"nudge_configs">;
 
     const { error } = await supabase.from("nudge_configs").upsert(payload).eq("user_id", sessionUserId);
@@ -338,6 +448,7 @@ export default function TasksPage() {
       setToast(error.message);
       return;
     }
+    setUserTimezone(resolveTimezone(nudgeTZ));
     setToast("Nudge settings saved.");
     setConfiguringNudges(false);
   }
@@ -353,13 +464,13 @@ export default function TasksPage() {
         filter === "all"
           ? true
           : filter === "overdue"
-          ? isOverdue(t)
+          ? isOverdue(t, userTimezone)
           : filter === "due_soon"
-          ? isDueSoon(t)
+          ? isDueSoon(t, userTimezone)
           : t.status === filter;
       return matches && filterMatch;
     });
-  }, [tasks, search, filter]);
+  }, [tasks, search, filter, userTimezone]);
 
   function personById(id: string): Profile | undefined {
     return people.find((p) => p.id === id);
@@ -379,6 +490,7 @@ export default function TasksPage() {
             </div>
           </div>
           <div className="flex items-center gap-3 text-white/80">
+            {sessionUserId && <NotificationBell meId={sessionUserId} />}
             {myProfile && (
               <div className="hidden sm:flex items-center gap-2">
                 <span className="text-white/70 text-sm">
@@ -398,6 +510,18 @@ export default function TasksPage() {
             >
               Reports
             </Link>
+            <Link
+              href="/calendar"
+              className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+            >
+              Calendar
+            </Link>
+            <Link
+              href="/team"
+              className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+            >
+              Team
+            </Link>
             <button
               type="button"
               onClick={() => setConfiguringNudges(true)}
@@ -422,7 +546,12 @@ export default function TasksPage() {
           people={people}
           tasks={filteredTasks}
           allTasks={tasks}
-          sharedTaskIds={sharedTaskIds}
+          sharePermissions={sharePermissions}
+          recurrences={recurrences}
+          subtasks={subtasks}
+          onSubtasksChange={(parentId, next) => setSubtasks((prev) => new Map(prev).set(parentId, next))}
+          timezone={userTimezone}
+          focusTaskId={focusTaskId}
           search={search}
           setSearch={setSearch}
           filter={filter}
@@ -466,6 +595,7 @@ export default function TasksPage() {
                   <input
                     type="text"
                     value={draft.title}
+                    disabled={!canEditDetails}
                     onChange={(e) => setDraft((d) => ({ ...d, title: e.target.value }))}
                     placeholder="Write a clear task title"
                     className={`mt-2 w-full rounded-xl bg-white/5 px-4 py-2 outline-none ring-1 transition placeholder:text-white/40 ${
@@ -479,6 +609,7 @@ export default function TasksPage() {
                   <label className="block text-sm font-medium">Description</label>
                   <textarea
                     value={draft.description}
+                    disabled={!canEditDetails}
                     onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
                     placeholder="Details, context, or links..."
                     className={`mt-2 w-full rounded-xl bg-white/5 px-4 py-2 outline-none ring-1 transition placeholder:text-white/40 min-h-[100px] ${
@@ -515,6 +646,14 @@ export default function TasksPage() {
                   </div>
                 </div>
 
+                {canRepeat && (
+                  <RecurrenceFields
+                    value={draft.recurrence}
+                    error={formErrors.recurrence}
+                    onChange={(recurrence) => setDraft((d) => ({ ...d, recurrence }))}
+                  />
+                )}
+
                 <div>
                   <label className="block text-sm font-medium">Notes</label>
                   <textarea
@@ -552,6 +691,7 @@ export default function TasksPage() {
             task={tasks.find((t) => t.id === shareOpenFor)!}
             ownerId={tasks.find((t) => t.id === shareOpenFor)!.owner_id}
             meId={sessionUserId ?? ""}
+            myPermission={sharePermissions.get(shareOpenFor) ?? null}
             people={people}
             onClose={() => setShareOpenFor(null)}
             onSave={(next) => updateSharing(shareOpenFor, next)}
@@ -602,8 +742,8 @@ export default function TasksPage() {
               <div className="mt-4 space-y-4">
                 <div>
                   <label className="block text-sm font-medium">Enabled</label>
-                  <div className="mt-2">
-                    <label className="inline-flex items-center gap-2 text-sm">
+                  <div className="mt-2 space-y-2">
+                    <label className="flex items-center gap-2 text-sm">
                       <input
                         type="checkbox"
                         checked={nudgeEnabled}
@@ -611,6 +751,14 @@ export default function TasksPage() {
                       />
                       Enable daily nudges
                     </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={nudgeIncludeShared}
+                        onChange={(e) => setNudgeIncludeShared(e.target.checked)}
+                      />
+                      Include tasks shared with me
+                    </label>
                   </div>
                 </div>
 
@@ -677,7 +825,12 @@ type TaskBoardProps = {
   people: Profile[];
   tasks: TaskRow[];
   allTasks: TaskRow[];
-  sharedTaskIds: Set<string>;
+  sharePermissions: Map<string, SharePermission>;
+  recurrences: Map<string, RecurrenceRow>;
+  subtasks: Map<string, TaskRow[]>;
+  onSubtasksChange: (parentId: string, next: TaskRow[]) => void;
+  timezone: string;
+  focusTaskId: string | null;
   search: string;
   setSearch: (s: string) => void;
   filter: "all" | TaskStatus | "overdue" | "due_soon";
@@ -693,7 +846,12 @@ function TaskBoard({
   me,
   people,
   tasks,
-  sharedTaskIds,
+  sharePermissions,
+  recurrences,
+  subtasks,
+  onSubtasksChange,
+  timezone,
+  focusTaskId,
   search,
   setSearch,
   filter,
@@ -704,6 +862,17 @@ function TaskBoard({
   onShare,
   onDelete,
 }: TaskBoardProps) {
+  const [detailOpenFor, setDetailOpenFor] = useState<string | null>(null);
+  const [subtasksOpenFor, setSubtasksOpenFor] = useState<string | null>(null);
+  const focusTaskLoaded = focusTaskId !== null && tasks.some((t) => t.id === focusTaskId);
+
+  // Open and scroll to the deep-linked task once it has loaded
+  useEffect(() => {
+    if (!focusTaskLoaded || !focusTaskId) return;
+    setDetailOpenFor(focusTaskId);
+    document.getElementById(`task-${focusTaskId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusTaskId, focusTaskLoaded]);
+
   function personById(id: string): Profile | undefined {
     return people.find((p) => p.id === id);
   }
@@ -752,10 +921,22 @@ function TaskBoard({
         {tasks.map((t) => {
           const ownerName = me && t.owner_id === me.id ? "You" : personById(t.owner_id)?.name ?? "Unknown";
           const isOwner = me?.id === t.owner_id;
-          const isSharedWithMe = sharedTaskIds.has(t.id);
+          const myPermission = sharePermissions.get(t.id);
+          const isSharedWithMe = myPermission !== undefined;
+          const canManage = isOwner || myPermission === "co_owner";
+          const canUpdate = canManage || myPermission === "editor";
+          const recurrence = t.recurrence_id ? recurrences.get(t.recurrence_id) : undefined;
+          const children = subtasks.get(t.id) ?? [];
+          const childrenDone = children.filter((c) => c.status === "done").length;
 
           return (
-            <div key={t.id} className="rounded-2xl bg-gradient-to-br from-white/10 to-white/5 ring-1 ring-white/10 p-4">
+            <div
+              key={t.id}
+              id={`task-${t.id}`}
+              className={`rounded-2xl bg-gradient-to-br from-white/10 to-white/5 ring-1 p-4 ${
+                t.id === focusTaskId ? "ring-sky-400/50" : "ring-white/10"
+              }`}
+            >
               <div className="flex items-start justify-between gap-3">
                 <div>
                   <h3 className="text-lg font-semibold">{t.title}</h3>
@@ -776,15 +957,33 @@ function TaskBoard({
 
               <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
                 <div className="rounded-lg bg-white/5 px-2 py-1 ring-1 ring-white/10">Due {formatDateForDisplay(t.due_date)}</div>
-                {isOverdue(t) && (
+                {isOverdue(t, timezone) && (
                   <div className="rounded-lg bg-rose-500/20 px-2 py-1 ring-1 ring-rose-400/30 text-rose-200">Overdue</div>
                 )}
-                {isDueSoon(t) && !isOverdue(t) && (
+                {isDueSoon(t, timezone) && (
                   <div className="rounded-lg bg-amber-500/20 px-2 py-1 ring-1 ring-amber-400/30 text-amber-200">Due soon</div>
                 )}
+                {children.length > 0 && (
+                  <div
+                    className={`rounded-lg px-2 py-1 ring-1 ${
+                      childrenDone === children.length
+                        ? "bg-emerald-500/20 ring-emerald-400/30 text-emerald-200"
+                        : "bg-white/5 ring-white/10"
+                    }`}
+                  >
+                    ☑ {childrenDone}/{children.length}
+                  </div>
+                )}
+                {recurrence && (
+                  <div className="rounded-lg bg-violet-500/20 px-2 py-1 ring-1 ring-violet-400/30 text-violet-200">
+                    ↻ {describeRecurrence(recurrence)}
+                  </div>
+                )}
                 <div className="rounded-lg bg-white/5 px-2 py-1 ring-1 ring-white/10">Owner: {ownerName}</div>
                 {isSharedWithMe && (
-                  <div className="rounded-lg bg-white/5 px-2 py-1 ring-1 ring-white/10">Shared with you</div>
+                  <div className="rounded-lg bg-white/5 px-2 py-1 ring-1 ring-white/10">
+                    Shared with you ({PERMISSION_LABELS[myPermission]})
+                  </div>
                 )}
               </div>
 
@@ -798,21 +997,22 @@ function TaskBoard({
               <div className="mt-4 flex flex-wrap gap-2">
                 <button
                   type="button"
+                  disabled={!canUpdate}
                   onClick={() => onToggleDone(t)}
                   className={`rounded-xl px-3 py-2 text-sm ring-1 transition ${
                     t.status === "done"
                       ? "bg-white text-slate-900 ring-white/20"
                       : "bg-emerald-500/20 text-emerald-200 ring-emerald-400/30 hover:bg-emerald-500/25"
-                  }`}
+                  } ${!canUpdate ? "opacity-60 cursor-not-allowed" : ""}`}
                 >
                   {t.status === "done" ? "Mark as Todo" : "Mark as Done"}
                 </button>
                 <button
                   type="button"
-                  disabled={!isOwner}
+                  disabled={!canManage}
                   onClick={() => onEdit(t)}
                   className={`rounded-xl px-3 py-2 text-sm ring-1 transition ${
-                    isOwner
+                    canManage
                       ? "bg-sky-500/20 text-sky-200 ring-1 ring-sky-400/30 hover:bg-sky-500/25"
                       : "bg-white/10 text-white ring-1 ring-white/20 opacity-60 cursor-not-allowed"
                   }`}
@@ -821,10 +1021,10 @@ function TaskBoard({
                 </button>
                 <button
                   type="button"
-                  disabled={!isOwner}
+                  disabled={!canManage}
                   onClick={() => onShare(t.id)}
                   className={`rounded-xl px-3 py-2 text-sm ring-1 transition ${
-                    isOwner
+                    canManage
                       ? "bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15"
                       : "bg-white/10 text-white ring-1 ring-white/20 opacity-60 cursor-not-allowed"
                   }`}
@@ -843,7 +1043,40 @@ function TaskBoard({
                 >
                   Delete
                 </button>
+                {!t.parent_id && (
+                  <button
+                    type="button"
+                    onClick={() => setSubtasksOpenFor(subtasksOpenFor === t.id ? null : t.id)}
+                    className="rounded-xl px-3 py-2 text-sm bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15 transition"
+                  >
+                    {subtasksOpenFor === t.id ? "Hide subtasks" : "Subtasks"}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setDetailOpenFor(detailOpenFor === t.id ? null : t.id)}
+                  className="rounded-xl px-3 py-2 text-sm bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15 transition"
+                >
+                  {detailOpenFor === t.id ? "Hide activity" : "Activity"}
+                </button>
               </div>
+
+              {subtasksOpenFor === t.id && (
+                <TaskSubtasks
+                  parent={t}
+                  subtasks={children}
+                  canUpdate={canUpdate}
+                  canDelete={isOwner}
+                  onChange={(next) => onSubtasksChange(t.id, next)}
+                />
+              )}
+
+              {detailOpenFor === t.id && (
+                <>
+                  <TaskComments task={t} people={people} meId={me?.id ?? null} />
+                  <TaskTimeline key={t.updated_at} task={t} people={people} meId={me?.id ?? null} />
+                </>
+              )}
             </div>
           );
         })}
@@ -865,31 +1098,509 @@ function TaskBoard({
   );
 }
 
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: "Todo",
+  in_progress: "In Progress",
+  done: "Done",
+};
+
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+  viewer: "Viewer",
+  editor: "Editor",
+  co_owner: "Co-owner",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  due_date: "due date",
+  notes: "notes",
+  owner_id: "owner",
+};
+
+function describeEvent(e: TaskEvent): string {
+  if (e.event_type === "created") return "created the task";
+  const fields = e.changed_fields
+    .filter((f) => f !== "status")
+    .map((f) => FIELD_LABELS[f] ?? f);
+  const parts: string[] = [];
+  if (e.event_type === "status_changed" && e.new_status) {
+    parts.push(
+      e.old_status
+        ? `moved it from ${STATUS_LABELS[e.old_status]} to ${STATUS_LABELS[e.new_status]}`
+        : `marked it ${STATUS_LABELS[e.new_status]}`
+    );
+  }
+  if (fields.length > 0) parts.push(`edited ${fields.join(", ")}`);
+  return parts.join(" and ");
+}
+
+type TaskSubtasksProps = {
+  parent: TaskRow;
+  subtasks: TaskRow[];
+  canUpdate: boolean;
+  canDelete: boolean;
+  onChange: (next: TaskRow[]) => void;
+};
+
+// Checklist of a task's subtasks. Editors and co-owners of the parent can add,
+// tick off and reorder them; new subtasks belong to the parent's owner and
+// start with the parent's due date.
+function TaskSubtasks({ parent, subtasks, canUpdate, canDelete, onChange }: TaskSubtasksProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [title, setTitle] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  async function addSubtask() {
+    if (!title.trim()) return;
+    setBusy(true);
+    setError("");
+    const insert = {
+      owner_id: parent.owner_id,
+      parent_id: parent.id,
+      title: title.trim(),
+      due_date: parent.due_date,
+      status: "todo",
+      position: subtasks.reduce((max, s) => Math.max(max, s.position + 1), 0),
+    } as TablesInsert<"tasks">;
+    const { data, error: insertError } = await supabase.from("tasks").insert(insert).select("*").single();
+    setBusy(false);
+    if (insertError) {
+      setError(insertError.message);
+      return;
+    }
+    onChange([...subtasks, data]);
+    setTitle("");
+  }
+
+  async function toggle(subtask: TaskRow) {
+    const status: TaskStatus = subtask.status === "done" ? "todo" : "done";
+    const { data, error: updateError } = await supabase
+      .from("tasks")
+      .update({ status })
+      .eq("id", subtask.id)
+      .select("*")
+      .single();
+    if (updateError) {
+      setError(updateError.message);
+      return;
+    }
+    onChange(subtasks.map((s) => (s.id === data.id ? data : s)));
+  }
+
+  // Swaps with the neighbour, then renumbers so positions stay 0..n-1
+  async function move(index: number, delta: -1 | 1) {
+    const target = index + delta;
+    if (target < 0 || target >= subtasks.length) return;
+    const next = [...subtasks];
+    [next[index], next[target]] = [next[target], next[index]];
+    const renumbered = next.map((s, position) => ({ ...s, position }));
+    onChange(renumbered);
+
+    const changed = renumbered.filter((s, i) => subtasks[i]?.id !== s.id || subtasks[i]?.position !== s.position);
+    const results = await Promise.all(
+      changed.map((s) => supabase.from("tasks").update({ position: s.position }).eq("id", s.id))
+    );
+    const failed = results.find((r) => r.error);
+    if (failed?.error) {
+      setError(failed.error.message);
+      onChange(subtasks);
+    }
+  }
+
+  async function remove(subtask: TaskRow) {
+    const { error: deleteError } = await supabase.from("tasks").delete().eq("id", subtask.id);
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+    onChange(subtasks.filter((s) => s.id !== subtask.id));
+  }
+
+  return (
+    <div className="mt-4 rounded-xl bg-white/5 px-3 py-2 ring-1 ring-white/10">
+      <p className="text-xs text-white/70">
+        Subtasks {subtasks.length > 0 && `(${subtasks.filter((s) => s.status === "done").length}/${subtasks.length} done)`}
+      </p>
+      {subtasks.length === 0 ? (
+        <p className="mt-2 text-sm text-white/60">No subtasks yet.</p>
+      ) : (
+        <ul className="mt-2 space-y-1">
+          {subtasks.map((s, i) => (
+            <li key={s.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={s.status === "done"}
+                disabled={!canUpdate}
+                onChange={() => toggle(s)}
+              />
+              <span className={`flex-1 break-words ${s.status === "done" ? "line-through text-white/50" : ""}`}>
+                {s.title}
+              </span>
+              {canUpdate && (
+                <>
+                  <button
+                    type="button"
+                    disabled={i === 0}
+                    onClick={() => move(i, -1)}
+                    aria-label="Move up"
+                    className="rounded-lg px-2 text-white/70 hover:bg-white/10 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    disabled={i === subtasks.length - 1}
+                    onClick={() => move(i, 1)}
+                    aria-label="Move down"
+                    className="rounded-lg px-2 text-white/70 hover:bg-white/10 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                </>
+              )}
+              {canDelete && (
+                <button
+                  type="button"
+                  onClick={() => remove(s)}
+                  aria-label="Delete subtask"
+                  className="rounded-lg px-2 text-rose-300 hover:bg-rose-500/20"
+                >
+                  ✕
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canUpdate && (
+        <div className="mt-3 flex gap-2">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addSubtask();
+            }}
+            placeholder="Add a subtask…"
+            className="flex-1 rounded-xl bg-white/5 px-3 py-2 text-sm outline-none ring-1 ring-white/10 focus:ring-white/30 placeholder:text-white/40"
+          />
+          <button
+            type="button"
+            disabled={busy || !title.trim()}
+            onClick={addSubtask}
+            className="rounded-xl px-3 py-2 text-sm bg-white text-slate-900 font-medium shadow hover:shadow-md transition disabled:opacity-60"
+          >
+            Add
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-1 text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+}
+
+type TaskCommentsProps = {
+  task: TaskRow;
+  people: Profile[];
+  meId: string | null;
+};
+
+function TaskComments({ task, people, meId }: TaskCommentsProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [comments, setComments] = useState<TaskComment[] | null>(null);
+  const [body, setBody] = useState<string>("");
+  const [posting, setPosting] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    let mounted = true;
+    supabase
+      .from("task_comments")
+      .select("*")
+      .eq("task_id", task.id)
+      .order("created_at", { ascending: true })
+      .then(({ data }) => {
+        if (!mounted) return;
+        setComments(data ?? []);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [supabase, task.id]);
+
+  function authorName(authorId: string): string {
+    if (authorId === meId) return "You";
+    return people.find((p) => p.id === authorId)?.name || "Someone";
+  }
+
+  async function postComment() {
+    if (!body.trim()) return;
+    setPosting(true);
+    setError("");
+    const res = await fetch(`/api/tasks/${task.id}/comments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ body }),
+    });
+    const json = await res.json().catch(() => ({}));
+    setPosting(false);
+    if (!res.ok) {
+      setError(json.error ?? `Request failed (${res.status}).`);
+      return;
+    }
+    setComments((prev) => [...(prev ?? []), json.comment]);
+    setBody("");
+  }
+
+  return (
+    <div className="mt-4 rounded-xl bg-white/5 px-3 py-2 ring-1 ring-white/10">
+      <p className="text-xs text-white/70">Comments</p>
+      {comments === null ? (
+        <p className="mt-2 text-sm text-white/60">Loading…</p>
+      ) : comments.length === 0 ? (
+        <p className="mt-2 text-sm text-white/60">No comments yet.</p>
+      ) : (
+        <ul className="mt-2 space-y-3">
+          {comments.map((c) => (
+            <li key={c.id} className="text-sm">
+              <span className="font-medium">{authorName(c.author_id)}</span>
+              <span className="ml-2 text-xs text-white/50">{new Date(c.created_at).toLocaleString()}</span>
+              <p className="mt-1 whitespace-pre-wrap break-words text-white/90">{c.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={2}
+          placeholder="Add a comment… mention people with @name or @email"
+          className="w-full rounded-xl bg-white/5 px-3 py-2 text-sm outline-none ring-1 ring-white/10 focus:ring-white/30 placeholder:text-white/40"
+        />
+        {error && <p className="mt-1 text-xs text-rose-300">{error}</p>}
+        <div className="mt-2 flex justify-end">
+          <button
+            type="button"
+            disabled={posting || !body.trim()}
+            onClick={postComment}
+            className="rounded-xl px-3 py-2 text-sm bg-white text-slate-900 font-medium shadow hover:shadow-md transition disabled:opacity-60"
+          >
+            {posting ? "Posting…" : "Comment"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type TaskTimelineProps = {
+  task: TaskRow;
+  people: Profile[];
+  meId: string | null;
+};
+
+function TaskTimeline({ task, people, meId }: TaskTimelineProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [events, setEvents] = useState<TaskEvent[] | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    supabase
+      .from("task_events")
+      .select("*")
+      .eq("task_id", task.id)
+      .order("created_at", { ascending: false })
+      .then(({ data }) => {
+        if (!mounted) return;
+        setEvents(data ?? []);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [supabase, task.id]);
+
+  function actorName(actorId: string | null): string {
+    if (!actorId) return "System";
+    if (actorId === meId) return "You";
+    return people.find((p) => p.id === actorId)?.name || "Someone";
+  }
+
+  return (
+    <div className="mt-4 rounded-xl bg-white/5 px-3 py-2 ring-1 ring-white/10">
+      <p className="text-xs text-white/70">History</p>
+      {events === null ? (
+        <p className="mt-2 text-sm text-white/60">Loading…</p>
+      ) : events.length === 0 ? (
+        <p className="mt-2 text-sm text-white/60">No history yet.</p>
+      ) : (
+        <ol className="mt-2 space-y-2 border-l border-white/15 pl-3">
+          {events.map((e) => (
+            <li key={e.id} className="text-sm">
+              <span className="font-medium">{actorName(e.actor_id)}</span> {describeEvent(e)}
+              <span className="block text-xs text-white/50">{new Date(e.created_at).toLocaleString()}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+type RecurrenceFieldsProps = {
+  value: RecurrenceDraft;
+  error?: string;
+  onChange: (next: RecurrenceDraft) => void;
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = { daily: "day(s)", weekly: "week(s)", monthly: "month(s)" };
+
+function RecurrenceFields({ value, error, onChange }: RecurrenceFieldsProps) {
+  const inputClass =
+    "rounded-xl bg-white/5 px-3 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30";
+
+  function toggleWeekday(day: number) {
+    const weekdays = value.weekdays.includes(day) ? value.weekdays.filter((d) => d !== day) : [...value.weekdays, day];
+    onChange({ ...value, weekdays });
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium">Repeat</label>
+      <select
+        value={value.frequency}
+        onChange={(e) => onChange({ ...value, frequency: e.target.value as RecurrenceDraft["frequency"] })}
+        className={`mt-2 w-full ${inputClass}`}
+      >
+        <option value="none">Does not repeat</option>
+        <option value="daily">Daily</option>
+        <option value="weekly">Weekly</option>
+        <option value="monthly">Monthly</option>
+      </select>
+
+      {value.frequency !== "none" && (
+        <div className="mt-3 space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            Every
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Number(e.target.value) })}
+              className={`w-20 ${inputClass}`}
+            />
+            {FREQUENCY_UNITS[value.frequency]}
+            {value.frequency === "monthly" && (
+              <>
+                on day
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={value.monthDay}
+                  onChange={(e) => onChange({ ...value, monthDay: Number(e.target.value) })}
+                  className={`w-20 ${inputClass}`}
+                />
+              </>
+            )}
+          </div>
+
+          {value.frequency === "weekly" && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((d) => (
+                <button
+                  key={d.value}
+                  type="button"
+                  onClick={() => toggleWeekday(d.value)}
+                  className={`rounded-lg px-2 py-1 text-xs ring-1 transition ${
+                    value.weekdays.includes(d.value)
+                      ? "bg-violet-500/30 text-violet-100 ring-violet-400/40"
+                      : "bg-white/5 text-white/70 ring-white/10 hover:bg-white/10"
+                  }`}
+                >
+                  {d.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            Ends
+            <select
+              value={value.end}
+              onChange={(e) => onChange({ ...value, end: e.target.value as RecurrenceDraft["end"] })}
+              className={inputClass}
+            >
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+            {value.end === "until" && (
+              <input
+                type="date"
+                value={value.untilDate}
+                onChange={(e) => onChange({ ...value, untilDate: e.target.value })}
+                className={inputClass}
+              />
+            )}
+            {value.end === "count" && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  value={value.count}
+                  onChange={(e) => onChange({ ...value, count: Number(e.target.value) })}
+                  className={`w-20 ${inputClass}`}
+                />
+                occurrences
+              </>
+            )}
+          </div>
+          <p className="text-xs text-white/60">Completing an occurrence adds the next one to your board.</p>
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+}
+
 type ShareModalProps = {
   task: TaskRow;
   ownerId: string;
   meId: string;
+  myPermission: SharePermission | null;
   people: Profile[];
   onClose: () => void;
-  onSave: (nextSharedWith: string[]) => void;
+  onSave: (nextSharedWith: Record<string, SharePermission>) => void;
 };
 
-function ShareModal({ task, ownerId, meId, people, onClose, onSave }: ShareModalProps) {
+function ShareModal({ task, ownerId, meId, myPermission, people, onClose, onSave }: ShareModalProps) {
   const supabase = useMemo(() => createClient(), []);
-  const [selected, setSelected] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Record<string, SharePermission>>({});
   const [query, setQuery] = useState<string>("");
 
   const isOwner = ownerId === meId;
+  const canManage = isOwner || myPermission === "co_owner";
+
+  // Only the owner grants or revokes co-ownership
+  function isLocked(id: string): boolean {
+    return !isOwner && selected[id] === "co_owner";
+  }
 
   useEffect(() => {
     let mounted = true;
     supabase
       .from("task_shares")
-      .select("user_id")
+      .select("user_id,permission")
       .eq("task_id", task.id)
       .then(({ data }) => {
         if (!mounted) return;
-        setSelected((data ?? []).map((r) => r.user_id));
+        setSelected(Object.fromEntries((data ?? []).map((r) => [r.user_id, r.permission])));
       });
     return () => {
       mounted = false;
@@ -901,19 +1612,31 @@ function ShareModal({ task, ownerId, meId, people, onClose, onSave }: ShareModal
     return people.filter(
       (p) =>
         p.id !== ownerId &&
+        p.id !== meId &&
         (!q ||
           (p.name ?? "").toLowerCase().includes(q) ||
           (p.email ?? "").toLowerCase().includes(q) ||
           p.role.toLowerCase().includes(q))
     );
-  }, [people, query, ownerId]);
+  }, [people, query, ownerId, meId]);
 
   function togglePerson(id: string) {
-    setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (next[id]) delete next[id];
+      else next[id] = "editor";
+      return next;
+    });
+  }
+
+  function setPermission(id: string, permission: SharePermission) {
+    setSelected((prev) => ({ ...prev, [id]: permission }));
   }
 
   function revokeAll() {
-    setSelected([]);
+    setSelected((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([id, perm]) => id === meId || (!isOwner && perm === "co_owner")))
+    );
   }
 
   return (
@@ -921,11 +1644,19 @@ function ShareModal({ task, ownerId, meId, people, onClose, onSave }: ShareModal
       <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm" onClick={onClose} />
       <div className="relative w-full max-w-lg rounded-2xl bg-slate-900 ring-1 ring-white/15 p-6">
         <h3 className="text-lg font-semibold">Share "{task.title}"</h3>
-        <p className="mt-1 text-sm text-white/70">Collaborators can view and update status and notes.</p>
+        <p className="mt-1 text-sm text-white/70">
+          Viewers can read the task, editors can also update status and notes, and co-owners can change the due date
+          and reshare.
+        </p>
 
-        {!isOwner && (
+        {!canManage && (
+          <div className="mt-3 rounded-lg bg-amber-500/10 text-amber-200 ring-1 ring-amber-400/30 px-3 py-2 text-xs">
+            Only the owner and co-owners can change sharing.
+          </div>
+        )}
+        {canManage && !isOwner && (
           <div className="mt-3 rounded-lg bg-amber-500/10 text-amber-200 ring-1 ring-amber-400/30 px-3 py-2 text-xs">
-            Only the owner can change sharing.
+            Only the owner can add or remove co-owners.
           </div>
         )}
 
@@ -937,14 +1668,14 @@ function ShareModal({ task, ownerId, meId, people, onClose, onSave }: ShareModal
               value={query}
               onChange={(e) => setQuery(e.target.value)}
               className="flex-1 rounded-xl bg-white/5 px-4 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30 placeholder:text-white/40"
-              disabled={!isOwner}
+              disabled={!canManage}
             />
             <button
               type="button"
               onClick={revokeAll}
-              disabled={!isOwner}
+              disabled={!canManage}
               className={`rounded-xl px-3 py-2 text-sm ${
-                isOwner
+                canManage
                   ? "bg-rose-500/20 text-rose-200 ring-1 ring-rose-400/30 hover:bg-rose-500/25 transition"
                   : "bg-white/10 text-white ring-1 ring-white/20 opacity-60 cursor-not-allowed"
               }`}
@@ -966,18 +1697,32 @@ function ShareModal({ task, ownerId, meId, people, onClose, onSave }: ShareModal
                         {p.email} • {p.role === "manager" ? "Manager" : "User"}
                       </p>
                     </div>
-                    <button
-                      type="button"
-                      onClick={() => isOwner && togglePerson(p.id)}
-                      className={`rounded-full px-3 py-1 text-xs ring-1 transition ${
-                        selected.includes(p.id)
-                          ? "bg-emerald-500/20 text-emerald-200 ring-emerald-400/30"
-                          : "bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15"
-                      } ${!isOwner ? "opacity-60 cursor-not-allowed" : ""}`}
-                      disabled={!isOwner}
-                    >
-                      {selected.includes(p.id) ? "Added" : "Add"}
-                    </button>
+                    <div className="flex items-center gap-2">
+                      {selected[p.id] && (
+                        <select
+                          value={selected[p.id]}
+                          onChange={(e) => setPermission(p.id, e.target.value as SharePermission)}
+                          disabled={!canManage || isLocked(p.id)}
+                          className="rounded-lg bg-white/5 px-2 py-1 text-xs outline-none ring-1 ring-white/10 focus:ring-white/30 disabled:opacity-60"
+                        >
+                          <option value="viewer">Viewer</option>
+                          <option value="editor">Editor</option>
+                          {(isOwner || selected[p.id] === "co_owner") && <option value="co_owner">Co-owner</option>}
+                        </select>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => canManage && !isLocked(p.id) && togglePerson(p.id)}
+                        className={`rounded-full px-3 py-1 text-xs ring-1 transition ${
+                          selected[p.id]
+                            ? "bg-emerald-500/20 text-emerald-200 ring-emerald-400/30"
+                            : "bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15"
+                        } ${!canManage || isLocked(p.id) ? "opacity-60 cursor-not-allowed" : ""}`}
+                        disabled={!canManage || isLocked(p.id)}
+                      >
+                        {selected[p.id] ? "Added" : "Add"}
+                      </button>
+                    </div>
                   </li>
                 ))}
               </ul>
@@ -998,7 +1743,7 @@ function ShareModal({ task, ownerId, meId, people, onClose, onSave }: ShareModal
           <button
             type="button"
             onClick={() => {
-              if (!isOwner) {
+              if (!canManage) {
                 onClose();
                 return;
               }
@@ -1006,9 +1751,9 @@ function ShareModal({ task, ownerId, meId, people, onClose, onSave }: ShareModal
               onClose();
             }}
             className={`rounded-xl px-4 py-2 text-sm bg-white text-slate-900 font-medium shadow hover:shadow-md transition ${
-              !isOwner ? "opacity-60 cursor-not-allowed" : ""
+              !canManage ? "opacity-60 cursor-not-allowed" : ""
             }`}
-            disabled={!isOwner}
+            disabled={!canManage}
           >
             Save
           </button>
@@ -1017,3 +1762,144 @@ function ShareModal({ task, ownerId, meId, people, onClose, onSave }: ShareModal
     </div>
   );
 }
+
+// Most recent notifications kept in the inbox dropdown
+const NOTIFICATION_LIMIT = 20;
+
+function NotificationBell({ meId }: { meId: string }) {
+  const supabase = useMemo(() => createClient(), []);
+  const [open, setOpen] = useState<boolean>(false);
+  const [items, setItems] = useState<NotificationRow[]>([]);
+  const [unread, setUnread] = useState<number>(0);
+
+  useEffect(() => {
+    let mounted = true;
+    supabase
+      .from("notifications")
+      .select("*")
+      .eq("user_id", meId)
+      .order("created_at", { ascending: false })
+      .limit(NOTIFICATION_LIMIT)
+      .then(({ data }) => {
+        if (!mounted) return;
+        setItems(data ?? []);
+      });
+    supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", meId)
+      .is("read_at", null)
+      .then(({ count }) => {
+        if (!mounted) return;
+        setUnread(count ?? 0);
+      });
+
+    // New rows arrive live; RLS limits the stream to the user's own notifications
+    const channel = supabase
+      .channel(`notifications:${meId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${meId}` },
+        (payload) => {
+          const row = payload.new as NotificationRow;
+          setItems((prev) => [row, ...prev.filter((n) => n.id !== row.id)].slice(0, NOTIFICATION_LIMIT));
+          setUnread((n) => n + 1);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, meId]);
+
+  async function markRead(n: NotificationRow) {
+    if (n.read_at) return;
+    const readAt = new Date().toISOString();
+    const { error } = await supabase.from("notifications").update({ read_at: readAt }).eq("id", n.id);
+    if (error) return;
+    setItems((prev) => prev.map((x) => (x.id === n.id ? { ...x, read_at: readAt } : x)));
+    setUnread((c) => Math.max(0, c - 1));
+  }
+
+  async function markAllRead() {
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .eq("user_id", meId)
+      .is("read_at", null);
+    if (error) return;
+    setItems((prev) => prev.map((x) => (x.read_at ? x : { ...x, read_at: readAt })));
+    setUnread(0);
+  }
+
+  async function openNotification(n: NotificationRow) {
+    await markRead(n);
+    if (n.link) window.location.assign(n.link);
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        aria-label={`Notifications${unread > 0 ? ` (${unread} unread)` : ""}`}
+        className="relative rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+      >
+        <span aria-hidden>🔔</span>
+        {unread > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] rounded-full bg-rose-500 px-1 text-center text-[11px] font-semibold leading-5 text-white">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-40 mt-2 w-80 rounded-2xl bg-slate-900 ring-1 ring-white/15 shadow-xl">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <p className="text-sm font-semibold">Notifications</p>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={markAllRead}
+                disabled={unread === 0}
+                className="text-xs text-white/70 underline underline-offset-4 hover:text-white disabled:opacity-40 disabled:no-underline"
+              >
+                Mark all read
+              </button>
+              <Link href="/notifications" className="text-xs text-white/70 underline underline-offset-4 hover:text-white">
+                Preferences
+              </Link>
+            </div>
+          </div>
+          {items.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-white/60">You&apos;re all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-white/10">
+              {items.map((n) => (
+                <li key={n.id}>
+                  <button
+                    type="button"
+                    onClick={() => openNotification(n)}
+                    className={`w-full px-4 py-3 text-left hover:bg-white/5 transition ${n.read_at ? "opacity-60" : ""}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!n.read_at && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-sky-400" />}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-white">{n.title}</p>
+                        {n.body && <p className="mt-0.5 text-xs text-white/70 line-clamp-2">{n.body}</p>}
+                        <p className="mt-1 text-[11px] text-white/50">{new Date(n.created_at).toLocaleString()}</p>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import type { Tables } from "@/database.types";
+
+type Profile = Tables<"profiles">;
+type InviteRow = Tables<"team_invites">;
+type AuditRow = Tables<"team_audit_log">;
+
+const AUDIT_LABELS: Record<string, string> = {
+  "invite.created": "Invite sent",
+  "invite.revoked": "Invite revoked",
+  "invite.accepted": "Invite accepted",
+  "invite.declined": "Invite declined",
+  "member.moved": "Member moved",
+  "member.removed": "Member removed",
+  "role.changed": "Role changed",
+};
+
+export default function TeamPage() {
+  const supabase = useMemo(() => createClient(), []);
+  const [me, setMe] = useState<Profile | null>(null);
+  const [authEmail, setAuthEmail] = useState<string>("");
+  const [people, setPeople] = useState<Profile[]>([]);
+  const [invites, setInvites] = useState<InviteRow[]>([]);
+  const [audit, setAudit] = useState<AuditRow[]>([]);
+  const [inviteEmail, setInviteEmail] = useState<string>("");
+  const [inviteAsManager, setInviteAsManager] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [toast, setToast] = useState<string>("");
+
+  const load = useCallback(async () => {
+    const { data } = await supabase.auth.getUser();
+    const uid = data.user?.id ?? null;
+    if (!uid) return;
+    setAuthEmail(data.user?.email ?? "");
+    const [{ data: prof }, { data: everyone }, { data: inviteRows }, { data: auditRows }] = await Promise.all([
+      supabase.from("profiles").select("*").eq("id", uid).maybeSingle(),
+      supabase.from("profiles").select("*").order("name", { ascending: true }),
+      supabase.from("team_invites").select("*").order("created_at", { ascending: false }),
+      supabase.from("team_audit_log").select("*").order("created_at", { ascending: false }).limit(50),
+    ]);
+    setMe(prof ?? null);
+    setPeople(everyone ?? []);
+    setInvites(inviteRows ?? []);
+    setAudit(auditRows ?? []);
+  }, [supabase]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function callApi(path: string, init: RequestInit, success: string) {
+    setBusy(true);
+    try {
+      const res = await fetch(path, {
+        ...init,
+        headers: { "content-type": "application/json", ...init.headers },
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setToast(body.error ?? `Request failed (${res.status}).`);
+        return false;
+      }
+      setToast(success);
+      await load();
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function sendInvite() {
+    const ok = await callApi(
+      "/api/team/invites",
+      { method: "POST", body: JSON.stringify({ email: inviteEmail, role: inviteAsManager ? "manager" : "user" }) },
+      "Invite sent."
+    );
+    if (ok) {
+      setInviteEmail("");
+      setInviteAsManager(false);
+    }
+  }
+
+  function personById(id: string | null): Profile | undefined {
+    if (!id) return undefined;
+    return people.find((p) => p.id === id);
+  }
+
+  function displayName(id: string | null): string {
+    const p = personById(id);
+    return p ? p.name || p.email : "—";
+  }
+
+  const isManager = me?.role === "manager";
+  const team = people.filter((p) => me && p.manager_id === me.id);
+  const otherManagers = people.filter((p) => me && p.role === "manager" && p.id !== me.id);
+  const sentInvites = invites.filter((i) => me && i.manager_id === me.id && i.status === "pending");
+  const myInvites = invites.filter(
+    (i) => me && i.manager_id !== me.id && i.status === "pending" && !!authEmail && i.email.toLowerCase() === authEmail.toLowerCase()
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white">
+      <div className="mx-auto max-w-4xl px-6 pt-10 pb-24">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Team</h1>
+            <p className="text-sm text-white/70 mt-1">
+              {isManager ? "Invite, move and remove the people who report to you." : "See who you report to and respond to invites."}
+            </p>
+          </div>
+          <Link
+            href="/tasks"
+            className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+          >
+            Back to tasks
+          </Link>
+        </div>
+
+        {me && (
+          <div className="mt-6 rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
+            <p className="text-sm">
+              Your manager: <span className="text-white/80">{me.manager_id ? displayName(me.manager_id) : "None"}</span>
+            </p>
+          </div>
+        )}
+
+        {myInvites.length > 0 && (
+          <section className="mt-6">
+            <h2 className="text-lg font-semibold">Invites for you</h2>
+            <div className="mt-3 space-y-3">
+              {myInvites.map((i) => (
+                <div key={i.id} className="rounded-xl bg-white/5 ring-1 ring-white/10 p-4 flex items-center justify-between">
+                  <p className="text-sm">
+                    <span className="font-medium">{displayName(i.manager_id)}</span> invited you to join their team
+                    {i.grant_role === "manager" ? " as a manager" : ""}.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => callApi(`/api/team/invites/${i.id}/accept`, { method: "POST" }, "Invite accepted.")}
+                      className="rounded-xl px-3 py-2 text-sm bg-emerald-500/20 text-emerald-200 ring-1 ring-emerald-400/30 hover:bg-emerald-500/25 transition"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => callApi(`/api/team/invites/${i.id}/decline`, { method: "POST" }, "Invite declined.")}
+                      className="rounded-xl px-3 py-2 text-sm bg-rose-500/20 text-rose-200 ring-1 ring-rose-400/30 hover:bg-rose-500/25 transition"
+                    >
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {isManager && (
+          <>
+            <section className="mt-8">
+              <h2 className="text-lg font-semibold">Invite a team member</h2>
+              <div className="mt-3 flex items-center gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="colleague@company.com"
+                  className="flex-1 rounded-xl bg-white/5 px-4 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30 placeholder:text-white/40"
+                />
+                <button
+                  type="button"
+                  disabled={busy || !inviteEmail.trim()}
+                  onClick={sendInvite}
+                  className="rounded-xl bg-white text-slate-900 font-medium px-4 py-2 shadow hover:shadow-md transition disabled:opacity-70"
+                >
+                  Send invite
+                </button>
+              </div>
+              {me?.is_admin && (
+                <label className="mt-2 inline-flex items-center gap-2 text-sm text-white/80">
+                  <input
+                    type="checkbox"
+                    checked={inviteAsManager}
+                    onChange={(e) => setInviteAsManager(e.target.checked)}
+                  />
+                  Invite as manager (promotes them when they accept)
+                </label>
+              )}
+
+              {sentInvites.length > 0 && (
+                <div className="mt-4 rounded-xl ring-1 ring-white/10">
+                  <ul className="divide-y divide-white/5">
+                    {sentInvites.map((i) => (
+                      <li key={i.id} className="flex items-center justify-between p-3">
+                        <div>
+                          <p className="text-sm font-medium">{i.email}</p>
+                          <p className="text-xs text-white/60">Sent {new Date(i.created_at).toLocaleDateString()}</p>
+                        </div>
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => callApi(`/api/team/invites/${i.id}`, { method: "DELETE" }, "Invite revoked.")}
+                          className="rounded-full px-3 py-1 text-xs bg-white/10 text-white ring-1 ring-white/20 hover:bg-white/15 transition"
+                        >
+                          Revoke
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </section>
+
+            <section className="mt-8">
+              <h2 className="text-lg font-semibold">Team members</h2>
+              <div className="mt-3 space-y-3">
+                {team.map((member) => (
+                  <div key={member.id} className="rounded-xl bg-white/5 ring-1 ring-white/10 p-4 flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <p className="text-sm font-medium">{member.name || member.email}</p>
+                      <p className="text-xs text-white/60">{member.email}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        defaultValue=""
+                        disabled={busy || otherManagers.length === 0}
+                        onChange={(e) => {
+                          const managerId = e.target.value;
+                          if (!managerId) return;
+                          callApi(
+                            `/api/team/members/${member.id}`,
+                            { method: "PATCH", body: JSON.stringify({ managerId }) },
+                            "Member moved."
+                          );
+                        }}
+                        className="rounded-xl bg-white/5 px-3 py-2 text-sm outline-none ring-1 ring-white/10 focus:ring-white/30"
+                      >
+                        <option value="">Move to…</option>
+                        {otherManagers.map((m) => (
+                          <option key={m.id} value={m.id}>
+                            {m.name || m.email}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => callApi(`/api/team/members/${member.id}`, { method: "DELETE" }, "Member removed.")}
+                        className="rounded-xl px-3 py-2 text-sm bg-rose-500/20 text-rose-200 ring-1 ring-rose-400/30 hover:bg-rose-500/25 transition"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {team.length === 0 && (
+                  <div className="rounded-xl bg-white/5 ring-1 ring-white/10 p-6 text-center">
+                    <p className="text-white/80">No team members yet. Send an invite to get started.</p>
+                  </div>
+                )}
+              </div>
+            </section>
+          </>
+        )}
+
+        {audit.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-lg font-semibold">Recent activity</h2>
+            <ul className="mt-3 space-y-2">
+              {audit.map((a) => (
+                <li key={a.id} className="rounded-lg bg-white/5 ring-1 ring-white/10 px-3 py-2 text-sm">
+                  <span className="text-white/60">{new Date(a.created_at).toLocaleString()}</span>{" "}
+                  <span className="font-medium">{AUDIT_LABELS[a.action] ?? a.action}</span>
+                  {a.member_id && <> · {displayName(a.member_id)}</>}
+                  {a.action === "member.moved" && <> → {displayName(a.manager_id)}</>}
+                  {a.action === "role.changed" && a.details && typeof a.details === "object" && !Array.isArray(a.details) && (
+                    <> → {String(a.details.to)}</>
+                  )}
+                  <span className="text-white/60"> by {displayName(a.actor_id)}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {toast && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-xl bg-emerald-500/10 text-emerald-200 ring-1 ring-emerald-400/30 px-4 py-3 text-sm">
+            {toast}
+            <button
+              type="button"
+              className="ml-3 text-emerald-300 underline underline-offset-4"
+              onClick={() => setToast("")}
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
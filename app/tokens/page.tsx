@@ -0,0 +1,221 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import type { Tables } from "@/database.types";
+import { API_SCOPES, type ApiScope } from "@/lib/api-scopes";
+
+type TokenRow = Omit<Tables<"personal_access_tokens">, "token_hash" | "user_id">;
+
+const SCOPE_LABELS: Record<ApiScope, string> = {
+  "read:tasks": "Read tasks, shares and nudges",
+  "write:tasks": "Create, update, delete and share tasks",
+  "read:reports": "Read manager reports",
+};
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "Never", days: null },
+];
+
+function fmt(dtIso: string | null): string {
+  if (!dtIso) return "—";
+  const d = new Date(dtIso);
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+export default function TokensPage() {
+  const supabase = useMemo(() => createClient(), []);
+  const [tokens, setTokens] = useState<TokenRow[]>([]);
+  const [name, setName] = useState<string>("");
+  const [scopes, setScopes] = useState<ApiScope[]>(["read:tasks"]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [toast, setToast] = useState<string>("");
+
+  const load = useCallback(async () => {
+    const { data } = await supabase
+      .from("personal_access_tokens")
+      .select("id,name,token_prefix,scopes,expires_at,last_used_at,revoked_at,created_at")
+      .order("created_at", { ascending: false });
+    setTokens(data ?? []);
+  }, [supabase]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function callApi(path: string, init: RequestInit, success: string) {
+    setBusy(true);
+    try {
+      const res = await fetch(path, {
+        ...init,
+        headers: { "content-type": "application/json", ...init.headers },
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setToast(body.error ?? `Request failed (${res.status}).`);
+        return null;
+      }
+      setToast(success);
+      await load();
+      return body;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function createToken() {
+    const body = await callApi(
+      "/api/tokens",
+      { method: "POST", body: JSON.stringify({ name, scopes, expires_in_days: expiresInDays }) },
+      "Token created. Copy it now; it will not be shown again."
+    );
+    if (body) {
+      setName("");
+      setSecret(body.secret);
+    }
+  }
+
+  async function revoke(id: string) {
+    await callApi(`/api/tokens/${id}`, { method: "DELETE" }, "Token revoked.");
+  }
+
+  function toggleScope(scope: ApiScope) {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  }
+
+  function tokenState(t: TokenRow): string {
+    if (t.revoked_at) return `Revoked ${fmt(t.revoked_at)}`;
+    if (t.expires_at && new Date(t.expires_at).getTime() <= Date.now()) return `Expired ${fmt(t.expires_at)}`;
+    return t.expires_at ? `Expires ${fmt(t.expires_at)}` : "Never expires";
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white">
+      <div className="mx-auto max-w-4xl px-6 pt-10 pb-24">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">API tokens</h1>
+            <p className="text-sm text-white/70 mt-1">Personal access tokens for the FlowTrack REST API.</p>
+          </div>
+          <Link
+            href="/tasks"
+            className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+          >
+            Back to tasks
+          </Link>
+        </div>
+
+        <section className="mt-8">
+          <h2 className="text-lg font-semibold">Create a token</h2>
+          <div className="mt-3 rounded-xl bg-white/5 ring-1 ring-white/10 p-4 space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="What is this token for?"
+              className="w-full rounded-xl bg-white/5 px-4 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30 placeholder:text-white/40"
+            />
+            <div className="space-y-1 text-sm">
+              {API_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-white/80">
+                  <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                  <code className="text-xs">{scope}</code> <span className="text-white/60">{SCOPE_LABELS[scope]}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <label className="text-sm text-white/80">
+                Expires after
+                <select
+                  value={expiresInDays ?? ""}
+                  onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                  className="ml-2 rounded-xl bg-white/5 px-3 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30"
+                >
+                  {EXPIRY_OPTIONS.map((o) => (
+                    <option key={o.label} value={o.days ?? ""}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                disabled={busy || !name.trim() || scopes.length === 0}
+                onClick={createToken}
+                className="rounded-xl bg-white text-slate-900 font-medium px-4 py-2 shadow hover:shadow-md transition disabled:opacity-70"
+              >
+                Create token
+              </button>
+            </div>
+            {secret && (
+              <div>
+                <p className="text-xs text-white/60">Your new token. It is shown only once.</p>
+                <p className="mt-1 rounded-lg bg-black/30 px-3 py-2 font-mono text-xs break-all">{secret}</p>
+              </div>
+            )}
+          </div>
+          <p className="mt-2 text-xs text-white/60">
+            Send it as <code>Authorization: Bearer &lt;token&gt;</code> to <code>/api/v1/tasks</code>,{" "}
+            <code>/api/v1/tasks/:id/shares</code>, <code>/api/v1/nudges</code> and <code>/api/v1/reports</code>. The
+            API sees exactly what you see in the app.
+          </p>
+        </section>
+
+        <section className="mt-8 space-y-3">
+          {tokens.map((t) => (
+            <div
+              key={t.id}
+              className={`rounded-xl bg-white/5 ring-1 ring-white/10 p-4 flex items-start justify-between gap-3 ${
+                t.revoked_at ? "opacity-60" : ""
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{t.name}</p>
+                <p className="mt-1 text-xs text-white/60">
+                  <span className="font-mono">{t.token_prefix}…</span> • {t.scopes.join(", ")}
+                </p>
+                <p className="mt-1 text-xs text-white/60">
+                  Created {fmt(t.created_at)} • Last used {fmt(t.last_used_at)} • {tokenState(t)}
+                </p>
+              </div>
+              {!t.revoked_at && (
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => revoke(t.id)}
+                  className="shrink-0 rounded-xl px-3 py-2 text-sm bg-rose-500/20 text-rose-200 ring-1 ring-rose-400/30 hover:bg-rose-500/25 transition"
+                >
+                  Revoke
+                </button>
+              )}
+            </div>
+          ))}
+          {tokens.length === 0 && (
+            <div className="rounded-xl bg-white/5 ring-1 ring-white/10 p-6 text-center">
+              <p className="text-white/80">No API tokens yet.</p>
+            </div>
+          )}
+        </section>
+
+        {toast && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-xl bg-emerald-500/10 text-emerald-200 ring-1 ring-emerald-400/30 px-4 py-3 text-sm">
+            {toast}
+            <button
+              type="button"
+              className="ml-3 text-emerald-300 underline underline-offset-4"
+              onClick={() => setToast("")}
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
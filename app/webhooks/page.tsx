@@ -0,0 +1,307 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import type { Tables } from "@/database.types";
+import { WEBHOOK_EVENTS, type WebhookEvent } from "@/lib/webhook-events";
+
+type Profile = Tables<"profiles">;
+type SubscriptionRow = Tables<"webhook_subscriptions">;
+type DeliveryRow = Tables<"webhook_deliveries">;
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "task.created": "Task created",
+  "task.status_changed": "Task status changed",
+  "task.shared": "Task shared",
+  "nudge.sent": "Nudge sent",
+  "nudge.acknowledged": "Nudge acknowledged",
+  "report.generated": "Report generated",
+  notification: "Notifications",
+};
+
+const DELIVERY_LIMIT = 100;
+const DELIVERIES_PER_WEBHOOK = 10;
+
+function fmt(dtIso: string | null): string {
+  if (!dtIso) return "—";
+  const d = new Date(dtIso);
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+export default function WebhooksPage() {
+  const supabase = useMemo(() => createClient(), []);
+  const [me, setMe] = useState<Profile | null>(null);
+  const [subscriptions, setSubscriptions] = useState<SubscriptionRow[]>([]);
+  const [deliveries, setDeliveries] = useState<DeliveryRow[]>([]);
+  const [url, setUrl] = useState<string>("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["task.created", "task.status_changed"]);
+  const [scope, setScope] = useState<"user" | "team">("user");
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [toast, setToast] = useState<string>("");
+
+  const load = useCallback(async () => {
+    const { data } = await supabase.auth.getUser();
+    const uid = data.user?.id ?? null;
+    if (!uid) return;
+    const [{ data: prof }, { data: subs }, { data: log }] = await Promise.all([
+      supabase.from("profiles").select("*").eq("id", uid).maybeSingle(),
+      supabase.from("webhook_subscriptions").select("*").order("created_at", { ascending: true }),
+      supabase.from("webhook_deliveries").select("*").order("created_at", { ascending: false }).limit(DELIVERY_LIMIT),
+    ]);
+    setMe(prof ?? null);
+    setSubscriptions(subs ?? []);
+    setDeliveries(log ?? []);
+  }, [supabase]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function callApi(path: string, init: RequestInit, success: string) {
+    setBusy(true);
+    try {
+      const res = await fetch(path, {
+        ...init,
+        headers: { "content-type": "application/json", ...init.headers },
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setToast(body.error ?? `Request failed (${res.status}).`);
+        return null;
+      }
+      setToast(success);
+      await load();
+      return body;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function createSubscription() {
+    const body = await callApi(
+      "/api/webhooks",
+      { method: "POST", body: JSON.stringify({ url, events, scope }) },
+      "Webhook added. Copy its signing secret below."
+    );
+    if (body) {
+      setUrl("");
+      setRevealed(body.subscription.id);
+    }
+  }
+
+  async function sendTest(id: string) {
+    const body = await callApi(`/api/webhooks/${id}/test`, { method: "POST" }, "Test event sent.");
+    if (body && body.outcome !== "sent") {
+      setToast(`Test delivery failed: ${body.delivery.last_error ?? "unknown error"}. It will be retried.`);
+    }
+  }
+
+  async function setEnabled(id: string, enabled: boolean) {
+    const { error } = await supabase.from("webhook_subscriptions").update({ enabled }).eq("id", id);
+    if (error) {
+      setToast(error.message);
+      return;
+    }
+    setSubscriptions((prev) => prev.map((s) => (s.id === id ? { ...s, enabled } : s)));
+  }
+
+  async function remove(id: string) {
+    const { error } = await supabase.from("webhook_subscriptions").delete().eq("id", id);
+    if (error) {
+      setToast(error.message);
+      return;
+    }
+    setSubscriptions((prev) => prev.filter((s) => s.id !== id));
+    setToast("Webhook deleted.");
+  }
+
+  function toggleEvent(event: WebhookEvent) {
+    setEvents((prev) => (prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]));
+  }
+
+  const isManager = me?.role === "manager";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white">
+      <div className="mx-auto max-w-4xl px-6 pt-10 pb-24">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Webhooks</h1>
+            <p className="text-sm text-white/70 mt-1">Send signed FlowTrack events to your own tools.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/tokens"
+              className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+            >
+              API tokens
+            </Link>
+            <Link
+              href="/tasks"
+              className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition text-sm"
+            >
+              Back to tasks
+            </Link>
+          </div>
+        </div>
+
+        <section className="mt-8">
+          <h2 className="text-lg font-semibold">Add a webhook</h2>
+          <div className="mt-3 rounded-xl bg-white/5 ring-1 ring-white/10 p-4 space-y-3">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/hooks/flowtrack"
+              className="w-full rounded-xl bg-white/5 px-4 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30 placeholder:text-white/40"
+            />
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label key={event} className="inline-flex items-center gap-2 text-white/80">
+                  <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+                  {EVENT_LABELS[event]} <span className="text-xs text-white/50">{event}</span>
+                </label>
+              ))}
+            </div>
+            {isManager && (
+              <label className="block text-sm text-white/80">
+                Events about
+                <select
+                  value={scope}
+                  onChange={(e) => setScope(e.target.value as "user" | "team")}
+                  className="ml-2 rounded-xl bg-white/5 px-3 py-2 outline-none ring-1 ring-white/10 focus:ring-white/30"
+                >
+                  <option value="user">Me</option>
+                  <option value="team">My team members</option>
+                </select>
+              </label>
+            )}
+            <div className="flex justify-end">
+              <button
+                type="button"
+                disabled={busy || !url.trim() || events.length === 0}
+                onClick={createSubscription}
+                className="rounded-xl bg-white text-slate-900 font-medium px-4 py-2 shadow hover:shadow-md transition disabled:opacity-70"
+              >
+                Add webhook
+              </button>
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-white/60">
+            Each request carries a <code>FlowTrack-Signature: t=&lt;unix time&gt;,v1=&lt;hex&gt;</code> header, where v1
+            is the HMAC-SHA256 of <code>&lt;t&gt;.&lt;raw body&gt;</code> with the webhook&apos;s secret. Failed
+            deliveries are retried with backoff.
+          </p>
+        </section>
+
+        <section className="mt-8 space-y-4">
+          {subscriptions.map((s) => {
+            const log = deliveries.filter((d) => d.subscription_id === s.id).slice(0, DELIVERIES_PER_WEBHOOK);
+            return (
+              <div key={s.id} className="rounded-xl bg-white/5 ring-1 ring-white/10 p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium break-all">{s.url}</p>
+                    <p className="mt-1 text-xs text-white/60">
+                      {s.scope === "team" ? "Team events" : "My events"} • {s.events.join(", ")}
+                    </p>
+                  </div>
+                  <label className="inline-flex shrink-0 items-center gap-2 text-sm text-white/80">
+                    <input type="checkbox" checked={s.enabled} onChange={(e) => setEnabled(s.id, e.target.checked)} />
+                    Enabled
+                  </label>
+                </div>
+
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => setRevealed(revealed === s.id ? null : s.id)}
+                    className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition"
+                  >
+                    {revealed === s.id ? "Hide secret" : "Show secret"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy || !s.enabled}
+                    onClick={() => sendTest(s.id)}
+                    className="rounded-xl bg-white/10 px-3 py-2 ring-1 ring-white/20 hover:bg-white/15 transition disabled:opacity-50"
+                  >
+                    Send test event
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(s.id)}
+                    className="rounded-xl px-3 py-2 bg-rose-500/20 text-rose-200 ring-1 ring-rose-400/30 hover:bg-rose-500/25 transition"
+                  >
+                    Delete
+                  </button>
+                </div>
+                {revealed === s.id && (
+                  <p className="mt-2 rounded-lg bg-black/30 px-3 py-2 font-mono text-xs break-all">{s.secret}</p>
+                )}
+
+                <div className="mt-4">
+                  <p className="text-xs text-white/60">Recent deliveries</p>
+                  {log.length === 0 ? (
+                    <p className="mt-1 text-sm text-white/60">Nothing delivered yet.</p>
+                  ) : (
+                    <table className="mt-1 w-full text-xs">
+                      <thead className="text-white/50">
+                        <tr>
+                          <th className="text-left font-medium py-1">Created</th>
+                          <th className="text-left font-medium py-1">Event</th>
+                          <th className="text-left font-medium py-1">Status</th>
+                          <th className="text-left font-medium py-1">Attempts</th>
+                          <th className="text-left font-medium py-1">Response</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-white/5">
+                        {log.map((d) => (
+                          <tr key={d.id}>
+                            <td className="py-1 pr-2">{fmt(d.created_at)}</td>
+                            <td className="py-1 pr-2">{d.event}</td>
+                            <td
+                              className={`py-1 pr-2 ${
+                                d.status === "sent" ? "text-emerald-300" : d.status === "dead" ? "text-rose-300" : "text-white/80"
+                              }`}
+                            >
+                              {d.status}
+                            </td>
+                            <td className="py-1 pr-2">
+                              {d.attempts}/{d.max_attempts}
+                            </td>
+                            <td className="py-1 text-white/70">{d.last_error ?? d.response_status ?? "—"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {subscriptions.length === 0 && (
+            <div className="rounded-xl bg-white/5 ring-1 ring-white/10 p-6 text-center">
+              <p className="text-white/80">No webhooks yet.</p>
+            </div>
+          )}
+        </section>
+
+        {toast && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-xl bg-emerald-500/10 text-emerald-200 ring-1 ring-emerald-400/30 px-4 py-3 text-sm">
+            {toast}
+            <button
+              type="button"
+              className="ml-3 text-emerald-300 underline underline-offset-4"
+              onClick={() => setToast("")}
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -14,11 +14,113 @@ export type Database = {
   }
   public: {
     Tables: {
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          last_fetched_at: string | null
+          scope: Database["public"]["Enums"]["calendar_feed_scope"]
+          token_hash: string
+          token_prefix: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_fetched_at?: string | null
+          scope?: Database["public"]["Enums"]["calendar_feed_scope"]
+          token_hash: string
+          token_prefix: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_fetched_at?: string | null
+          scope?: Database["public"]["Enums"]["calendar_feed_scope"]
+          token_hash?: string
+          token_prefix?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          html: string
+          id: string
+          last_error: string | null
+          locked_until: string | null
+          max_attempts: number
+          message_id: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          source: string
+          source_id: string | null
+          status: Database["public"]["Enums"]["outbox_status"]
+          subject: string
+          text_body: string | null
+          to_email: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          html: string
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          message_id?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          source: string
+          source_id?: string | null
+          status?: Database["public"]["Enums"]["outbox_status"]
+          subject: string
+          text_body?: string | null
+          to_email: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          html?: string
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          message_id?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          source?: string
+          source_id?: string | null
+          status?: Database["public"]["Enums"]["outbox_status"]
+          subject?: string
+          text_body?: string | null
+          to_email?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       manager_reports: {
         Row: {
           created_at: string
           id: string
           manager_id: string
+          period: Database["public"]["Enums"]["report_period"]
           report_date: string
           sent_at: string | null
           status: Database["public"]["Enums"]["report_status"]
@@ -29,6 +131,7 @@ export type Database = {
           created_at?: string
           id?: string
           manager_id: string
+          period?: Database["public"]["Enums"]["report_period"]
           report_date: string
           sent_at?: string | null
           status?: Database["public"]["Enums"]["report_status"]
@@ -39,6 +142,7 @@ export type Database = {
           created_at?: string
           id?: string
           manager_id?: string
+          period?: Database["public"]["Enums"]["report_period"]
           report_date?: string
           sent_at?: string | null
           status?: Database["public"]["Enums"]["report_status"]
@@ -55,10 +159,151 @@ export type Database = {
           },
         ]
       }
+      notification_preferences: {
+        Row: {
+          daily_report_channels: Database["public"]["Enums"]["notification_channel"][]
+          mention_channels: Database["public"]["Enums"]["notification_channel"][]
+          nudge_channels: Database["public"]["Enums"]["notification_channel"][]
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          share_received_channels: Database["public"]["Enums"]["notification_channel"][]
+          share_revoked_channels: Database["public"]["Enums"]["notification_channel"][]
+          updated_at: string
+          user_id: string
+          vacation_until: string | null
+        }
+        Insert: {
+          daily_report_channels?: Database["public"]["Enums"]["notification_channel"][]
+          mention_channels?: Database["public"]["Enums"]["notification_channel"][]
+          nudge_channels?: Database["public"]["Enums"]["notification_channel"][]
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          share_received_channels?: Database["public"]["Enums"]["notification_channel"][]
+          share_revoked_channels?: Database["public"]["Enums"]["notification_channel"][]
+          updated_at?: string
+          user_id: string
+          vacation_until?: string | null
+        }
+        Update: {
+          daily_report_channels?: Database["public"]["Enums"]["notification_channel"][]
+          mention_channels?: Database["public"]["Enums"]["notification_channel"][]
+          nudge_channels?: Database["public"]["Enums"]["notification_channel"][]
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          share_received_channels?: Database["public"]["Enums"]["notification_channel"][]
+          share_revoked_channels?: Database["public"]["Enums"]["notification_channel"][]
+          updated_at?: string
+          user_id?: string
+          vacation_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          source_id: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          source_id?: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          source_id?: string | null
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      nudge_actions: {
+        Row: {
+          action: Database["public"]["Enums"]["nudge_action"]
+          created_at: string
+          id: string
+          nudge_id: string
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["nudge_action"]
+          created_at?: string
+          id?: string
+          nudge_id: string
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["nudge_action"]
+          created_at?: string
+          id?: string
+          nudge_id?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "nudge_actions_nudge_id_fkey"
+            columns: ["nudge_id"]
+            isOneToOne: false
+            referencedRelation: "nudges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "nudge_actions_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "nudge_actions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       nudge_configs: {
         Row: {
           created_at: string
           enabled: boolean
+          include_shared: boolean
           times: string[]
           timezone: string
           updated_at: string
@@ -67,6 +312,7 @@ export type Database = {
         Insert: {
           created_at?: string
           enabled?: boolean
+          include_shared?: boolean
           times?: string[]
           timezone?: string
           updated_at?: string
@@ -75,6 +321,7 @@ export type Database = {
         Update: {
           created_at?: string
           enabled?: boolean
+          include_shared?: boolean
           times?: string[]
           timezone?: string
           updated_at?: string
@@ -95,33 +342,39 @@ export type Database = {
           acknowledged_at: string | null
           created_at: string
           id: string
+          outcome_checked_at: string | null
           payload: Json | null
           scheduled_at: string
           sent_at: string | null
           status: Database["public"]["Enums"]["nudge_status"]
           updated_at: string
+          updated_task_ids: string[]
           user_id: string
         }
         Insert: {
           acknowledged_at?: string | null
           created_at?: string
           id?: string
+          outcome_checked_at?: string | null
           payload?: Json | null
           scheduled_at: string
           sent_at?: string | null
           status?: Database["public"]["Enums"]["nudge_status"]
           updated_at?: string
+          updated_task_ids?: string[]
           user_id: string
         }
         Update: {
           acknowledged_at?: string | null
           created_at?: string
           id?: string
+          outcome_checked_at?: string | null
           payload?: Json | null
           scheduled_at?: string
           sent_at?: string | null
           status?: Database["public"]["Enums"]["nudge_status"]
           updated_at?: string
+          updated_task_ids?: string[]
           user_id?: string
         }
         Relationships: [
@@ -134,11 +387,59 @@ export type Database = {
           },
         ]
       }
+      personal_access_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          scopes?: string[]
+          token_hash?: string
+          token_prefix?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personal_access_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
           email: string
           id: string
+          is_admin: boolean
           manager_id: string | null
           name: string
           role: Database["public"]["Enums"]["role_type"]
@@ -148,6 +449,7 @@ export type Database = {
           created_at?: string
           email?: string
           id: string
+          is_admin?: boolean
           manager_id?: string | null
           name?: string
           role?: Database["public"]["Enums"]["role_type"]
@@ -157,6 +459,7 @@ export type Database = {
           created_at?: string
           email?: string
           id?: string
+          is_admin?: boolean
           manager_id?: string | null
           name?: string
           role?: Database["public"]["Enums"]["role_type"]
@@ -172,19 +475,225 @@ export type Database = {
           },
         ]
       }
+      report_configs: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          include_subtasks: boolean
+          manager_id: string
+          monthly_enabled: boolean
+          send_time: string
+          timezone: string
+          updated_at: string
+          weekdays_only: boolean
+          weekly_enabled: boolean
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          include_subtasks?: boolean
+          manager_id: string
+          monthly_enabled?: boolean
+          send_time?: string
+          timezone?: string
+          updated_at?: string
+          weekdays_only?: boolean
+          weekly_enabled?: boolean
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          include_subtasks?: boolean
+          manager_id?: string
+          monthly_enabled?: boolean
+          send_time?: string
+          timezone?: string
+          updated_at?: string
+          weekdays_only?: boolean
+          weekly_enabled?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_configs_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          mentions: string[]
+          task_id: string
+          updated_at: string
+        }
+        Insert: {
+          author_id: string
+          body: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          task_id: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          task_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_events: {
+        Row: {
+          actor_id: string | null
+          changed_fields: string[]
+          created_at: string
+          event_type: Database["public"]["Enums"]["task_event_type"]
+          id: string
+          new_status: Database["public"]["Enums"]["task_status"] | null
+          old_status: Database["public"]["Enums"]["task_status"] | null
+          owner_id: string
+          task_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          event_type: Database["public"]["Enums"]["task_event_type"]
+          id?: string
+          new_status?: Database["public"]["Enums"]["task_status"] | null
+          old_status?: Database["public"]["Enums"]["task_status"] | null
+          owner_id: string
+          task_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          event_type?: Database["public"]["Enums"]["task_event_type"]
+          id?: string
+          new_status?: Database["public"]["Enums"]["task_status"] | null
+          old_status?: Database["public"]["Enums"]["task_status"] | null
+          owner_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_events_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_events_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_recurrences: {
+        Row: {
+          created_at: string
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          id: string
+          interval_count: number
+          month_day: number | null
+          occurrence_limit: number | null
+          occurrences: number
+          owner_id: string
+          starts_on: string
+          until_date: string | null
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          frequency: Database["public"]["Enums"]["recurrence_frequency"]
+          id?: string
+          interval_count?: number
+          month_day?: number | null
+          occurrence_limit?: number | null
+          occurrences?: number
+          owner_id: string
+          starts_on: string
+          until_date?: string | null
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string
+          frequency?: Database["public"]["Enums"]["recurrence_frequency"]
+          id?: string
+          interval_count?: number
+          month_day?: number | null
+          occurrence_limit?: number | null
+          occurrences?: number
+          owner_id?: string
+          starts_on?: string
+          until_date?: string | null
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_recurrences_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       task_shares: {
         Row: {
           created_at: string
+          permission: Database["public"]["Enums"]["share_permission"]
           task_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          permission?: Database["public"]["Enums"]["share_permission"]
           task_id: string
           user_id: string
         }
         Update: {
           created_at?: string
+          permission?: Database["public"]["Enums"]["share_permission"]
           task_id?: string
           user_id?: string
         }
@@ -213,6 +722,10 @@ export type Database = {
           id: string
           notes: string | null
           owner_id: string
+          parent_id: string | null
+          position: number
+          recurrence_date: string | null
+          recurrence_id: string | null
           status: Database["public"]["Enums"]["task_status"]
           title: string
           updated_at: string
@@ -224,6 +737,10 @@ export type Database = {
           id?: string
           notes?: string | null
           owner_id: string
+          parent_id?: string | null
+          position?: number
+          recurrence_date?: string | null
+          recurrence_id?: string | null
           status?: Database["public"]["Enums"]["task_status"]
           title: string
           updated_at?: string
@@ -235,6 +752,10 @@ export type Database = {
           id?: string
           notes?: string | null
           owner_id?: string
+          parent_id?: string | null
+          position?: number
+          recurrence_date?: string | null
+          recurrence_id?: string | null
           status?: Database["public"]["Enums"]["task_status"]
           title?: string
           updated_at?: string
@@ -247,6 +768,236 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "task_recurrences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json | null
+          id: string
+          invite_id: string | null
+          manager_id: string | null
+          member_id: string | null
+          previous_manager_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json | null
+          id?: string
+          invite_id?: string | null
+          manager_id?: string | null
+          member_id?: string | null
+          previous_manager_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json | null
+          id?: string
+          invite_id?: string | null
+          manager_id?: string | null
+          member_id?: string | null
+          previous_manager_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_audit_log_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "team_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_audit_log_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_audit_log_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_audit_log_previous_manager_id_fkey"
+            columns: ["previous_manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_invites: {
+        Row: {
+          created_at: string
+          email: string
+          grant_role: Database["public"]["Enums"]["role_type"]
+          id: string
+          manager_id: string
+          responded_at: string | null
+          status: Database["public"]["Enums"]["invite_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          grant_role?: Database["public"]["Enums"]["role_type"]
+          id?: string
+          manager_id: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["invite_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          grant_role?: Database["public"]["Enums"]["role_type"]
+          id?: string
+          manager_id?: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["invite_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_invites_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          event: string
+          id: string
+          last_error: string | null
+          locked_until: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          response_status: number | null
+          status: Database["public"]["Enums"]["outbox_status"]
+          subscription_id: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event: string
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload: Json
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["outbox_status"]
+          subscription_id: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event?: string
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["outbox_status"]
+          subscription_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_subscriptions: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          events: string[]
+          id: string
+          owner_id: string
+          scope: Database["public"]["Enums"]["webhook_scope"]
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          events: string[]
+          id?: string
+          owner_id: string
+          scope?: Database["public"]["Enums"]["webhook_scope"]
+          secret: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          owner_id?: string
+          scope?: Database["public"]["Enums"]["webhook_scope"]
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_subscriptions_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -254,13 +1005,94 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_nudge_action: {
+        Args: {
+          p_action: Database["public"]["Enums"]["nudge_action"]
+          p_nudge_id: string
+          p_task_id: string
+        }
+        Returns: string
+      }
+      claim_email_outbox: {
+        Args: { batch_size?: number; lease_seconds?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          html: string
+          id: string
+          last_error: string | null
+          locked_until: string | null
+          max_attempts: number
+          message_id: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          source: string
+          source_id: string | null
+          status: Database["public"]["Enums"]["outbox_status"]
+          subject: string
+          text_body: string | null
+          to_email: string
+          updated_at: string
+        }[]
+      }
+      claim_webhook_deliveries: {
+        Args: { batch_size?: number; lease_seconds?: number }
+        Returns: {
+            attempts: number
+            created_at: string
+            delivered_at: string | null
+            event: string
+            id: string
+            last_error: string | null
+            locked_until: string | null
+            max_attempts: number
+            next_attempt_at: string
+            payload: Json
+            response_status: number | null
+            status: Database["public"]["Enums"]["outbox_status"]
+            subscription_id: string
+            updated_at: string
+        }[]
+      }
+      can_manage_task_share: {
+        Args: {
+          permission: Database["public"]["Enums"]["share_permission"]
+          task_id: string
+        }
+        Returns: boolean
+      }
+      enqueue_webhook_event: {
+        Args: {
+          p_data: Json
+          p_event: string
+          p_not_before?: string
+          p_user_ids: string[]
+        }
+        Returns: number
+      }
       is_task_owner: { Args: { task_id: string }; Returns: boolean }
+      task_owner_id: { Args: { task_id: string }; Returns: string }
+      task_share_permission: {
+        Args: { task_id: string }
+        Returns: Database["public"]["Enums"]["share_permission"]
+      }
     }
     Enums: {
-      nudge_status: "scheduled" | "sent" | "failed" | "acknowledged"
-      report_status: "scheduled" | "sent" | "failed"
+      calendar_feed_scope: "user" | "team"
+      invite_status: "pending" | "accepted" | "declined" | "revoked"
+      notification_channel: "email" | "in_app" | "webhook"
+      notification_type: "nudge" | "task_shared" | "share_revoked" | "mention" | "report_ready"
+      nudge_action: "done" | "snooze" | "in_progress"
+      nudge_status: "scheduled" | "queued" | "sent" | "failed" | "skipped" | "acknowledged" | "updated"
+      outbox_status: "pending" | "sending" | "sent" | "dead"
+      recurrence_frequency: "daily" | "weekly" | "monthly"
+      report_period: "daily" | "weekly" | "monthly"
+      report_status: "scheduled" | "sent" | "failed" | "skipped"
       role_type: "user" | "manager"
+      share_permission: "viewer" | "editor" | "co_owner"
+      task_event_type: "created" | "status_changed" | "updated"
       task_status: "todo" | "in_progress" | "done"
+      webhook_scope: "user" | "team"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -388,10 +1220,21 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      nudge_status: ["scheduled", "sent", "failed", "acknowledged"],
-      report_status: ["scheduled", "sent", "failed"],
+      calendar_feed_scope: ["user", "team"],
+      invite_status: ["pending", "accepted", "declined", "revoked"],
+      notification_channel: ["email", "in_app", "webhook"],
+      notification_type: ["nudge", "task_shared", "share_revoked", "mention", "report_ready"],
+      nudge_action: ["done", "snooze", "in_progress"],
+      nudge_status: ["scheduled", "queued", "sent", "failed", "skipped", "acknowledged", "updated"],
+      outbox_status: ["pending", "sending", "sent", "dead"],
+      recurrence_frequency: ["daily", "weekly", "monthly"],
+      report_period: ["daily", "weekly", "monthly"],
+      report_status: ["scheduled", "sent", "failed", "skipped"],
       role_type: ["user", "manager"],
+      share_permission: ["viewer", "editor", "co_owner"],
+      task_event_type: ["created", "status_changed", "updated"],
       task_status: ["todo", "in_progress", "done"],
+      webhook_scope: ["user", "team"],
     },
   },
 } as const
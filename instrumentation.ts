@@ -0,0 +1,7 @@
+export async function register() {
+  // Nudge email links must never be signed with the development fallback secret
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { assertAckSecretConfigured } = await import("@/lib/nudge-tokens");
+    assertAckSecretConfigured();
+  }
+}
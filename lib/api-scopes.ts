@@ -0,0 +1,4 @@
+// Scopes a personal access token can carry. Kept free of server-only imports
+// so /tokens can render the same list.
+export const API_SCOPES = ["read:tasks", "write:tasks", "read:reports"] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
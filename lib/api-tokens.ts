@@ -0,0 +1,44 @@
+import { createHash, randomBytes } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/database.types";
+import type { ApiScope } from "@/lib/api-scopes";
+
+const TOKEN_PREFIX = "ftp_";
+// Characters of the token kept in clear so users can tell tokens apart
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export function hashAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The plaintext token is returned once, at creation; only its hash is stored.
+export function generateAccessToken(): { token: string; prefix: string; hash: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(30).toString("base64url")}`;
+  return { token, prefix: token.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashAccessToken(token) };
+}
+
+export type TokenIdentity = { tokenId: string; userId: string; scopes: ApiScope[] };
+
+// Resolves "Authorization: Bearer ftp_..." to the token's owner. Revoked and
+// expired tokens resolve to null, the same as unknown ones.
+export async function resolveAccessToken(
+  supabase: SupabaseClient<Database>,
+  authorization: string | null
+): Promise<TokenIdentity | null> {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization ?? "");
+  if (!match || !match[1].startsWith(TOKEN_PREFIX)) return null;
+
+  const { data: row } = await supabase
+    .from("personal_access_tokens")
+    .select("id,user_id,scopes,expires_at,revoked_at")
+    .eq("token_hash", hashAccessToken(match[1]))
+    .maybeSingle();
+  if (!row || row.revoked_at) return null;
+  if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) return null;
+
+  await supabase
+    .from("personal_access_tokens")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", row.id);
+  return { tokenId: row.id, userId: row.user_id, scopes: row.scopes as ApiScope[] };
+}
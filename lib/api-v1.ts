@@ -0,0 +1,148 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Constants, type Database, type TablesUpdate } from "@/database.types";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createUserClient } from "@/lib/supabase/as-user";
+import { resolveAccessToken } from "@/lib/api-tokens";
+import type { ApiScope } from "@/lib/api-scopes";
+
+// Shared plumbing for /api/v1. Every response is either
+//   { data, pagination? }            on success, or
+//   { error: { code, message } }     on failure.
+
+type TaskStatus = Database["public"]["Enums"]["task_status"];
+
+export type ApiErrorCode =
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "invalid_request"
+  | "conflict"
+  | "internal";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export function apiError(status: number, code: ApiErrorCode, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+// Postgres/PostgREST errors from the user client. 42501 and P0001 come from
+// RLS and the task triggers refusing the write.
+export function dbError(error: { code: string; message: string }) {
+  if (error.code === "42501" || error.code === "P0001") return apiError(403, "forbidden", error.message);
+  if (error.code === "23505") return apiError(409, "conflict", error.message);
+  if (error.code === "23514" || error.code === "22P02" || error.code === "22007") {
+    return apiError(400, "invalid_request", error.message);
+  }
+  return apiError(500, "internal", error.message);
+}
+
+export type ApiContext = {
+  userId: string;
+  scopes: ApiScope[];
+  // Acts as the token's owner, so RLS decides what is visible and writable
+  supabase: SupabaseClient<Database>;
+};
+
+// Authenticates the personal access token and checks it carries `scope`.
+export async function authorize(request: NextRequest, scope: ApiScope): Promise<ApiContext | NextResponse> {
+  const identity = await resolveAccessToken(createAdminClient(), request.headers.get("authorization"));
+  if (!identity) {
+    return apiError(401, "unauthorized", "Missing, invalid, expired or revoked access token.");
+  }
+  if (!identity.scopes.includes(scope)) {
+    return apiError(403, "forbidden", `This token lacks the ${scope} scope.`);
+  }
+  try {
+    return { userId: identity.userId, scopes: identity.scopes, supabase: createUserClient(identity.userId) };
+  } catch (e) {
+    // Missing server configuration (e.g. SUPABASE_JWT_SECRET); keep the envelope
+    // eslint-disable-next-line no-console
+    console.log(`[API V1] Cannot act as user ${identity.userId}: ${(e as Error).message}`);
+    return apiError(500, "internal", "The API is not available right now.");
+  }
+}
+
+export type Page = { limit: number; offset: number };
+
+// ?limit= (1..MAX_PAGE_SIZE, default DEFAULT_PAGE_SIZE) and ?offset= (>= 0)
+export function parsePage(search: URLSearchParams): Page | NextResponse {
+  const limit = Number(search.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(search.get("offset") ?? 0);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return apiError(400, "invalid_request", `limit must be an integer from 1 to ${MAX_PAGE_SIZE}.`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return apiError(400, "invalid_request", "offset must be a non-negative integer.");
+  }
+  return { limit, offset };
+}
+
+export function paginated<T>(data: T[], page: Page, total: number | null) {
+  const count = total ?? page.offset + data.length;
+  return NextResponse.json({
+    data,
+    pagination: {
+      limit: page.limit,
+      offset: page.offset,
+      total: count,
+      next_offset: page.offset + data.length < count ? page.offset + data.length : null,
+    },
+  });
+}
+
+const TASK_FIELDS = ["title", "description", "notes", "due_date", "status"] as const;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export type TaskInput = Pick<TablesUpdate<"tasks">, (typeof TASK_FIELDS)[number]>;
+
+// Validates a task body for POST (title and due_date required) or PATCH (any
+// subset). Ownership is never taken from the body.
+export function parseTaskInput(
+  body: unknown,
+  mode: "create" | "update"
+): { ok: true; values: TaskInput } | { ok: false; message: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, message: "Body must be a JSON object." };
+  }
+  const input = body as Record<string, unknown>;
+  const unknown = Object.keys(input).filter((k) => !(TASK_FIELDS as readonly string[]).includes(k));
+  if (unknown.length > 0) return { ok: false, message: `Unknown field(s): ${unknown.join(", ")}.` };
+
+  const values: TaskInput = {};
+  if ("title" in input) {
+    if (typeof input.title !== "string" || !input.title.trim()) {
+      return { ok: false, message: "title must be a non-empty string." };
+    }
+    values.title = input.title.trim();
+  }
+  for (const key of ["description", "notes"] as const) {
+    if (key in input) {
+      if (input[key] !== null && typeof input[key] !== "string") {
+        return { ok: false, message: `${key} must be a string or null.` };
+      }
+      values[key] = input[key] as string | null;
+    }
+  }
+  if ("due_date" in input) {
+    if (typeof input.due_date !== "string" || !DATE_RE.test(input.due_date)) {
+      return { ok: false, message: "due_date must be YYYY-MM-DD." };
+    }
+    values.due_date = input.due_date;
+  }
+  if ("status" in input) {
+    if (!Constants.public.Enums.task_status.includes(input.status as TaskStatus)) {
+      return { ok: false, message: `status must be one of: ${Constants.public.Enums.task_status.join(", ")}.` };
+    }
+    values.status = input.status as TaskStatus;
+  }
+
+  if (mode === "create" && (!values.title || !values.due_date)) {
+    return { ok: false, message: "title and due_date are required." };
+  }
+  if (mode === "update" && Object.keys(values).length === 0) {
+    return { ok: false, message: "Provide at least one field to update." };
+  }
+  return { ok: true, values };
+}
@@ -0,0 +1,105 @@
+import { createHash, randomBytes } from "crypto";
+import type { Database, Tables } from "@/database.types";
+import { addDays } from "@/lib/dates";
+
+type TaskStatus = Database["public"]["Enums"]["task_status"];
+
+export type FeedTask = Pick<Tables<"tasks">, "id" | "title" | "description" | "due_date" | "status" | "updated_at"> & {
+  // Set on team feeds so each event says whose task it is
+  ownerName?: string | null;
+};
+
+const FEED_TOKEN_PREFIX = "ftc_";
+const DISPLAY_PREFIX_LENGTH = 12;
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: "Todo",
+  in_progress: "In Progress",
+  done: "Done",
+};
+
+export function hashFeedToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The token is the only secret in the feed URL; only its hash is stored.
+export function generateFeedToken(): { token: string; prefix: string; hash: string } {
+  const token = `${FEED_TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { token, prefix: token.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashFeedToken(token) };
+}
+
+// RFC 5545 TEXT escaping
+function escapeText(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are folded at 75 octets; continuation lines start with a space.
+function fold(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const len = Buffer.byteLength(ch, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + len > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += len;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function basicDate(isoDate: string): string {
+  return isoDate.replace(/-/g, "");
+}
+
+function basicTimestamp(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Builds an all-day VEVENT per task on its due_date. UIDs are stable per task
+// so calendar apps update events in place when a feed is re-fetched.
+export function buildTaskCalendar(name: string, tasks: FeedTask[], tasksUrl: string): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//FlowTrack//Task due dates//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const t of tasks) {
+    const link = `${tasksUrl}?task=${t.id}`;
+    const status = STATUS_LABELS[t.status];
+    const summary = t.ownerName ? `${t.title} (${t.ownerName})` : t.title;
+    const description = [`Status: ${status}`, t.description?.trim() || null, `Open in FlowTrack: ${link}`]
+      .filter(Boolean)
+      .join("\n\n");
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:task-${t.id}@flowtrack`,
+      `DTSTAMP:${basicTimestamp(t.updated_at)}`,
+      `LAST-MODIFIED:${basicTimestamp(t.updated_at)}`,
+      `DTSTART;VALUE=DATE:${basicDate(t.due_date)}`,
+      `DTEND;VALUE=DATE:${basicDate(addDays(t.due_date, 1))}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `CATEGORIES:${escapeText(status)}`,
+      `URL:${link}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
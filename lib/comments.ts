@@ -0,0 +1,80 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/database.types";
+
+export const MAX_COMMENT_LENGTH = 4000;
+
+type Person = Pick<Tables<"profiles">, "id" | "name" | "email">;
+
+export type TaskAudience = {
+  task: Pick<Tables<"tasks">, "id" | "title" | "owner_id">;
+  // Everyone who can see the task: owner, share recipients (of the task or,
+  // for a subtask, of its parent), owner's manager
+  people: Person[];
+};
+
+// Mirrors the tasks SELECT policies (task_share_permission) for server routes
+// using the admin client.
+export async function loadTaskAudience(
+  supabase: SupabaseClient<Database>,
+  taskId: string
+): Promise<TaskAudience | null> {
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("id,title,owner_id,parent_id")
+    .eq("id", taskId)
+    .maybeSingle();
+  if (!task) return null;
+
+  const { data: owner } = await supabase
+    .from("profiles")
+    .select("manager_id")
+    .eq("id", task.owner_id)
+    .maybeSingle();
+  const { data: shares } = await supabase
+    .from("task_shares")
+    .select("user_id")
+    .in("task_id", task.parent_id ? [task.id, task.parent_id] : [task.id]);
+
+  const ids = new Set<string>([task.owner_id, ...(shares ?? []).map((s) => s.user_id)]);
+  if (owner?.manager_id) ids.add(owner.manager_id);
+
+  const { data: people } = await supabase
+    .from("profiles")
+    .select("id,name,email")
+    .in("id", [...ids]);
+  return { task: { id: task.id, title: task.title, owner_id: task.owner_id }, people: people ?? [] };
+}
+
+// "@jane", "@jane.doe" or "@jane@acme.com"; an email-looking word without a
+// leading @ is not a mention.
+export function extractMentionTokens(body: string): string[] {
+  const tokens = new Set<string>();
+  for (const match of body.matchAll(/(^|[^\w@])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g)) {
+    const token = match[2].replace(/\.+$/, "").toLowerCase();
+    if (token) tokens.add(token);
+  }
+  return [...tokens];
+}
+
+// A token matches a person's email, the part of it before the @, or their name
+// with spaces removed. Tokens matching more than one person are ignored.
+export function resolveMentions(tokens: string[], people: Person[]): string[] {
+  const byKey = new Map<string, Set<string>>();
+  for (const p of people) {
+    const email = (p.email ?? "").toLowerCase();
+    const keys = [email, email.split("@")[0], p.name.replace(/\s+/g, "").toLowerCase()];
+    for (const key of keys) {
+      if (!key) continue;
+      const ids = byKey.get(key) ?? new Set<string>();
+      ids.add(p.id);
+      byKey.set(key, ids);
+    }
+  }
+
+  const resolved = new Set<string>();
+  for (const token of tokens) {
+    const ids = byKey.get(token);
+    if (ids?.size === 1) resolved.add([...ids][0]);
+  }
+  return [...resolved];
+}
@@ -0,0 +1,15 @@
+import type { NextRequest } from "next/server";
+
+// Cron endpoints accept CRON_SECRET either raw or as a Bearer token, in the
+// Authorization or x-cron-secret header.
+export function isAuthorizedCron(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return true; // allow in dev if not set
+  const authHeader = req.headers.get("authorization") || req.headers.get("x-cron-secret");
+  if (!authHeader) return false;
+  if (authHeader === secret) return true;
+  if (authHeader.startsWith("Bearer ")) {
+    return authHeader.slice(7) === secret;
+  }
+  return false;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { isDueSoon, isDueToday, isOverdue, localTimeToUtcIso } from "@/lib/dates";
+
+// UTC-10 and UTC+13 sit on opposite sides of the date line, so the same UTC
+// instant is a different calendar day in each. Neither zone observes DST.
+const HONOLULU = "Pacific/Honolulu"; // UTC-10
+const TONGA = "Pacific/Tongatapu"; // UTC+13
+
+const open = (due_date: string) => ({ status: "todo", due_date });
+
+describe("due-date labels at UTC-10", () => {
+  const lastSecond = new Date("2026-03-11T09:59:59Z"); // 2026-03-10 23:59:59 local
+  const midnight = new Date("2026-03-11T10:00:00Z"); // 2026-03-11 00:00 local
+
+  it("is not overdue until local midnight has passed", () => {
+    expect(isOverdue(open("2026-03-10"), HONOLULU, lastSecond)).toBe(false);
+    expect(isOverdue(open("2026-03-10"), HONOLULU, midnight)).toBe(true);
+  });
+
+  it("is due today on the local calendar day, even when UTC is already tomorrow", () => {
+    expect(isDueToday(open("2026-03-10"), HONOLULU, lastSecond)).toBe(true);
+    expect(isDueToday(open("2026-03-11"), HONOLULU, lastSecond)).toBe(false);
+    expect(isDueToday(open("2026-03-11"), HONOLULU, midnight)).toBe(true);
+  });
+
+  it("is due soon for today and tomorrow only", () => {
+    expect(isDueSoon(open("2026-03-11"), HONOLULU, lastSecond)).toBe(true);
+    expect(isDueSoon(open("2026-03-12"), HONOLULU, lastSecond)).toBe(false);
+    expect(isDueSoon(open("2026-03-12"), HONOLULU, midnight)).toBe(true);
+    expect(isDueSoon(open("2026-03-10"), HONOLULU, midnight)).toBe(false);
+  });
+
+  it("converts local times to the next UTC day", () => {
+    expect(localTimeToUtcIso("23:30", HONOLULU, "2026-03-10")).toBe("2026-03-11T09:30:00.000Z");
+    expect(localTimeToUtcIso("00:00", HONOLULU, "2026-03-11")).toBe("2026-03-11T10:00:00.000Z");
+  });
+});
+
+describe("due-date labels at UTC+13", () => {
+  const lastSecond = new Date("2026-03-10T10:59:59Z"); // 2026-03-10 23:59:59 local
+  const midnight = new Date("2026-03-10T11:00:00Z"); // 2026-03-11 00:00 local
+
+  it("is overdue from local midnight, while UTC is still on the due date", () => {
+    expect(isOverdue(open("2026-03-10"), TONGA, lastSecond)).toBe(false);
+    expect(isOverdue(open("2026-03-10"), TONGA, midnight)).toBe(true);
+  });
+
+  it("is due today on the local calendar day, even when UTC is still yesterday", () => {
+    expect(isDueToday(open("2026-03-10"), TONGA, new Date("2026-03-09T11:00:00Z"))).toBe(true);
+    expect(isDueToday(open("2026-03-10"), TONGA, midnight)).toBe(false);
+    expect(isDueToday(open("2026-03-11"), TONGA, midnight)).toBe(true);
+  });
+
+  it("is due soon for today and tomorrow only", () => {
+    expect(isDueSoon(open("2026-03-11"), TONGA, lastSecond)).toBe(true);
+    expect(isDueSoon(open("2026-03-12"), TONGA, lastSecond)).toBe(false);
+    expect(isDueSoon(open("2026-03-12"), TONGA, midnight)).toBe(true);
+    expect(isDueSoon(open("2026-03-10"), TONGA, midnight)).toBe(false);
+  });
+
+  it("converts local times to the previous UTC day", () => {
+    expect(localTimeToUtcIso("09:00", TONGA, "2026-03-11")).toBe("2026-03-10T20:00:00.000Z");
+    expect(localTimeToUtcIso("00:00", TONGA, "2026-03-11")).toBe("2026-03-10T11:00:00.000Z");
+  });
+});
+
+describe("done tasks", () => {
+  it("are never overdue, due today or due soon", () => {
+    const done = { status: "done", due_date: "2026-03-10" };
+    const at = new Date("2026-03-10T12:00:00Z");
+    for (const tz of [HONOLULU, TONGA]) {
+      expect(isOverdue(done, tz, new Date("2026-03-20T00:00:00Z"))).toBe(false);
+      expect(isDueToday(done, tz, at)).toBe(false);
+      expect(isDueSoon(done, tz, at)).toBe(false);
+    }
+  });
+});
+
+describe("localTimeToUtcIso", () => {
+  it("rejects malformed times", () => {
+    expect(localTimeToUtcIso("24:00", HONOLULU, "2026-03-10")).toBeNull();
+    expect(localTimeToUtcIso("9am", TONGA, "2026-03-10")).toBeNull();
+  });
+});
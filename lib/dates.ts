@@ -0,0 +1,60 @@
+import { DateTime } from "luxon";
+
+// Shared due-date semantics. A task's due_date is a calendar date, so whether
+// it is overdue / due today / due soon depends only on which calendar day it
+// currently is for the user, i.e. in their nudge_configs.timezone. Everything
+// that labels tasks (nudges, manager reports, the task board) goes through
+// here so the same task never gets two different labels.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+type DueTask = { status: string; due_date: string };
+
+// Falls back to UTC for empty or unknown IANA zones.
+export function resolveTimezone(tz?: string | null): string {
+  const zone = (tz ?? "").trim();
+  if (!zone) return DEFAULT_TIMEZONE;
+  return DateTime.now().setZone(zone).isValid ? zone : DEFAULT_TIMEZONE;
+}
+
+// The calendar date (YYYY-MM-DD) it is right now (or at `at`) in `tz`.
+export function localDate(tz: string, at: Date = new Date()): string {
+  return DateTime.fromJSDate(at).setZone(resolveTimezone(tz)).toISODate() as string;
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings; independent of any timezone.
+export function addDays(isoDate: string, days: number): string {
+  return DateTime.fromISO(isoDate, { zone: "UTC" }).plus({ days }).toISODate() as string;
+}
+
+// The calendar date a timestamp falls on in `tz`.
+export function localDateOf(timestampIso: string, tz: string): string {
+  return DateTime.fromISO(timestampIso).setZone(resolveTimezone(tz)).toISODate() as string;
+}
+
+// UTC ISO instant for HH:MM on `onDate` (defaults to today) in `tz`.
+export function localTimeToUtcIso(localTime: string, tz: string, onDate?: string): string | null {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(localTime);
+  if (!match) return null;
+  const zone = resolveTimezone(tz);
+  const day = DateTime.fromISO(onDate ?? localDate(zone), { zone });
+  if (!day.isValid) return null;
+  const scheduled = day.set({ hour: Number(match[1]), minute: Number(match[2]), second: 0, millisecond: 0 });
+  if (!scheduled.isValid) return null;
+  return scheduled.toUTC().toISO();
+}
+
+export function isOverdue(task: DueTask, tz: string, at: Date = new Date()): boolean {
+  return task.status !== "done" && task.due_date < localDate(tz, at);
+}
+
+export function isDueToday(task: DueTask, tz: string, at: Date = new Date()): boolean {
+  return task.status !== "done" && task.due_date === localDate(tz, at);
+}
+
+// Due today or tomorrow (and not done).
+export function isDueSoon(task: DueTask, tz: string, at: Date = new Date()): boolean {
+  if (task.status === "done") return false;
+  const today = localDate(tz, at);
+  return task.due_date >= today && task.due_date <= addDays(today, 1);
+}
@@ -0,0 +1,26 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EmailTransport } from "@/lib/email/types";
+import { buildMimeMessage, generateMessageId } from "@/lib/email/mime";
+
+// Writes each message as an .eml file for local testing; open them with any
+// mail client to check rendering.
+export function createFileDropTransport(dir: string): EmailTransport {
+  return {
+    name: "file",
+    async send({ from, to, subject, html, text }) {
+      const messageId = generateMessageId(from);
+      const eml = buildMimeMessage({ from, to, subject, html, text: text ?? "", messageId });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const safeTo = to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+      const file = path.join(dir, `${stamp}-${safeTo}.eml`);
+      try {
+        await mkdir(dir, { recursive: true });
+        await writeFile(file, eml, "utf8");
+        return { ok: true, messageId };
+      } catch (e) {
+        return { ok: false, retryable: true, error: (e as Error).message };
+      }
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import type { EmailTransport } from "@/lib/email/types";
+
+// Upper bound for one send, response body included; the outbox lease must
+// comfortably outlast it.
+const SEND_TIMEOUT_MS = 15_000;
+
+export type HttpApiConfig = {
+  url: string;
+  apiKey: string;
+};
+
+// Generic JSON-over-HTTP adapter. Most providers (Resend, Postmark, SES via
+// API gateway, ...) accept a POST shaped like this; point EMAIL_HTTP_URL at
+// the provider's send endpoint or at a thin proxy that maps the fields.
+export function createHttpApiTransport(config: HttpApiConfig): EmailTransport {
+  return {
+    name: "http",
+    async send({ from, to, subject, html, text }) {
+      let res: Response;
+      let raw: string;
+      try {
+        res = await fetch(config.url, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            authorization: `Bearer ${config.apiKey}`,
+          },
+          body: JSON.stringify({ from, to, subject, html, text }),
+          signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+        });
+        raw = await res.text();
+      } catch (e) {
+        // Network failures and timeouts are transient; the outbox retries them.
+        const error =
+          (e as Error).name === "TimeoutError" ? `Timed out after ${SEND_TIMEOUT_MS}ms` : (e as Error).message;
+        return { ok: false, retryable: true, error };
+      }
+
+      let body: Record<string, unknown> = {};
+      try {
+        body = raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+      } catch {
+        // non-JSON provider response; keep the raw text for the error
+      }
+
+      if (!res.ok) {
+        const message = typeof body.message === "string" ? body.message : raw || res.statusText;
+        // Throttling and server-side errors are transient; other 4xx are not.
+        const retryable = res.status === 408 || res.status === 429 || res.status >= 500;
+        return { ok: false, retryable, error: `HTTP ${res.status}: ${message}` };
+      }
+
+      const messageId = [body.id, body.messageId, body.MessageID].find((v) => typeof v === "string") as
+        | string
+        | undefined;
+      return { ok: true, messageId: messageId ?? res.headers.get("x-message-id") ?? "" };
+    },
+  };
+}
@@ -0,0 +1,85 @@
+// Server-only mailer. The transport is picked from EMAIL_TRANSPORT:
+//   console (default) - logs messages, for development
+//   smtp              - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS
+//   http              - EMAIL_HTTP_URL, EMAIL_HTTP_API_KEY (provider JSON API)
+//   file              - EMAIL_FILE_DIR (.eml files, defaults to ./.emails)
+// EMAIL_FROM sets the sender for every transport.
+
+import type { EmailTransport, SendEmailInput, SendEmailResult } from "@/lib/email/types";
+import { createSmtpTransport } from "@/lib/email/smtp";
+import { createHttpApiTransport } from "@/lib/email/http";
+import { createFileDropTransport } from "@/lib/email/file";
+import { generateMessageId, htmlToText } from "@/lib/email/mime";
+
+export type { EmailTransport, SendEmailInput, SendEmailResult } from "@/lib/email/types";
+
+const consoleTransport: EmailTransport = {
+  name: "console",
+  async send({ from, to, subject, html }) {
+    // eslint-disable-next-line no-console
+    console.log("==== Email (DEV LOG) ====");
+    // eslint-disable-next-line no-console
+    console.log("From:", from);
+    // eslint-disable-next-line no-console
+    console.log("To:", to);
+    // eslint-disable-next-line no-console
+    console.log("Subject:", subject);
+    // eslint-disable-next-line no-console
+    console.log("Body:\n", html);
+    // eslint-disable-next-line no-console
+    console.log("=========================");
+    return { ok: true, messageId: generateMessageId(from) };
+  },
+};
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing ${name} for EMAIL_TRANSPORT=${process.env.EMAIL_TRANSPORT}.`);
+  }
+  return value;
+}
+
+function createTransportFromEnv(): EmailTransport {
+  const kind = (process.env.EMAIL_TRANSPORT || "console").toLowerCase();
+  switch (kind) {
+    case "console":
+      return consoleTransport;
+    case "smtp":
+      return createSmtpTransport({
+        host: requireEnv("SMTP_HOST"),
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+    case "http":
+      return createHttpApiTransport({
+        url: requireEnv("EMAIL_HTTP_URL"),
+        apiKey: requireEnv("EMAIL_HTTP_API_KEY"),
+      });
+    case "file":
+      return createFileDropTransport(process.env.EMAIL_FILE_DIR || ".emails");
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}". Use console, smtp, http or file.`);
+  }
+}
+
+let cachedTransport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!cachedTransport) cachedTransport = createTransportFromEnv();
+  return cachedTransport;
+}
+
+export async function sendEmail({ to, subject, html, text }: SendEmailInput): Promise<SendEmailResult> {
+  const from = process.env.EMAIL_FROM || "FlowTrack <no-reply@flowtrack.local>";
+  let transport: EmailTransport;
+  try {
+    transport = getEmailTransport();
+  } catch (e) {
+    // Misconfiguration is an operator problem; keep messages retryable.
+    return { ok: false, retryable: true, error: (e as Error).message };
+  }
+  return transport.send({ from, to, subject, html, text: text ?? htmlToText(html) });
+}
@@ -0,0 +1,72 @@
+import crypto from "node:crypto";
+
+// Minimal RFC 5322 / MIME builder used by transports that hand over raw
+// messages (file drop). SMTP delegates to nodemailer, which builds its own.
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/h\d|\/li|\/tr)\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#039;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n\s*\n+/g, "\n\n")
+    .trim();
+}
+
+function encodeHeader(value: string): string {
+  // ASCII headers pass through; anything else becomes an RFC 2047 encoded word.
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(body: string): string {
+  return (Buffer.from(body, "utf8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+}
+
+export function generateMessageId(from: string): string {
+  const domain = from.split("@")[1]?.replace(/[>\s]/g, "") || "flowtrack.local";
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+export function buildMimeMessage(input: {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  messageId: string;
+  date?: Date;
+}): string {
+  const boundary = `flowtrack-${crypto.randomBytes(12).toString("hex")}`;
+  const headers = [
+    `From: ${input.from}`,
+    `To: ${input.to}`,
+    `Subject: ${encodeHeader(input.subject)}`,
+    `Date: ${(input.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${input.messageId}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  return [
+    ...headers,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(input.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(input.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
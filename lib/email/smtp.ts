@@ -0,0 +1,37 @@
+import nodemailer from "nodemailer";
+import type { EmailTransport } from "@/lib/email/types";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+};
+
+type SmtpError = Error & { code?: string; responseCode?: number; response?: string };
+
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass ?? "" } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send({ from, to, subject, html, text }) {
+      try {
+        const info = await transporter.sendMail({ from, to, subject, html, text });
+        return { ok: true, messageId: info.messageId };
+      } catch (e) {
+        const err = e as SmtpError;
+        // 5xx replies are permanent rejections; 4xx and connection-level
+        // failures (no reply code) are worth retrying.
+        const permanent = typeof err.responseCode === "number" && err.responseCode >= 500;
+        return { ok: false, retryable: !permanent, error: err.response || err.message };
+      }
+    },
+  };
+}
@@ -0,0 +1,41 @@
+// Building blocks shared by the email templates. Every template renders both
+// an HTML body and a hand-written plain-text alternative from the same data.
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export function htmlEscape(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => {
+    switch (c) {
+      case "&":
+        return "&amp;";
+      case "<":
+        return "&lt;";
+      case ">":
+        return "&gt;";
+      case '"':
+        return "&quot;";
+      case "'":
+        return "&#039;";
+      default:
+        return c;
+    }
+  });
+}
+
+export function layout(body: string): string {
+  return `<div style="font-family: Arial, Helvetica, sans-serif; line-height:1.5; color:#111;">
+${body}
+</div>`;
+}
+
+export function button(href: string, label: string): string {
+  return `<p><a href="${htmlEscape(href)}" target="_blank" style="display:inline-block;padding:10px 14px;background:#111;color:#fff;text-decoration:none;border-radius:8px;">${htmlEscape(label)}</a></p>`;
+}
+
+export function footnote(text: string): string {
+  return `<p style="font-size:12px;color:#555;">${htmlEscape(text)}</p>`;
+}
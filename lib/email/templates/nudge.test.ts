@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { renderNudgeEmail, type NudgePayload } from "@/lib/email/templates/nudge";
+
+const origin = "https://flowtrack.example";
+const ackUrl = `${origin}/api/nudges/ack?token=ack-token`;
+const actionUrl = (taskId: string, action: string) => `${origin}/api/nudges/action?token=${taskId}.${action}`;
+
+function payload(overrides: Partial<NudgePayload["counts"]>, sample: Partial<NudgePayload["sample"]> = {}): NudgePayload {
+  return {
+    counts: { overdue: 0, dueToday: 0, dueSoon: 0, open: 4, done: 2, shared: 0, ...overrides },
+    sample: { overdue: [], dueToday: [], dueSoon: [], ...sample },
+  };
+}
+
+const attention = payload(
+  { overdue: 3, dueToday: 1, dueSoon: 1 },
+  {
+    overdue: [
+      { id: "t1", title: "Send <Q3> invoices", due: "2026-03-08", status: "todo" },
+      { id: "t2", title: "Renew domain", due: "2026-03-09", status: "in_progress" },
+    ],
+    dueToday: [{ id: "t3", title: "Standup notes", due: "2026-03-10", status: "todo" }],
+    dueSoon: [{ id: "t4", title: "Draft roadmap", due: "2026-03-11", status: "todo" }],
+  }
+);
+
+const shared = payload(
+  { overdue: 1, dueToday: 1, dueSoon: 1, shared: 3 },
+  {
+    overdue: [
+      { id: "s1", title: "Review budget", due: "2026-03-08", status: "todo", shared: true, owner: "Ana", permission: "viewer" },
+    ],
+    dueToday: [
+      { id: "s2", title: "Fix login bug", due: "2026-03-10", status: "todo", shared: true, owner: "Ben", permission: "editor" },
+    ],
+    dueSoon: [
+      { id: "s3", title: "Plan offsite", due: "2026-03-11", status: "in_progress", shared: true, permission: "co_owner" },
+    ],
+  }
+);
+
+describe("renderNudgeEmail", () => {
+  it("renders the all-clear variant", () => {
+    expect(renderNudgeEmail({ origin, name: "Sam", payload: payload({}), ackUrl })).toMatchSnapshot();
+  });
+
+  it("renders the attention variant", () => {
+    expect(renderNudgeEmail({ origin, name: "Sam", payload: attention, ackUrl })).toMatchSnapshot();
+  });
+
+  it("renders the due-soon-only variant", () => {
+    const dueSoon = payload(
+      { dueSoon: 1 },
+      { dueSoon: [{ id: "t4", title: "Draft roadmap", due: "2026-03-11", status: "todo" }] }
+    );
+    expect(renderNudgeEmail({ origin, name: "Sam", payload: dueSoon, ackUrl })).toMatchSnapshot();
+  });
+
+  it("renders shared tasks with their owners", () => {
+    expect(renderNudgeEmail({ origin, name: "Sam", payload: shared, ackUrl })).toMatchSnapshot();
+  });
+
+  it("renders task actions allowed by each permission", () => {
+    expect(renderNudgeEmail({ origin, name: "Sam", payload: attention, ackUrl, actionUrl })).toMatchSnapshot();
+    expect(renderNudgeEmail({ origin, name: "Sam", payload: shared, ackUrl, actionUrl })).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,177 @@
+import { DateTime } from "luxon";
+import { button, footnote, htmlEscape, layout, type RenderedEmail } from "@/lib/email/templates/layout";
+import type { Database } from "@/database.types";
+import type { NudgeTaskAction } from "@/lib/nudge-tokens";
+
+// One sampled task as stored in nudges.payload.sample.
+export type NudgeTaskSample = {
+  id: string;
+  title: string;
+  due: string;
+  status?: Database["public"]["Enums"]["task_status"];
+  shared?: boolean;
+  owner?: string;
+  permission?: Database["public"]["Enums"]["share_permission"];
+};
+
+export type NudgePayload = {
+  counts: {
+    overdue: number;
+    dueToday: number;
+    dueSoon: number;
+    open: number;
+    done: number;
+    shared: number;
+  };
+  sample: {
+    overdue: NudgeTaskSample[];
+    dueToday: NudgeTaskSample[];
+    dueSoon: NudgeTaskSample[];
+  };
+};
+
+export type NudgeEmailInput = {
+  origin: string;
+  name: string;
+  payload: NudgePayload;
+  ackUrl: string;
+  // Signed one-click link for a task action; omit to render without actions
+  actionUrl?: (taskId: string, action: NudgeTaskAction) => string;
+};
+
+const ACTION_LABELS: Record<NudgeTaskAction, string> = {
+  done: "Mark done",
+  in_progress: "I'm working on it",
+  snooze: "Snooze 1 day",
+};
+
+type Section = {
+  heading: string;
+  count: number;
+  tasks: NudgeTaskSample[];
+};
+
+export function taskUrl(origin: string, taskId: string): string {
+  const u = new URL("/tasks", origin);
+  u.searchParams.set("task", taskId);
+  return u.toString();
+}
+
+function formatDue(due: string): string {
+  const d = DateTime.fromISO(due);
+  return d.isValid ? d.toFormat("LLL d") : due;
+}
+
+function sectionsOf(payload: NudgePayload): Section[] {
+  return [
+    { heading: "Overdue", count: payload.counts.overdue, tasks: payload.sample.overdue },
+    { heading: "Due today", count: payload.counts.dueToday, tasks: payload.sample.dueToday },
+    { heading: "Due soon", count: payload.counts.dueSoon, tasks: payload.sample.dueSoon },
+  ].filter((s) => s.count > 0);
+}
+
+function sharedNote(t: NudgeTaskSample): string {
+  return t.shared ? `shared by ${t.owner ?? "someone"}` : "";
+}
+
+// Mirrors what the recipient may change: viewers nothing, editors status only,
+// owners and co-owners also the due date.
+function actionsFor(t: NudgeTaskSample): NudgeTaskAction[] {
+  if (t.shared && t.permission !== "editor" && t.permission !== "co_owner") return [];
+  const actions: NudgeTaskAction[] = ["done"];
+  if (t.status !== "in_progress") actions.push("in_progress");
+  if (!t.shared || t.permission === "co_owner") actions.push("snooze");
+  return actions;
+}
+
+function renderSectionHtml(origin: string, s: Section, actionUrl?: NudgeEmailInput["actionUrl"]): string {
+  const items = s.tasks
+    .map((t) => {
+      const meta = [`due ${formatDue(t.due)}`, sharedNote(t)].filter(Boolean).join(" · ");
+      const links = actionUrl
+        ? actionsFor(t)
+            .map(
+              (a) => `<a href="${htmlEscape(actionUrl(t.id, a))}" target="_blank" style="color:#2563eb;">${ACTION_LABELS[a]}</a>`
+            )
+            .join(" · ")
+        : "";
+      return `    <li><a href="${htmlEscape(taskUrl(origin, t.id))}" target="_blank" style="color:#111;">${htmlEscape(
+        t.title
+      )}</a> <span style="color:#555;">(${htmlEscape(meta)})</span>${
+        links ? `<br /><span style="font-size:13px;">${links}</span>` : ""
+      }</li>`;
+    })
+    .join("\n");
+  const more = s.count > s.tasks.length ? `\n    <li style="color:#555;">and ${s.count - s.tasks.length} more</li>` : "";
+  return `  <h3 style="margin:16px 0 4px;">${s.heading} (${s.count})</h3>
+  <ul style="margin:0;padding-left:20px;">
+${items}${more}
+  </ul>`;
+}
+
+function renderSectionText(origin: string, s: Section, actionUrl?: NudgeEmailInput["actionUrl"]): string {
+  const items = s.tasks.map((t) => {
+    const meta = [`due ${formatDue(t.due)}`, sharedNote(t)].filter(Boolean).join(", ");
+    const links = actionUrl ? actionsFor(t).map((a) => `\n  ${ACTION_LABELS[a]}: ${actionUrl(t.id, a)}`) : [];
+    return `- ${t.title} (${meta})\n  ${taskUrl(origin, t.id)}${links.join("")}`;
+  });
+  if (s.count > s.tasks.length) items.push(`- and ${s.count - s.tasks.length} more`);
+  return `${s.heading} (${s.count})\n${items.join("\n")}`;
+}
+
+// Two variants: a task list when something needs attention, otherwise an
+// all-clear note. Both carry the acknowledgement link.
+export function renderNudgeEmail({ origin, name, payload, ackUrl, actionUrl }: NudgeEmailInput): RenderedEmail {
+  const sections = sectionsOf(payload);
+  const { open, done } = payload.counts;
+  const tasksLink = new URL("/tasks", origin).toString();
+
+  if (sections.length === 0) {
+    return {
+      subject: "Your FlowTrack nudge: all clear",
+      html: layout(`  <h2>Hi ${htmlEscape(name)}, you're all caught up ✅</h2>
+  <p>Nothing is overdue or due in the next day. You have ${open} open and ${done} done task(s).</p>
+  ${button(ackUrl, "I'm up to date")}
+  ${footnote("This link records your acknowledgement.")}`),
+      text: [
+        `Hi ${name}, you're all caught up.`,
+        "",
+        `Nothing is overdue or due in the next day. You have ${open} open and ${done} done task(s).`,
+        "",
+        `Open your tasks: ${tasksLink}`,
+        `I'm up to date: ${ackUrl}`,
+        "",
+        "The last link records your acknowledgement.",
+      ].join("\n"),
+    };
+  }
+
+  const attention = payload.counts.overdue + payload.counts.dueToday;
+  const subject =
+    attention > 0 ? `Your FlowTrack nudge: ${attention} task(s) need attention` : "Your FlowTrack nudge: tasks due soon";
+
+  return {
+    subject,
+    html: layout(`  <h2>Hi ${htmlEscape(name)}, quick task check-in ⚡</h2>
+  <p>${open} open task(s), ${done} done.</p>
+${sections.map((s) => renderSectionHtml(origin, s, actionUrl)).join("\n")}
+  <p>Tap below once you've reviewed or updated your tasks:</p>
+  ${button(ackUrl, "I'm up to date")}
+  ${footnote(
+    actionUrl
+      ? "This link records your acknowledgement, as does any task action above. Links work once and expire after 3 days."
+      : "This link records your acknowledgement. It works once and expires after 3 days."
+  )}`),
+    text: [
+      `Hi ${name}, quick task check-in.`,
+      `${open} open task(s), ${done} done.`,
+      "",
+      sections.map((s) => renderSectionText(origin, s, actionUrl)).join("\n\n"),
+      "",
+      `Open your tasks: ${tasksLink}`,
+      `I'm up to date: ${ackUrl}`,
+      "",
+      "The last link records your acknowledgement.",
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,133 @@
+import { DateTime } from "luxon";
+import { htmlEscape, layout, type RenderedEmail } from "@/lib/email/templates/layout";
+import type { Database } from "@/database.types";
+
+export type RollupPeriod = Exclude<Database["public"]["Enums"]["report_period"], "daily">;
+
+export type RollupMember = {
+  name: string;
+  // Tasks moved to done during the period, each counted once
+  completed: number;
+  // Mean of completion date minus due date, in days; negative means early
+  avgLatenessDays: number | null;
+  // Overdue count per daily report in the period, oldest first
+  overdueTrend: number[];
+};
+
+export type OverdueTask = {
+  taskId: string;
+  title: string;
+  owner: string;
+  dueDate: string;
+  daysOverdue: number;
+};
+
+// Shape of manager_reports.summary for weekly and monthly rows.
+export type RollupSummary = {
+  period: RollupPeriod;
+  start: string;
+  end: string;
+  team: {
+    completed: number;
+    avgLatenessDays: number | null;
+    overdueTrend: { date: string; overdue: number }[];
+  };
+  perUser: Record<string, RollupMember>;
+  mostOverdue: OverdueTask[];
+};
+
+export const PERIOD_LABELS: Record<RollupPeriod, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+export function formatLateness(days: number | null): string {
+  if (days === null) return "—";
+  const rounded = Math.round(Math.abs(days) * 10) / 10;
+  if (rounded === 0) return "on time";
+  return `${rounded} day${rounded === 1 ? "" : "s"} ${days > 0 ? "late" : "early"}`;
+}
+
+export function formatPeriod(start: string, end: string): string {
+  return `${DateTime.fromISO(start).toFormat("LLL d")} – ${DateTime.fromISO(end).toFormat("LLL d, yyyy")}`;
+}
+
+function trendText(trend: number[]): string {
+  if (trend.length === 0) return "—";
+  return `${trend[0]} → ${trend[trend.length - 1]}`;
+}
+
+const cell = "padding:8px 12px;border:1px solid #eee;";
+const headCell = `text-align:left;${cell}`;
+
+export function renderRollupEmail(summary: RollupSummary): RenderedEmail {
+  const label = PERIOD_LABELS[summary.period];
+  const range = formatPeriod(summary.start, summary.end);
+  const members = Object.values(summary.perUser);
+
+  const memberRows = members
+    .map(
+      (u) => `
+      <tr>
+        <td style="${cell}">${htmlEscape(u.name)}</td>
+        <td style="${cell}">${u.completed}</td>
+        <td style="${cell}">${formatLateness(u.avgLatenessDays)}</td>
+        <td style="${cell}">${trendText(u.overdueTrend)}</td>
+      </tr>`
+    )
+    .join("");
+
+  const overdueItems = summary.mostOverdue
+    .map(
+      (t) =>
+        `    <li>${htmlEscape(t.title)} <span style="color:#555;">(${htmlEscape(t.owner)}, due ${htmlEscape(
+          t.dueDate
+        )}, ${t.daysOverdue} day(s) overdue)</span></li>`
+    )
+    .join("\n");
+
+  const teamTrend = summary.team.overdueTrend.map((d) => d.overdue);
+
+  const html = layout(`  <h2>${label} team rollup: ${htmlEscape(range)}</h2>
+  <p>${summary.team.completed} task(s) completed. Average lateness: ${formatLateness(
+    summary.team.avgLatenessDays
+  )}. Team overdue count: ${trendText(teamTrend)}.</p>
+  <table style="border-collapse: collapse; width:100%; font-size:14px;">
+    <thead>
+      <tr>
+        <th style="${headCell}">Team member</th>
+        <th style="${headCell}">Completed</th>
+        <th style="${headCell}">Avg lateness</th>
+        <th style="${headCell}">Overdue (start → end)</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${memberRows || `<tr><td colspan="4" style="${cell}">No team members</td></tr>`}
+    </tbody>
+  </table>
+  <h3 style="margin:16px 0 4px;">Most overdue tasks</h3>
+  ${
+    overdueItems
+      ? `<ul style="margin:0;padding-left:20px;">\n${overdueItems}\n  </ul>`
+      : "<p>Nothing is overdue.</p>"
+  }`);
+
+  const text = [
+    `${label} team rollup: ${range}`,
+    "",
+    `${summary.team.completed} task(s) completed. Average lateness: ${formatLateness(summary.team.avgLatenessDays)}.`,
+    `Team overdue count: ${trendText(teamTrend)}.`,
+    "",
+    ...members.map(
+      (u) =>
+        `- ${u.name}: ${u.completed} completed, ${formatLateness(u.avgLatenessDays)}, overdue ${trendText(u.overdueTrend)}`
+    ),
+    "",
+    "Most overdue tasks:",
+    ...(summary.mostOverdue.length > 0
+      ? summary.mostOverdue.map((t) => `- ${t.title} (${t.owner}, due ${t.dueDate}, ${t.daysOverdue} day(s) overdue)`)
+      : ["Nothing is overdue."]),
+  ].join("\n");
+
+  return { subject: `FlowTrack - ${label} team rollup (${range})`, html, text };
+}
@@ -0,0 +1,17 @@
+export type SendEmailInput = {
+  to: string;
+  subject: string;
+  html: string;
+  // Plain-text alternative; derived from html when omitted.
+  text?: string;
+};
+
+// Structured outcome so callers can decide whether to retry.
+export type SendEmailResult =
+  | { ok: true; messageId: string }
+  | { ok: false; retryable: boolean; error: string };
+
+export type EmailTransport = {
+  name: string;
+  send(input: SendEmailInput & { from: string }): Promise<SendEmailResult>;
+};
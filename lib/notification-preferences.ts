@@ -0,0 +1,95 @@
+import { DateTime } from "luxon";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/database.types";
+import { localDate, resolveTimezone } from "@/lib/dates";
+
+export type NotificationChannel = Database["public"]["Enums"]["notification_channel"];
+export type NotificationEvent = "nudge" | "share_received" | "share_revoked" | "mention" | "daily_report";
+export type NotificationPreferences = Omit<Tables<"notification_preferences">, "user_id" | "updated_at">;
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ["email", "in_app", "webhook"];
+
+export const EVENT_COLUMNS = {
+  nudge: "nudge_channels",
+  share_received: "share_received_channels",
+  share_revoked: "share_revoked_channels",
+  mention: "mention_channels",
+  // Covers every manager report, weekly and monthly rollups included
+  daily_report: "daily_report_channels",
+} as const satisfies Record<NotificationEvent, keyof NotificationPreferences>;
+
+// Same as the column defaults, for users who never saved preferences
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  nudge_channels: ["email", "in_app"],
+  share_received_channels: ["in_app"],
+  share_revoked_channels: ["in_app"],
+  mention_channels: ["email", "in_app"],
+  daily_report_channels: ["email", "in_app"],
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  vacation_until: null,
+};
+
+export type NotificationSettings = {
+  prefs: NotificationPreferences;
+  // From nudge_configs; quiet hours and vacation dates are read in this zone
+  timezone: string;
+};
+
+// Every requested user gets an entry, falling back to the defaults.
+export async function loadNotificationSettings(
+  supabase: SupabaseClient<Database>,
+  userIds: string[]
+): Promise<Map<string, NotificationSettings>> {
+  const byUser = new Map<string, NotificationSettings>();
+  if (userIds.length === 0) return byUser;
+  const [{ data: prefs }, { data: configs }] = await Promise.all([
+    supabase.from("notification_preferences").select("*").in("user_id", userIds),
+    supabase.from("nudge_configs").select("user_id,timezone").in("user_id", userIds),
+  ]);
+  for (const id of userIds) {
+    byUser.set(id, {
+      prefs: (prefs ?? []).find((p) => p.user_id === id) ?? DEFAULT_PREFERENCES,
+      timezone: resolveTimezone((configs ?? []).find((c) => c.user_id === id)?.timezone),
+    });
+  }
+  return byUser;
+}
+
+// Vacation lasts through vacation_until in the user's timezone
+export function isOnVacation({ prefs, timezone }: NotificationSettings, at: Date = new Date()): boolean {
+  return !!prefs.vacation_until && localDate(timezone, at) <= prefs.vacation_until;
+}
+
+// The window may wrap past midnight, e.g. 22:00-07:00
+export function isQuietTime({ prefs, timezone }: NotificationSettings, at: Date = new Date()): boolean {
+  const { quiet_hours_start: start, quiet_hours_end: end } = prefs;
+  if (!start || !end || start === end) return false;
+  const now = DateTime.fromJSDate(at).setZone(timezone).toFormat("HH:mm");
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+// When the current quiet window ends, or null outside quiet hours. Email and
+// webhook notifications raised inside the window are held until then.
+export function quietHoursEnd(settings: NotificationSettings, at: Date = new Date()): Date | null {
+  if (!isQuietTime(settings, at)) return null;
+  const [hour, minute] = (settings.prefs.quiet_hours_end as string).split(":").map(Number);
+  const now = DateTime.fromJSDate(at).setZone(settings.timezone);
+  const end = now.set({ hour, minute, second: 0, millisecond: 0 });
+  return (end <= now ? end.plus({ days: 1 }) : end).toJSDate();
+}
+
+// Where an event goes. On vacation only the in-app inbox is used, since it
+// waits silently until the user looks. Quiet hours keep every channel; the
+// caller defers the noisy ones with quietHoursEnd.
+export function activeChannels(
+  settings: NotificationSettings,
+  event: NotificationEvent,
+  at: Date = new Date()
+): NotificationChannel[] {
+  const chosen = settings.prefs[EVENT_COLUMNS[event]];
+  if (isOnVacation(settings, at)) {
+    return chosen.filter((c) => c === "in_app");
+  }
+  return chosen;
+}
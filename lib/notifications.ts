@@ -0,0 +1,107 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@/database.types";
+import { enqueueEmail, type EnqueueEmailInput, type EnqueueResult } from "@/lib/outbox";
+import { NOTIFICATION_EVENT } from "@/lib/webhook-events";
+import {
+  activeChannels,
+  quietHoursEnd,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationSettings,
+} from "@/lib/notification-preferences";
+
+export type NotificationType = Database["public"]["Enums"]["notification_type"];
+
+export type NotifyInput = {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  // In-app path opened when the notification is clicked
+  link?: string | null;
+  sourceId?: string | null;
+};
+
+// Writes in-app notifications; the bell on /tasks picks them up over Realtime.
+// Call with the admin client: users cannot insert notifications themselves.
+export async function notify(
+  supabase: SupabaseClient<Database>,
+  input: NotifyInput | NotifyInput[]
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const rows = (Array.isArray(input) ? input : [input]).map((n) => ({
+    user_id: n.userId,
+    type: n.type,
+    title: n.title,
+    body: n.body ?? null,
+    link: n.link ?? null,
+    source_id: n.sourceId ?? null,
+  }));
+  if (rows.length === 0) return { ok: true };
+
+  const { error } = await supabase.from("notifications").insert(rows);
+  if (error) return { ok: false, error: error.message };
+  return { ok: true };
+}
+
+export type EventDelivery = {
+  userId: string;
+  event: NotificationEvent;
+  // Omitted when the recipient has no email address
+  email?: EnqueueEmailInput | null;
+  inApp: Omit<NotifyInput, "userId">;
+  webhook: Record<string, unknown>;
+};
+
+export type DeliveryResult = {
+  // Channels the preferences allowed at this moment
+  channels: NotificationChannel[];
+  // Set during quiet hours: email and webhook go out at this time instead
+  deferredUntil: Date | null;
+  delivered: NotificationChannel[];
+  email: EnqueueResult | null;
+  errors: string[];
+};
+
+// Sends one event over the channels the recipient wants. Email goes first; if
+// it cannot be queued (other than as a duplicate) nothing else is sent, so the
+// caller can retry the whole delivery. During quiet hours the in-app inbox is
+// written now while email and webhook are queued for the end of the window.
+export async function deliverEvent(
+  supabase: SupabaseClient<Database>,
+  settings: NotificationSettings,
+  delivery: EventDelivery,
+  at: Date = new Date()
+): Promise<DeliveryResult> {
+  const channels = activeChannels(settings, delivery.event, at);
+  const deferredUntil = quietHoursEnd(settings, at);
+  const result: DeliveryResult = { channels, deferredUntil, delivered: [], email: null, errors: [] };
+
+  if (channels.includes("email") && delivery.email) {
+    result.email = await enqueueEmail(supabase, { ...delivery.email, notBefore: deferredUntil });
+    if (result.email.ok) {
+      result.delivered.push("email");
+    } else if (!result.email.duplicate) {
+      result.errors.push(`email: ${result.email.error}`);
+      return result;
+    }
+  }
+  if (channels.includes("in_app")) {
+    const notified = await notify(supabase, { userId: delivery.userId, ...delivery.inApp });
+    if (notified.ok) result.delivered.push("in_app");
+    else result.errors.push(`in_app: ${notified.error}`);
+  }
+  if (channels.includes("webhook")) {
+    // Queued on the recipient's "notification" subscriptions; the webhooks
+    // worker signs and retries them
+    const { data: queued, error } = await supabase.rpc("enqueue_webhook_event", {
+      p_user_ids: [delivery.userId],
+      p_event: NOTIFICATION_EVENT,
+      p_data: { type: delivery.event, user_id: delivery.userId, ...delivery.webhook } as Json,
+      ...(deferredUntil ? { p_not_before: deferredUntil.toISOString() } : {}),
+    });
+    if (error) result.errors.push(`webhook: ${error.message}`);
+    else if (!queued) result.errors.push("webhook: no webhook subscribes to notifications");
+    else result.delivered.push("webhook");
+  }
+  return result;
+}
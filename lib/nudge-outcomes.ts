@@ -0,0 +1,89 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/database.types";
+
+type Nudge = Tables<"nudges">;
+
+// Nudge engagement, from least to most: sent, acknowledged (the user clicked
+// "I'm up to date") and updated (the user changed tasks before the next nudge).
+
+export type NudgeRates = {
+  sent: number;
+  acknowledged: number;
+  // Nudges whose window is closed; only these can count as updated
+  evaluated: number;
+  updated: number;
+  ackRate: number | null;
+  updateRate: number | null;
+};
+
+export function nudgeRates(
+  nudges: Pick<Nudge, "sent_at" | "acknowledged_at" | "outcome_checked_at" | "updated_task_ids">[]
+): NudgeRates {
+  const sent = nudges.filter((n) => n.sent_at);
+  const acknowledged = sent.filter((n) => n.acknowledged_at).length;
+  const evaluated = sent.filter((n) => n.outcome_checked_at);
+  const updated = evaluated.filter((n) => n.updated_task_ids.length > 0).length;
+  return {
+    sent: sent.length,
+    acknowledged,
+    evaluated: evaluated.length,
+    updated,
+    ackRate: sent.length > 0 ? acknowledged / sent.length : null,
+    updateRate: evaluated.length > 0 ? updated / evaluated.length : null,
+  };
+}
+
+export function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+// Closes the outcome window of every sent, unevaluated nudge for the user:
+// each runs from its sent_at to the next nudge's sent_at, the last one to
+// `until` (the moment the next nudge goes out). Tasks the user changed in the
+// window are stored on the nudge, which becomes "updated" if there were any.
+export async function recordNudgeUpdates(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  until: Date
+): Promise<number> {
+  const untilIso = until.toISOString();
+  const { data: open } = await supabase
+    .from("nudges")
+    .select("id,sent_at,status")
+    .eq("user_id", userId)
+    .not("sent_at", "is", null)
+    .lt("sent_at", untilIso)
+    .is("outcome_checked_at", null)
+    .order("sent_at", { ascending: true });
+  if (!open || open.length === 0) return 0;
+
+  const { data: events } = await supabase
+    .from("task_events")
+    .select("task_id,created_at")
+    .eq("actor_id", userId)
+    .gte("created_at", open[0].sent_at as string)
+    .lt("created_at", untilIso);
+
+  let updatedCount = 0;
+  for (let i = 0; i < open.length; i++) {
+    const start = Date.parse(open[i].sent_at as string);
+    const end = i + 1 < open.length ? Date.parse(open[i + 1].sent_at as string) : until.getTime();
+    const taskIds = new Set<string>();
+    for (const e of events ?? []) {
+      const at = Date.parse(e.created_at);
+      if (at >= start && at < end) taskIds.add(e.task_id);
+    }
+
+    const changed = taskIds.size > 0 && (open[i].status === "sent" || open[i].status === "acknowledged");
+    await supabase
+      .from("nudges")
+      .update({
+        updated_task_ids: [...taskIds],
+        outcome_checked_at: untilIso,
+        ...(changed ? { status: "updated" as const } : {}),
+      })
+      .eq("id", open[i].id);
+    if (taskIds.size > 0) updatedCount += 1;
+  }
+  return updatedCount;
+}
@@ -0,0 +1,120 @@
+import crypto from "node:crypto";
+import type { Database } from "@/database.types";
+
+// HMAC-signed links embedded in nudge emails: the acknowledgement link and the
+// per-task action links. Tokens look like `v1.<kid>.<exp>.<sig>`, where kid
+// names the signing key and exp is a unix timestamp in seconds. The signature
+// covers the version, purpose, link fields and expiry.
+//
+// Keys: ACK_SECRET signs new links under ACK_KEY_ID (default "k1").
+// ACK_PREVIOUS_SECRETS ("kid:secret,kid:secret") is still accepted when
+// verifying, so a rotated secret doesn't break links already sent.
+
+export type NudgeTaskAction = Database["public"]["Enums"]["nudge_action"];
+
+const TOKEN_VERSION = "v1";
+const DEV_SECRET = "dev-ack-secret";
+
+// Links stop working after this long. Each one is also single-use: the ack
+// route only acknowledges once and nudge_actions rejects a repeated action.
+export const LINK_TTL_MS = 72 * 60 * 60 * 1000;
+
+type SigningKey = { kid: string; secret: string };
+
+// Throws in production when ACK_SECRET is unset; called from instrumentation
+// so the server refuses to start rather than sign with the dev secret.
+export function assertAckSecretConfigured(): void {
+  if (process.env.NODE_ENV === "production" && !process.env.ACK_SECRET) {
+    throw new Error("ACK_SECRET must be set in production");
+  }
+}
+
+function currentKey(): SigningKey {
+  assertAckSecretConfigured();
+  return { kid: process.env.ACK_KEY_ID || "k1", secret: process.env.ACK_SECRET || DEV_SECRET };
+}
+
+function keyFor(kid: string): SigningKey | undefined {
+  const current = currentKey();
+  if (kid === current.kid) return current;
+  for (const entry of (process.env.ACK_PREVIOUS_SECRETS ?? "").split(",")) {
+    const at = entry.indexOf(":");
+    if (at > 0 && entry.slice(0, at).trim() === kid) {
+      return { kid, secret: entry.slice(at + 1).trim() };
+    }
+  }
+  return undefined;
+}
+
+function hmac(secret: string, message: string): string {
+  return crypto.createHmac("sha256", secret).update(message).digest("hex");
+}
+
+function signatureMatches(expected: string, token: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(token);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function payloadOf(fields: string[], expiresAt: number): string {
+  return [TOKEN_VERSION, ...fields, expiresAt].join(":");
+}
+
+function signToken(fields: string[], now: number): string {
+  const key = currentKey();
+  const expiresAt = Math.floor((now + LINK_TTL_MS) / 1000);
+  return [TOKEN_VERSION, key.kid, expiresAt, hmac(key.secret, payloadOf(fields, expiresAt))].join(".");
+}
+
+// Never throws: malformed, unknown-key and expired tokens all return false.
+function verifySignedToken(fields: string[], token: string, now: number): boolean {
+  const parts = token.split(".");
+  if (parts.length !== 4 || parts[0] !== TOKEN_VERSION) return false;
+  const [, kid, exp, signature] = parts;
+  const expiresAt = Number(exp);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 <= now) return false;
+  const key = keyFor(kid);
+  if (!key) return false;
+  return signatureMatches(hmac(key.secret, payloadOf(fields, expiresAt)), signature);
+}
+
+export function buildAckToken(nudgeId: string, userId: string, now: number = Date.now()): string {
+  return signToken(["ack", nudgeId, userId], now);
+}
+
+export function verifyAckToken(nudgeId: string, userId: string, token: string, now: number = Date.now()): boolean {
+  return verifySignedToken(["ack", nudgeId, userId], token, now);
+}
+
+export function buildAckUrl(origin: string, nudgeId: string, userId: string): string {
+  const u = new URL("/api/nudges/ack", origin);
+  u.searchParams.set("i", nudgeId);
+  u.searchParams.set("u", userId);
+  u.searchParams.set("t", buildAckToken(nudgeId, userId));
+  return u.toString();
+}
+
+export function buildActionUrl(
+  origin: string,
+  nudgeId: string,
+  taskId: string,
+  action: NudgeTaskAction,
+  now: number = Date.now()
+): string {
+  const u = new URL("/api/nudges/action", origin);
+  u.searchParams.set("n", nudgeId);
+  u.searchParams.set("k", taskId);
+  u.searchParams.set("a", action);
+  u.searchParams.set("t", signToken(["action", nudgeId, taskId, action], now));
+  return u.toString();
+}
+
+export function verifyActionToken(
+  nudgeId: string,
+  taskId: string,
+  action: NudgeTaskAction,
+  token: string,
+  now: number = Date.now()
+): boolean {
+  return verifySignedToken(["action", nudgeId, taskId, action], token, now);
+}
@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/database.types";
+import type { SendEmailInput } from "@/lib/email";
+
+export type OutboxRow = Tables<"email_outbox">;
+
+// Rows that produced an outbox message; the worker reports back to them.
+export type OutboxSource = "nudge" | "manager_report" | "team_invite" | "task_comment" | "task_share";
+
+export type EnqueueEmailInput = SendEmailInput & {
+  source: OutboxSource;
+  sourceId?: string | null;
+  // Hold the message until then (e.g. the end of the recipient's quiet hours)
+  notBefore?: Date | null;
+};
+
+const BASE_BACKOFF_MS = 60_000;
+const MAX_BACKOFF_MS = 60 * 60_000;
+
+export function defaultMaxAttempts(): number {
+  const n = Number(process.env.EMAIL_MAX_ATTEMPTS);
+  return Number.isInteger(n) && n > 0 ? n : 5;
+}
+
+// Exponential backoff with jitter: ~1m, 2m, 4m, ... capped at one hour.
+export function nextAttemptDelayMs(attempts: number): number {
+  const exp = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(exp * (0.8 + Math.random() * 0.4));
+}
+
+export type EnqueueResult = { ok: true; id: string } | { ok: false; duplicate: boolean; error: string };
+
+export async function enqueueEmail(
+  supabase: SupabaseClient<Database>,
+  input: EnqueueEmailInput
+): Promise<EnqueueResult> {
+  const { data, error } = await supabase
+    .from("email_outbox")
+    .insert({
+      to_email: input.to,
+      subject: input.subject,
+      html: input.html,
+      text_body: input.text ?? null,
+      source: input.source,
+      source_id: input.sourceId ?? null,
+      max_attempts: defaultMaxAttempts(),
+      ...(input.notBefore ? { next_attempt_at: input.notBefore.toISOString() } : {}),
+    })
+    .select("id")
+    .single();
+
+  // 23505: a unique index already holds this message (e.g. one row per nudge).
+  if (error) return { ok: false, duplicate: error.code === "23505", error: error.message };
+  return { ok: true, id: data.id };
+}
+
+// Mirror the final delivery state onto the row that produced the message.
+export async function applyDeliveryOutcome(
+  supabase: SupabaseClient<Database>,
+  row: OutboxRow,
+  outcome: "sent" | "dead"
+): Promise<void> {
+  if (!row.source_id) return;
+  const now = new Date().toISOString();
+
+  switch (row.source as OutboxSource) {
+    case "nudge":
+      await supabase
+        .from("nudges")
+        .update(outcome === "sent" ? { status: "sent", sent_at: now } : { status: "failed" })
+        .eq("id", row.source_id)
+        .eq("status", "queued");
+      break;
+    case "manager_report":
+      await supabase
+        .from("manager_reports")
+        .update(outcome === "sent" ? { status: "sent", sent_at: now } : { status: "failed" })
+        .eq("id", row.source_id);
+      break;
+    default:
+      break;
+  }
+}
+
+// Re-driving a dead-lettered message puts its source back into the in-flight
+// state so the worker's outcome is applied again.
+export async function requeueSource(supabase: SupabaseClient<Database>, row: OutboxRow): Promise<void> {
+  if (!row.source_id) return;
+
+  switch (row.source as OutboxSource) {
+    case "nudge":
+      await supabase.from("nudges").update({ status: "queued" }).eq("id", row.source_id).eq("status", "failed");
+      break;
+    case "manager_report":
+      await supabase.from("manager_reports").update({ status: "scheduled" }).eq("id", row.source_id);
+      break;
+    default:
+      break;
+  }
+}
@@ -0,0 +1,158 @@
+// Minimal PDF writer for printable exports: A4 pages, the built-in Helvetica
+// fonts (no embedding) and simple text/table blocks. Text is limited to
+// WinAnsi; anything outside Latin-1 is replaced.
+
+export type PdfBlock =
+  | { type: "heading"; text: string }
+  | { type: "subheading"; text: string }
+  | { type: "text"; text: string }
+  | { type: "table"; columns: string[]; rows: string[][] };
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+// Average Helvetica glyph width relative to the font size; used to wrap and truncate
+const AVG_CHAR_WIDTH = 0.52;
+
+const REPLACEMENTS: Record<string, string> = {
+  "–": "-",
+  "—": "-",
+  "→": "->",
+  "…": "...",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+};
+
+function sanitize(text: string): string {
+  return text
+    .replace(/[–—→…‘’“”]/g, (c) => REPLACEMENTS[c])
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+function fitText(text: string, width: number, size: number): string {
+  const max = Math.floor(width / (size * AVG_CHAR_WIDTH));
+  return text.length <= max ? text : `${text.slice(0, Math.max(0, max - 3))}...`;
+}
+
+function wrapText(text: string, width: number, size: number): string[] {
+  const max = Math.floor(width / (size * AVG_CHAR_WIDTH));
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/)) {
+    if (line && line.length + 1 + word.length > max) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+class PageWriter {
+  pages: string[][] = [[]];
+  y = PAGE_HEIGHT - MARGIN;
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensure(height: number) {
+    if (this.y - height < MARGIN) this.newPage();
+  }
+
+  text(x: number, text: string, size: number, bold = false) {
+    this.ops.push(`BT /${bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(1)} ${this.y.toFixed(1)} Td (${sanitize(text)}) Tj ET`);
+  }
+
+  rule(y: number) {
+    this.ops.push(`0.8 G ${MARGIN} ${y.toFixed(1)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(1)} l S 0 G`);
+  }
+}
+
+function layoutBlocks(blocks: PdfBlock[]): string[][] {
+  const w = new PageWriter();
+  for (const block of blocks) {
+    if (block.type === "heading" || block.type === "subheading") {
+      const size = block.type === "heading" ? 16 : 12;
+      w.ensure(size * 2 + 20);
+      w.y -= size + 6;
+      w.text(MARGIN, fitText(block.text, CONTENT_WIDTH, size), size, true);
+      w.y -= 8;
+    } else if (block.type === "text") {
+      for (const line of wrapText(block.text, CONTENT_WIDTH, 10)) {
+        w.ensure(14);
+        w.y -= 14;
+        w.text(MARGIN, line, 10);
+      }
+      w.y -= 6;
+    } else {
+      const colWidth = CONTENT_WIDTH / block.columns.length;
+      const rowHeight = 16;
+      const header = () => {
+        w.y -= rowHeight;
+        block.columns.forEach((c, i) => w.text(MARGIN + i * colWidth, fitText(c, colWidth - 6, 9), 9, true));
+        w.rule(w.y - 5);
+      };
+      w.ensure(rowHeight * 2);
+      header();
+      for (const row of block.rows) {
+        // Tables continue on the next page with the header repeated
+        if (w.y - rowHeight < MARGIN) {
+          w.newPage();
+          header();
+        }
+        w.y -= rowHeight;
+        row.forEach((cell, i) => w.text(MARGIN + i * colWidth, fitText(cell, colWidth - 6, 9), 9));
+      }
+      w.y -= 10;
+    }
+  }
+  return w.pages;
+}
+
+// Serialises the document; offsets in the xref table are byte offsets, which
+// match string offsets because every character is Latin-1.
+export function renderPdf(blocks: PdfBlock[]): Buffer {
+  const pages = layoutBlocks(blocks);
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  pages.forEach((ops, i) => {
+    const pageId = pageIds[i];
+    const footer = `BT /F1 8 Tf ${MARGIN} 30 Td (Page ${i + 1} of ${pages.length}) Tj ET`;
+    const stream = [...ops, footer].join("\n");
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefAt = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
@@ -0,0 +1,123 @@
+import { DateTime } from "luxon";
+import type { Database, Tables, TablesUpdate } from "@/database.types";
+
+// Recurring task schedules. The next occurrence is generated in the database
+// (spawn_next_occurrence) when one is completed; this module only maps the
+// task form to task_recurrences rows and describes them.
+
+export type RecurrenceFrequency = Database["public"]["Enums"]["recurrence_frequency"];
+export type RecurrenceRow = Tables<"task_recurrences">;
+
+// ISO weekday numbers, as stored in task_recurrences.weekdays
+export const WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 7, label: "Sun" },
+];
+
+const UNITS: Record<RecurrenceFrequency, string> = { daily: "day", weekly: "week", monthly: "month" };
+
+export type RecurrenceDraft = {
+  frequency: RecurrenceFrequency | "none";
+  interval: number;
+  weekdays: number[];
+  monthDay: number;
+  end: "never" | "until" | "count";
+  untilDate: string;
+  count: number;
+};
+
+// The columns the form edits; owner_id and starts_on are set when the rule is created.
+export type RecurrenceRule = Pick<
+  TablesUpdate<"task_recurrences">,
+  "frequency" | "interval_count" | "weekdays" | "month_day" | "until_date" | "occurrence_limit"
+>;
+
+// Form state for an existing rule, or defaults anchored on the due date.
+export function draftFromRecurrence(rule: RecurrenceRow | null, dueDate: string): RecurrenceDraft {
+  const due = DateTime.fromISO(dueDate);
+  if (!rule) {
+    return {
+      frequency: "none",
+      interval: 1,
+      weekdays: due.isValid ? [due.weekday] : [1],
+      monthDay: due.isValid ? due.day : 1,
+      end: "never",
+      untilDate: "",
+      count: 10,
+    };
+  }
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval_count,
+    weekdays: rule.weekdays.length > 0 ? rule.weekdays : [due.isValid ? due.weekday : 1],
+    monthDay: rule.month_day ?? (due.isValid ? due.day : 1),
+    end: rule.until_date ? "until" : rule.occurrence_limit ? "count" : "never",
+    untilDate: rule.until_date ?? "",
+    count: rule.occurrence_limit ?? 10,
+  };
+}
+
+// Returns an error message, or null when the draft is valid.
+export function validateRecurrenceDraft(draft: RecurrenceDraft, dueDate: string): string | null {
+  if (draft.frequency === "none") return null;
+  if (!Number.isInteger(draft.interval) || draft.interval < 1 || draft.interval > 365) {
+    return "Repeat interval must be between 1 and 365.";
+  }
+  if (draft.frequency === "weekly" && draft.weekdays.length === 0) return "Pick at least one weekday.";
+  if (draft.frequency === "monthly" && (!Number.isInteger(draft.monthDay) || draft.monthDay < 1 || draft.monthDay > 31)) {
+    return "Day of month must be between 1 and 31.";
+  }
+  if (draft.end === "until" && (!draft.untilDate || draft.untilDate < dueDate)) {
+    return "End date must be on or after the due date.";
+  }
+  if (draft.end === "count" && (!Number.isInteger(draft.count) || draft.count < 1)) {
+    return "Number of occurrences must be at least 1.";
+  }
+  return null;
+}
+
+export function ruleFromDraft(draft: RecurrenceDraft): RecurrenceRule | null {
+  if (draft.frequency === "none") return null;
+  return {
+    frequency: draft.frequency,
+    interval_count: draft.interval,
+    weekdays: draft.frequency === "weekly" ? [...draft.weekdays].sort((a, b) => a - b) : [],
+    month_day: draft.frequency === "monthly" ? draft.monthDay : null,
+    until_date: draft.end === "until" ? draft.untilDate : null,
+    occurrence_limit: draft.end === "count" ? draft.count : null,
+  };
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+// e.g. "Weekly on Mon, Thu", "Every 2 months on the 31st, until Mar 1, 2027", "Daily, 5 times"
+export function describeRecurrence(
+  rule: Pick<RecurrenceRow, "frequency" | "interval_count" | "weekdays" | "month_day" | "until_date" | "occurrence_limit">
+): string {
+  const unit = UNITS[rule.frequency];
+  let text =
+    rule.interval_count === 1
+      ? rule.frequency.charAt(0).toUpperCase() + rule.frequency.slice(1)
+      : `Every ${rule.interval_count} ${unit}s`;
+  if (rule.frequency === "weekly") {
+    text += ` on ${WEEKDAYS.filter((d) => rule.weekdays.includes(d.value))
+      .map((d) => d.label)
+      .join(", ")}`;
+  } else if (rule.frequency === "monthly" && rule.month_day) {
+    text += ` on the ${ordinal(rule.month_day)}`;
+  }
+  if (rule.until_date) {
+    text += `, until ${DateTime.fromISO(rule.until_date).toLocaleString(DateTime.DATE_MED)}`;
+  } else if (rule.occurrence_limit) {
+    text += `, ${rule.occurrence_limit} time${rule.occurrence_limit === 1 ? "" : "s"}`;
+  }
+  return text;
+}
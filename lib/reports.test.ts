@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import type { Tables } from "@/database.types";
+import { reportsToCsv } from "@/lib/reports";
+
+function dailyReport(names: string[]): Tables<"manager_reports"> {
+  const perUser = Object.fromEntries(
+    names.map((name, i) => [`u${i}`, { name, completedToday: 1, open: 2, overdue: -1, dueSoon: 0 }])
+  );
+  return {
+    id: "r1",
+    manager_id: "m1",
+    period: "daily",
+    report_date: "2026-03-10",
+    status: "sent",
+    sent_at: null,
+    summary: { date: "2026-03-10", perUser },
+    created_at: "2026-03-10T00:00:00Z",
+    updated_at: "2026-03-10T00:00:00Z",
+  };
+}
+
+describe("reportsToCsv", () => {
+  it("neutralises values a spreadsheet would run as formulas", () => {
+    const csv = reportsToCsv("daily", [dailyReport(["=HYPERLINK(\"x\")", "+1", "-2", "@SUM(A1)", "\tTab", "Ana"])]);
+    const members = csv
+      .trim()
+      .split("\r\n")
+      .slice(1)
+      .map((line) => line.split(",")[4]);
+    expect(members).toEqual([`"'=HYPERLINK(""x"")"`, "'+1", "'-2", "'@SUM(A1)", "'\tTab", "Ana"]);
+  });
+
+  it("keeps numbers as numbers", () => {
+    const [, row] = reportsToCsv("daily", [dailyReport(["Ana"])]).split("\r\n");
+    expect(row.split(",").slice(5, 8)).toEqual(["1", "2", "-1"]);
+  });
+});
@@ -0,0 +1,191 @@
+import type { Database, Tables } from "@/database.types";
+import { formatLateness, formatPeriod, PERIOD_LABELS, type RollupSummary } from "@/lib/email/templates/report-rollup";
+import { formatRate } from "@/lib/nudge-outcomes";
+import type { PdfBlock } from "@/lib/pdf";
+
+type ReportRow = Tables<"manager_reports">;
+type ReportPeriod = Database["public"]["Enums"]["report_period"];
+
+// Shape of manager_reports.summary for daily rows, as written by the reports cron
+export type DailyMemberSummary = {
+  name: string;
+  completedToday: number;
+  open: number;
+  overdue: number;
+  dueSoon: number;
+  ackRate?: number | null;
+  updateRate?: number | null;
+};
+
+export type DailySummary = { date: string; perUser: Record<string, DailyMemberSummary> };
+
+export const REPORT_PERIODS: ReportPeriod[] = ["daily", "weekly", "monthly"];
+
+// Longest date range one export may cover
+export const MAX_EXPORT_DAYS = 366;
+
+// Text that a spreadsheet would read as a formula (names and titles are user
+// input) is prefixed with ' so it stays text. Numbers are ours and kept as is.
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const s = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csvRows(header: string[], rows: (string | number | null | undefined)[][]): string {
+  return [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function pct(rate: number | null | undefined): number | null {
+  return rate === null || rate === undefined ? null : Math.round(rate * 100);
+}
+
+function round1(n: number | null): number | null {
+  return n === null ? null : Math.round(n * 10) / 10;
+}
+
+// One CSV line per team member per report. Daily and rollup reports have
+// different columns, so an export holds a single period.
+export function reportsToCsv(period: ReportPeriod, reports: ReportRow[]): string {
+  if (period === "daily") {
+    const header = [
+      "report_date",
+      "status",
+      "sent_at",
+      "member_id",
+      "member",
+      "completed",
+      "open",
+      "overdue",
+      "due_soon",
+      "ack_rate_pct",
+      "update_rate_pct",
+    ];
+    const rows = reports.flatMap((r) =>
+      Object.entries((r.summary as DailySummary | null)?.perUser ?? {}).map(([memberId, u]) => [
+        r.report_date,
+        r.status,
+        r.sent_at,
+        memberId,
+        u.name,
+        u.completedToday,
+        u.open,
+        u.overdue,
+        u.dueSoon,
+        pct(u.ackRate),
+        pct(u.updateRate),
+      ])
+    );
+    return csvRows(header, rows);
+  }
+
+  const header = [
+    "period",
+    "period_start",
+    "period_end",
+    "status",
+    "sent_at",
+    "member_id",
+    "member",
+    "completed",
+    "avg_lateness_days",
+    "overdue_start",
+    "overdue_end",
+  ];
+  const rows = reports.flatMap((r) => {
+    const summary = r.summary as RollupSummary | null;
+    return Object.entries(summary?.perUser ?? {}).map(([memberId, u]) => [
+      r.period,
+      summary?.start ?? r.report_date,
+      summary?.end,
+      r.status,
+      r.sent_at,
+      memberId,
+      u.name,
+      u.completed,
+      round1(u.avgLatenessDays),
+      u.overdueTrend[0],
+      u.overdueTrend[u.overdueTrend.length - 1],
+    ]);
+  });
+  return csvRows(header, rows);
+}
+
+export function reportsToJson(reports: ReportRow[]): string {
+  return JSON.stringify(
+    reports.map((r) => ({
+      id: r.id,
+      period: r.period,
+      report_date: r.report_date,
+      status: r.status,
+      sent_at: r.sent_at,
+      summary: r.summary,
+    })),
+    null,
+    2
+  );
+}
+
+// The same content as the report email, laid out for print.
+export function reportToPdfBlocks(report: ReportRow): PdfBlock[] {
+  if (report.period === "daily") {
+    const summary = report.summary as DailySummary | null;
+    const members = Object.values(summary?.perUser ?? {});
+    return [
+      { type: "heading", text: `Daily team report for ${report.report_date}` },
+      { type: "text", text: `Status: ${report.status}${report.sent_at ? `, sent ${report.sent_at}` : ""}` },
+      members.length === 0
+        ? { type: "text", text: "No team members at the time of this report." }
+        : {
+            type: "table",
+            columns: ["Team member", "Completed", "Open", "Overdue", "Due soon", "Acked", "Updated"],
+            rows: members.map((u) => [
+              u.name,
+              String(u.completedToday),
+              String(u.open),
+              String(u.overdue),
+              String(u.dueSoon),
+              formatRate(u.ackRate ?? null),
+              formatRate(u.updateRate ?? null),
+            ]),
+          },
+    ];
+  }
+
+  const summary = report.summary as RollupSummary | null;
+  if (!summary) {
+    return [{ type: "heading", text: `${PERIOD_LABELS[report.period]} team rollup from ${report.report_date}` }];
+  }
+  const trend = summary.team.overdueTrend;
+  return [
+    { type: "heading", text: `${PERIOD_LABELS[summary.period]} team rollup: ${formatPeriod(summary.start, summary.end)}` },
+    {
+      type: "text",
+      text: `${summary.team.completed} task(s) completed. Average lateness: ${formatLateness(
+        summary.team.avgLatenessDays
+      )}.`,
+    },
+    {
+      type: "table",
+      columns: ["Team member", "Completed", "Avg lateness", "Overdue (start -> end)"],
+      rows: Object.values(summary.perUser).map((u) => [
+        u.name,
+        String(u.completed),
+        formatLateness(u.avgLatenessDays),
+        u.overdueTrend.length > 0 ? `${u.overdueTrend[0]} -> ${u.overdueTrend[u.overdueTrend.length - 1]}` : "-",
+      ]),
+    },
+    { type: "subheading", text: "Overdue trend" },
+    trend.length === 0
+      ? { type: "text", text: "No daily reports in this period." }
+      : { type: "table", columns: ["Date", "Overdue"], rows: trend.map((d) => [d.date, String(d.overdue)]) },
+    { type: "subheading", text: "Most overdue tasks" },
+    summary.mostOverdue.length === 0
+      ? { type: "text", text: "Nothing was overdue." }
+      : {
+          type: "table",
+          columns: ["Task", "Owner", "Due", "Days overdue"],
+          rows: summary.mostOverdue.map((t) => [t.title, t.owner, t.dueDate, String(t.daysOverdue)]),
+        },
+  ];
+}
@@ -0,0 +1,32 @@
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { Tables } from "@/database.types";
+
+export type SessionIdentity = {
+  profile: Tables<"profiles">;
+  // Email proven by Supabase Auth. profiles.email is a copy the user could
+  // once edit, so anything addressed to an email must match this one.
+  authEmail: string;
+};
+
+// Resolves the signed-in user's auth identity together with their profile.
+// The cookie-bound client only proves identity; the profile is read with the
+// admin client so callers get a fully typed row regardless of RLS.
+export async function getSessionIdentity(): Promise<SessionIdentity | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const admin = createAdminClient();
+  const { data } = await admin.from("profiles").select("*").eq("id", user.id).maybeSingle();
+  if (!data) return null;
+  return { profile: data, authEmail: user.email ?? "" };
+}
+
+// Resolves the signed-in user's profile for server routes.
+export async function getSessionProfile(): Promise<Tables<"profiles"> | null> {
+  const identity = await getSessionIdentity();
+  return identity?.profile ?? null;
+}
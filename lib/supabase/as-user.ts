@@ -0,0 +1,41 @@
+import { createHmac } from "crypto";
+import { createClient as createSbClient } from "@supabase/supabase-js";
+import type { Database } from "@/database.types";
+
+// Lifetime of the access token minted for one API request
+const TOKEN_TTL_SECONDS = 60;
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+// Server-only client that acts as `userId`, so RLS policies and auth.uid()-based
+// triggers apply exactly as they do in the browser. Used where the caller is
+// authenticated by something other than a Supabase session (personal access
+// tokens). Requires SUPABASE_JWT_SECRET, the project's JWT signing secret.
+export function createUserClient(userId: string) {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  const secret = process.env.SUPABASE_JWT_SECRET;
+
+  if (!url || !anonKey || !secret) {
+    throw new Error(
+      "Missing NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY or SUPABASE_JWT_SECRET for user client."
+    );
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const claims = base64url(
+    JSON.stringify({ sub: userId, role: "authenticated", aud: "authenticated", iat: now, exp: now + TOKEN_TTL_SECONDS })
+  );
+  const signature = createHmac("sha256", secret).update(`${header}.${claims}`).digest("base64url");
+
+  return createSbClient<Database>(url, anonKey, {
+    global: { headers: { Authorization: `Bearer ${header}.${claims}.${signature}` } },
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
@@ -1,9 +1,12 @@
 import { createBrowserClient } from '@supabase/ssr'
+import { type SupabaseClient } from '@supabase/supabase-js'
 import { type Database } from '@/database.types';
 
-export function createClient() {
+// @supabase/ssr's return type predates supabase-js's current generic order,
+// which leaves every `.from()` typed as `never`; restate it here once.
+export function createClient(): SupabaseClient<Database> {
   return createBrowserClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  )
+  ) as unknown as SupabaseClient<Database>
 }
@@ -29,3 +29,6 @@ export async function createClient() {
     }
   )
 }
+
+// The cookie-bound session client, for helpers that take it as a parameter
+export type ServerClient = Awaited<ReturnType<typeof createClient>>
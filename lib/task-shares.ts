@@ -0,0 +1,140 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Constants, type Database, type Tables } from "@/database.types";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { ServerClient } from "@/lib/supabase/server";
+import { deliverEvent } from "@/lib/notifications";
+import { loadNotificationSettings, type NotificationEvent } from "@/lib/notification-preferences";
+import { htmlEscape } from "@/lib/email/templates/layout";
+
+export type SharePermission = Database["public"]["Enums"]["share_permission"];
+
+type Sharer = Pick<Tables<"profiles">, "id" | "name" | "email">;
+
+export type ReplaceSharesResult =
+  | { ok: true; added: number; removed: number; changed: number }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "db"; error: { code: string; message: string } };
+
+// { [userId]: permission } from a request body, or null if malformed.
+export function parseShareMap(value: unknown): Map<string, SharePermission> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const shares = new Map<string, SharePermission>();
+  for (const [userId, permission] of Object.entries(value)) {
+    if (!Constants.public.Enums.share_permission.includes(permission as SharePermission)) return null;
+    shares.set(userId, permission as SharePermission);
+  }
+  return shares;
+}
+
+// Makes a task's share list equal to `next`. `supabase` must act as the sharer
+// (session or token client), so the task_shares policies decide who may grant
+// what. The sharer's own row is never part of the diff. Deletes and updates the
+// policies silently skip return no rows, so only rows that actually changed are
+// counted and notified over the channels their recipients chose.
+export async function replaceTaskShares(
+  client: ServerClient | SupabaseClient<Database>,
+  sharer: Sharer,
+  taskId: string,
+  next: Map<string, SharePermission>,
+  origin: string
+): Promise<ReplaceSharesResult> {
+  // Both are supabase-js clients; @supabase/ssr just types the session one
+  // against its own supabase-js copy
+  const supabase = client as SupabaseClient<Database>;
+  const nextMap = new Map(next);
+  nextMap.delete(sharer.id);
+
+  const { data: task } = await supabase.from("tasks").select("id,title,owner_id").eq("id", taskId).maybeSingle();
+  if (!task) return { ok: false, reason: "not_found" };
+
+  const { data: current } = await supabase.from("task_shares").select("user_id,permission").eq("task_id", taskId);
+  const currentMap = new Map((current ?? []).map((r) => [r.user_id, r.permission]));
+  currentMap.delete(sharer.id);
+  const toRemove = [...currentMap.keys()].filter((x) => !nextMap.has(x));
+  const toAdd = [...nextMap.keys()].filter((x) => !currentMap.has(x));
+  const toChange = [...nextMap.keys()].filter((x) => currentMap.has(x) && currentMap.get(x) !== nextMap.get(x));
+
+  const removed: string[] = [];
+  if (toRemove.length > 0) {
+    const { data, error } = await supabase
+      .from("task_shares")
+      .delete()
+      .eq("task_id", taskId)
+      .in("user_id", toRemove)
+      .select("user_id");
+    if (error) return { ok: false, reason: "db", error };
+    removed.push(...(data ?? []).map((r) => r.user_id));
+  }
+  if (toAdd.length > 0) {
+    const rows = toAdd.map((user_id) => ({ task_id: taskId, user_id, permission: nextMap.get(user_id) }));
+    const { error } = await supabase.from("task_shares").insert(rows);
+    if (error) return { ok: false, reason: "db", error };
+  }
+  let changed = 0;
+  for (const user_id of toChange) {
+    const { data, error } = await supabase
+      .from("task_shares")
+      .update({ permission: nextMap.get(user_id) })
+      .eq("task_id", taskId)
+      .eq("user_id", user_id)
+      .select("user_id");
+    if (error) return { ok: false, reason: "db", error };
+    changed += (data ?? []).length;
+  }
+
+  // Notifications are written with the admin client: users cannot insert them
+  const admin = createAdminClient();
+  const sharerName = sharer.name || sharer.email;
+  const tasksUrl = new URL("/tasks", origin).toString();
+  const recipients = [...toAdd, ...removed];
+  const { data: people } = recipients.length
+    ? await admin.from("profiles").select("id,email").in("id", recipients)
+    : { data: [] };
+  const settingsByUser = await loadNotificationSettings(admin, recipients);
+
+  for (const userId of recipients) {
+    const settings = settingsByUser.get(userId);
+    if (!settings) continue;
+    const added = toAdd.includes(userId);
+    const event: NotificationEvent = added ? "share_received" : "share_revoked";
+    const title = added ? `${sharerName} shared a task with you` : `${sharerName} stopped sharing a task with you`;
+    const email = (people ?? []).find((p) => p.id === userId)?.email;
+    const detail = added
+      ? `You can open it as ${(nextMap.get(userId) ?? "viewer").replace("_", "-")}.`
+      : "It no longer appears on your board.";
+    const html = `
+      <div style="font-family: Arial, Helvetica, sans-serif; line-height:1.5; color:#111;">
+        <h2>${htmlEscape(title)}</h2>
+        <p><strong>${htmlEscape(task.title)}</strong></p>
+        <p>${detail}</p>
+        <p><a href="${tasksUrl}" target="_blank" style="display:inline-block;padding:10px 14px;background:#111;color:#fff;text-decoration:none;border-radius:8px;">Open tasks</a></p>
+      </div>
+    `;
+    const delivery = await deliverEvent(admin, settings, {
+      userId,
+      event,
+      email: email
+        ? { to: email, subject: `${title}: "${task.title}"`, html, source: "task_share", sourceId: taskId }
+        : null,
+      inApp: {
+        type: added ? "task_shared" : "share_revoked",
+        title,
+        body: task.title,
+        link: added ? `/tasks?task=${taskId}` : "/tasks",
+        sourceId: taskId,
+      },
+      webhook: {
+        task_id: taskId,
+        task_title: task.title,
+        shared_by: sharerName,
+        permission: added ? nextMap.get(userId) : null,
+      },
+    });
+    if (delivery.errors.length > 0) {
+      // eslint-disable-next-line no-console
+      console.log(`[TASK SHARES] ${event} delivery to ${userId} failed: ${delivery.errors.join("; ")}`);
+    }
+  }
+
+  return { ok: true, added: toAdd.length, removed: removed.length, changed };
+}
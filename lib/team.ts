@@ -0,0 +1,119 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@/database.types";
+
+export type TeamAuditAction =
+  | "invite.created"
+  | "invite.revoked"
+  | "invite.accepted"
+  | "invite.declined"
+  | "member.moved"
+  | "member.removed"
+  | "role.changed";
+
+export type TeamAuditEntry = {
+  actorId: string;
+  action: TeamAuditAction;
+  memberId?: string | null;
+  managerId?: string | null;
+  previousManagerId?: string | null;
+  inviteId?: string | null;
+  details?: Json;
+};
+
+// Every membership change goes through here so the audit trail stays complete.
+export async function recordTeamAudit(
+  supabase: SupabaseClient<Database>,
+  entry: TeamAuditEntry
+): Promise<void> {
+  const { error } = await supabase.from("team_audit_log").insert({
+    actor_id: entry.actorId,
+    action: entry.action,
+    member_id: entry.memberId ?? null,
+    manager_id: entry.managerId ?? null,
+    previous_manager_id: entry.previousManagerId ?? null,
+    invite_id: entry.inviteId ?? null,
+    details: entry.details ?? null,
+  });
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.log(`[TEAM] Failed to record audit entry ${entry.action}: ${error.message}`);
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export type InviteDecision = "accepted" | "declined";
+
+export type InviteResponseResult =
+  | { ok: true; invite: Database["public"]["Tables"]["team_invites"]["Row"] }
+  | { ok: false; status: number; error: string };
+
+// Invitee accepts or declines a pending invite addressed to their email.
+// `authEmail` must come from Supabase Auth, never from the profile row.
+// The invite is claimed with a conditional update so a double click cannot
+// apply it twice. Accepting a manager invite is one of the two ways a user
+// becomes a manager (the other is the admin role route).
+export async function respondToInvite(
+  supabase: SupabaseClient<Database>,
+  me: Database["public"]["Tables"]["profiles"]["Row"],
+  authEmail: string,
+  inviteId: string,
+  decision: InviteDecision
+): Promise<InviteResponseResult> {
+  const { data: pending } = await supabase
+    .from("team_invites")
+    .select("*")
+    .eq("id", inviteId)
+    .maybeSingle();
+
+  if (!pending || !authEmail || normalizeEmail(pending.email) !== normalizeEmail(authEmail)) {
+    return { ok: false, status: 404, error: "Invite not found." };
+  }
+  if (pending.status !== "pending") {
+    return { ok: false, status: 409, error: `Invite was already ${pending.status}.` };
+  }
+
+  const { data: invite, error } = await supabase
+    .from("team_invites")
+    .update({ status: decision, responded_at: new Date().toISOString() })
+    .eq("id", inviteId)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!invite) return { ok: false, status: 409, error: "Invite is no longer pending." };
+
+  const promotes = decision === "accepted" && invite.grant_role === "manager" && me.role !== "manager";
+
+  if (decision === "accepted") {
+    const { error: updErr } = await supabase
+      .from("profiles")
+      .update(promotes ? { manager_id: invite.manager_id, role: "manager" } : { manager_id: invite.manager_id })
+      .eq("id", me.id);
+    if (updErr) return { ok: false, status: 500, error: updErr.message };
+  }
+
+  await recordTeamAudit(supabase, {
+    actorId: me.id,
+    action: decision === "accepted" ? "invite.accepted" : "invite.declined",
+    memberId: me.id,
+    managerId: invite.manager_id,
+    previousManagerId: decision === "accepted" ? me.manager_id : null,
+    inviteId: invite.id,
+  });
+
+  if (promotes) {
+    await recordTeamAudit(supabase, {
+      actorId: me.id,
+      action: "role.changed",
+      memberId: me.id,
+      inviteId: invite.id,
+      details: { from: me.role, to: "manager" },
+    });
+  }
+
+  return { ok: true, invite };
+}
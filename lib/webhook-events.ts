@@ -0,0 +1,18 @@
+// Event names a webhook subscription can ask for. Kept free of server-only
+// imports so /webhooks can render the same list.
+export const WEBHOOK_EVENTS = [
+  "task.created",
+  "task.status_changed",
+  "task.shared",
+  "nudge.sent",
+  "nudge.acknowledged",
+  "report.generated",
+  "notification",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Carries the "webhook" notification channel; user-scope subscriptions only
+export const NOTIFICATION_EVENT = "notification";
+
+// Sent by the "send test event" button; never queued by the triggers
+export const TEST_EVENT = "webhook.test";
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { checkWebhookUrl, isPrivateAddress, publicOnlyLookup } from "@/lib/webhooks";
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private, link-local and metadata addresses", () => {
+    for (const ip of ["127.0.0.1", "10.0.0.8", "172.16.4.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    for (const ip of ["::1", "::", "fe80::1", "fd12::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+  });
+
+  it("allows public addresses", () => {
+    for (const ip of ["8.8.8.8", "172.32.0.1", "93.184.215.14", "2606:4700::1111", "::ffff:808:808"]) {
+      expect(isPrivateAddress(ip)).toBe(false);
+    }
+  });
+});
+
+describe("checkWebhookUrl", () => {
+  it("requires https", async () => {
+    expect(await checkWebhookUrl("http://93.184.215.14/hook")).toMatchObject({ ok: false, transient: false });
+  });
+
+  it("rejects private hosts, however they are spelled", async () => {
+    for (const url of ["https://127.0.0.1/", "https://0x7f000001/", "https://[::1]/", "https://[::ffff:169.254.169.254]/"]) {
+      expect(await checkWebhookUrl(url)).toMatchObject({ ok: false, transient: false });
+    }
+  });
+
+  it("accepts public https URLs", async () => {
+    expect(await checkWebhookUrl("https://93.184.215.14/hook")).toMatchObject({ ok: true });
+  });
+});
+
+describe("publicOnlyLookup", () => {
+  it("refuses to connect to a name that resolves to a private address", async () => {
+    const error = await new Promise<Error | null>((resolve) => publicOnlyLookup("localhost", {}, (err) => resolve(err)));
+    expect(error?.message).toMatch(/private address/);
+  });
+});
@@ -0,0 +1,211 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { lookup as lookupCallback } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { request } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/database.types";
+import { nextAttemptDelayMs } from "@/lib/outbox";
+
+export type WebhookSubscription = Tables<"webhook_subscriptions">;
+export type WebhookDelivery = Tables<"webhook_deliveries">;
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export type WebhookBody = {
+  id: string;
+  event: string;
+  sent_at: string;
+  data: Record<string, unknown>;
+};
+
+type PostResult = { ok: true; status: number } | { ok: false; status: number | null; error: string };
+
+// Resolves like the default lookup but fails if any address is private, so the
+// socket only ever connects to an address that passed the check. Checking the
+// URL first is not enough on its own: DNS can answer differently (rebinding)
+// by the time the request connects.
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+      return callback(new Error(`${hostname} resolves to a private address.`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Redirects are never followed (node:https doesn't): the Location could point
+// anywhere, including the private ranges checked below.
+function post(url: URL, body: string, headers: Record<string, string>): Promise<PostResult> {
+  return new Promise((resolve) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "content-length": Buffer.byteLength(body),
+          "user-agent": "FlowTrack-Webhooks/1",
+          ...headers,
+        },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        res.on("error", (e) => resolve({ ok: false, status, error: e.message }));
+        res.on("end", () =>
+          resolve(status >= 200 && status < 300 ? { ok: true, status } : { ok: false, status, error: `HTTP ${status}` })
+        );
+        res.resume();
+      }
+    );
+    req.on("error", (e) => resolve({ ok: false, status: null, error: e.message }));
+    req.end(body);
+  });
+}
+
+// Loopback, private (RFC 1918, CGNAT, ULA), link-local (cloud metadata lives
+// at 169.254.169.254), unspecified, multicast and reserved addresses.
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+  const ip = address.toLowerCase();
+  // IPv4-mapped, in dotted (::ffff:127.0.0.1) or hex (::ffff:7f00:1) form
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(ip);
+  if (mappedHex) {
+    const [hi, lo] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress([hi >> 8, hi & 255, lo >> 8, lo & 255].join("."));
+  }
+  return (
+    ip === "::" ||
+    ip === "::1" ||
+    ip.startsWith("fc") ||
+    ip.startsWith("fd") ||
+    /^fe[89ab]/.test(ip) ||
+    ip.startsWith("ff")
+  );
+}
+
+// `transient` failures (DNS lookups) are worth retrying; the rest are not.
+export type WebhookUrlCheck = { ok: true; url: URL } | { ok: false; transient: boolean; error: string };
+
+// Webhooks must be https and resolve only to public addresses. Checked when a
+// subscription is created and again before every delivery, since DNS can
+// change in between.
+export async function checkWebhookUrl(value: string): Promise<WebhookUrlCheck> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { ok: false, transient: false, error: "Enter a valid https URL." };
+  }
+  if (url.protocol !== "https:") return { ok: false, transient: false, error: "Webhook URLs must use https." };
+  if (url.username || url.password) {
+    return { ok: false, transient: false, error: "Webhook URLs cannot contain credentials." };
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  } catch {
+    return { ok: false, transient: true, error: `Could not resolve ${host}.` };
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return { ok: false, transient: false, error: "Webhook URLs must point to a public address." };
+  }
+  return { ok: true, url };
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Receivers recompute HMAC-SHA256(secret, "<timestamp>.<raw body>") and compare
+// it with v1 in the FlowTrack-Signature header; the timestamp lets them reject
+// replays.
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// One attempt at a claimed delivery (status "sending"). Records the outcome on
+// the row: sent, pending with backoff, or dead once attempts run out. Only the
+// attempt that holds the current lease (same attempt number) may write it.
+export async function attemptDelivery(
+  supabase: SupabaseClient<Database>,
+  delivery: WebhookDelivery,
+  subscription: Pick<WebhookSubscription, "url" | "secret" | "enabled"> | null
+): Promise<"sent" | "retry" | "dead"> {
+  const lease = (update: Database["public"]["Tables"]["webhook_deliveries"]["Update"]) =>
+    supabase
+      .from("webhook_deliveries")
+      .update({ ...update, locked_until: null })
+      .eq("id", delivery.id)
+      .eq("status", "sending")
+      .eq("attempts", delivery.attempts);
+
+  if (!subscription?.enabled) {
+    await lease({ status: "dead", last_error: "Subscription is disabled." });
+    return "dead";
+  }
+  const target = await checkWebhookUrl(subscription.url);
+  if (!target.ok && !target.transient) {
+    await lease({ status: "dead", last_error: target.error });
+    return "dead";
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const payload: WebhookBody = {
+    id: delivery.id,
+    event: delivery.event,
+    sent_at: new Date(timestamp * 1000).toISOString(),
+    data: delivery.payload as Record<string, unknown>,
+  };
+  const body = JSON.stringify(payload);
+  const res: PostResult = target.ok
+    ? await post(target.url, body, {
+        "flowtrack-event": delivery.event,
+        "flowtrack-delivery": delivery.id,
+        "flowtrack-signature": `t=${timestamp},v1=${signWebhook(subscription.secret, timestamp, body)}`,
+      })
+    : { ok: false, status: null, error: target.error };
+
+  if (res.ok) {
+    await lease({
+      status: "sent",
+      response_status: res.status,
+      last_error: null,
+      delivered_at: new Date().toISOString(),
+    });
+    return "sent";
+  }
+  if (delivery.attempts >= delivery.max_attempts) {
+    await lease({ status: "dead", response_status: res.status, last_error: res.error });
+    return "dead";
+  }
+  await lease({
+    status: "pending",
+    response_status: res.status,
+    last_error: res.error,
+    next_attempt_at: new Date(Date.now() + nextAttemptDelayMs(delivery.attempts)).toISOString(),
+  });
+  return "retry";
+}
@@ -0,0 +1,88 @@
+BEGIN;
+
+-- Invite lifecycle for managers building their team
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'invite_status') THEN
+    CREATE TYPE public.invite_status AS ENUM ('pending','accepted','declined','revoked');
+  END IF;
+END $$;
+
+-- Team invites: a manager invites a user (by email) to report to them
+CREATE TABLE IF NOT EXISTS public.team_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  manager_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  status public.invite_status NOT NULL DEFAULT 'pending',
+  responded_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- At most one open invite per manager and email
+CREATE UNIQUE INDEX IF NOT EXISTS team_invites_pending_unique
+  ON public.team_invites (manager_id, lower(email))
+  WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS set_team_invites_updated_at ON public.team_invites;
+CREATE TRIGGER set_team_invites_updated_at BEFORE UPDATE ON public.team_invites
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Append-only audit trail of team membership changes
+CREATE TABLE IF NOT EXISTS public.team_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  action text NOT NULL,
+  member_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  manager_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  previous_manager_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  invite_id uuid REFERENCES public.team_invites(id) ON DELETE SET NULL,
+  details jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS team_audit_log_manager_idx ON public.team_audit_log (manager_id, created_at DESC);
+
+-- RLS enable
+ALTER TABLE public.team_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Policies: team_invites (writes go through server routes with the service role)
+DROP POLICY IF EXISTS "Managers and invitees can read invites" ON public.team_invites;
+CREATE POLICY "Managers and invitees can read invites"
+  ON public.team_invites FOR SELECT
+  USING (
+    manager_id = auth.uid()
+    OR lower(email) = lower(coalesce(auth.email(), ''))
+  );
+
+-- Policies: team_audit_log (read-only for the people involved)
+DROP POLICY IF EXISTS "Involved users can read team audit log" ON public.team_audit_log;
+CREATE POLICY "Involved users can read team audit log"
+  ON public.team_audit_log FOR SELECT
+  USING (
+    manager_id = auth.uid()
+    OR previous_manager_id = auth.uid()
+    OR member_id = auth.uid()
+  );
+
+-- Users may still edit their own profile, but reporting lines are owned by the
+-- server routes (service role, where auth.uid() is null).
+CREATE OR REPLACE FUNCTION public.protect_profile_columns()
+RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF NEW.manager_id IS DISTINCT FROM OLD.manager_id THEN
+      RAISE EXCEPTION 'manager_id can only be changed through team management';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS enforce_profile_updates ON public.profiles;
+CREATE TRIGGER enforce_profile_updates
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_columns();
+
+COMMIT;
@@ -0,0 +1,59 @@
+BEGIN;
+
+-- Admins can promote and demote users; granted out-of-band (SQL) only
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS is_admin boolean NOT NULL DEFAULT false;
+
+-- Invites may promote the invitee to manager when accepted
+ALTER TABLE public.team_invites ADD COLUMN IF NOT EXISTS grant_role public.role_type NOT NULL DEFAULT 'user';
+
+-- Signup always creates plain users; signup metadata can no longer pick a role
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  meta jsonb;
+  name text;
+BEGIN
+  meta := coalesce(NEW.raw_user_meta_data, '{}'::jsonb);
+  name := coalesce(meta->>'name', '');
+
+  INSERT INTO public.profiles (id, name, role, email)
+  VALUES (NEW.id, name, 'user', coalesce(NEW.email, ''))
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    email = EXCLUDED.email;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Extend profile column protection: role and admin flag are server-managed too
+CREATE OR REPLACE FUNCTION public.protect_profile_columns()
+RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF NEW.manager_id IS DISTINCT FROM OLD.manager_id THEN
+      RAISE EXCEPTION 'manager_id can only be changed through team management';
+    END IF;
+    IF NEW.role IS DISTINCT FROM OLD.role THEN
+      RAISE EXCEPTION 'role can only be changed by an admin or an accepted manager invite';
+    END IF;
+    IF NEW.is_admin IS DISTINCT FROM OLD.is_admin THEN
+      RAISE EXCEPTION 'is_admin cannot be changed by users';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+-- Self-update policy no longer lets users rewrite their own role
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.profiles;
+CREATE POLICY "Users can update their own profile"
+  ON public.profiles
+  FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (
+    auth.uid() = id
+    AND role = (SELECT p.role FROM public.profiles p WHERE p.id = auth.uid())
+  );
+
+COMMIT;
@@ -0,0 +1,78 @@
+-- Nudges are handed to the outbox before they are actually sent.
+-- (ALTER TYPE ... ADD VALUE cannot share a transaction with statements using it.)
+ALTER TYPE public.nudge_status ADD VALUE IF NOT EXISTS 'queued' BEFORE 'sent';
+
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'outbox_status') THEN
+    CREATE TYPE public.outbox_status AS ENUM ('pending','sending','sent','dead');
+  END IF;
+END $$;
+
+-- Durable outbound email queue drained by /api/cron/email
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  to_email text NOT NULL,
+  subject text NOT NULL,
+  html text NOT NULL,
+  text_body text,
+  -- What produced the message (nudge, manager_report, team_invite); the worker
+  -- reports the delivery outcome back to that row.
+  source text NOT NULL,
+  source_id uuid,
+  status public.outbox_status NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_until timestamptz,
+  last_error text,
+  message_id text,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_due_idx
+  ON public.email_outbox (next_attempt_at)
+  WHERE status IN ('pending','sending');
+
+CREATE INDEX IF NOT EXISTS email_outbox_dead_idx
+  ON public.email_outbox (updated_at DESC)
+  WHERE status = 'dead';
+
+DROP TRIGGER IF EXISTS set_email_outbox_updated_at ON public.email_outbox;
+CREATE TRIGGER set_email_outbox_updated_at BEFORE UPDATE ON public.email_outbox
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Service role only: no policies, so regular users cannot read message bodies
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Claim a batch of due messages. FOR UPDATE SKIP LOCKED keeps concurrent
+-- workers from picking the same rows, and the lease (locked_until) lets a
+-- message whose worker died be picked up again once the lease expires.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(batch_size integer DEFAULT 20, lease_seconds integer DEFAULT 300)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.email_outbox o
+  SET status = 'sending',
+      attempts = o.attempts + 1,
+      locked_until = now() + make_interval(secs => lease_seconds)
+  WHERE o.id IN (
+    SELECT c.id
+    FROM public.email_outbox c
+    WHERE (c.status = 'pending' AND c.next_attempt_at <= now())
+       OR (c.status = 'sending' AND c.locked_until < now())
+    ORDER BY c.next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(integer, integer) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
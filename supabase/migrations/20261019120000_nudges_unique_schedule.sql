@@ -0,0 +1,30 @@
+BEGIN;
+
+-- Collapse duplicates created by overlapping cron runs, keeping the row that
+-- got furthest (acknowledged, then sent, then the oldest).
+WITH ranked AS (
+  SELECT
+    id,
+    row_number() OVER (
+      PARTITION BY user_id, scheduled_at
+      ORDER BY (acknowledged_at IS NOT NULL) DESC, (sent_at IS NOT NULL) DESC, created_at, id
+    ) AS rn
+  FROM public.nudges
+)
+DELETE FROM public.nudges
+WHERE id IN (SELECT id FROM ranked WHERE rn > 1);
+
+-- One nudge per user and slot; the materializer upserts against this key
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'nudges_user_scheduled_unique') THEN
+    ALTER TABLE public.nudges
+      ADD CONSTRAINT nudges_user_scheduled_unique UNIQUE (user_id, scheduled_at);
+  END IF;
+END $$;
+
+-- A nudge can only ever be in the outbox once, even if two runs race past the claim
+CREATE UNIQUE INDEX IF NOT EXISTS email_outbox_nudge_unique
+  ON public.email_outbox (source_id)
+  WHERE source = 'nudge';
+
+COMMIT;
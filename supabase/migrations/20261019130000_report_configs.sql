@@ -0,0 +1,64 @@
+BEGIN;
+
+-- Per-manager schedule for the daily team report
+CREATE TABLE IF NOT EXISTS public.report_configs (
+  manager_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  send_time text NOT NULL DEFAULT '17:00' CHECK (send_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  timezone text NOT NULL DEFAULT 'UTC',
+  weekdays_only boolean NOT NULL DEFAULT false,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS set_report_configs_updated_at ON public.report_configs;
+CREATE TRIGGER set_report_configs_updated_at BEFORE UPDATE ON public.report_configs
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.report_configs ENABLE ROW LEVEL SECURITY;
+
+-- Policies: report_configs (managers manage their own)
+DROP POLICY IF EXISTS "Managers can view own report config" ON public.report_configs;
+CREATE POLICY "Managers can view own report config"
+  ON public.report_configs FOR SELECT
+  USING (auth.uid() = manager_id);
+
+DROP POLICY IF EXISTS "Managers can insert own report config" ON public.report_configs;
+CREATE POLICY "Managers can insert own report config"
+  ON public.report_configs FOR INSERT
+  WITH CHECK (
+    auth.uid() = manager_id
+    AND EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'manager')
+  );
+
+DROP POLICY IF EXISTS "Managers can update own report config" ON public.report_configs;
+CREATE POLICY "Managers can update own report config"
+  ON public.report_configs FOR UPDATE
+  USING (auth.uid() = manager_id)
+  WITH CHECK (
+    auth.uid() = manager_id
+    AND EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'manager')
+  );
+
+-- Collapse duplicate reports for the same day, keeping the one that got furthest
+WITH ranked AS (
+  SELECT
+    id,
+    row_number() OVER (
+      PARTITION BY manager_id, report_date
+      ORDER BY (status = 'sent') DESC, (sent_at IS NOT NULL) DESC, created_at, id
+    ) AS rn
+  FROM public.manager_reports
+)
+DELETE FROM public.manager_reports
+WHERE id IN (SELECT id FROM ranked WHERE rn > 1);
+
+-- One report per manager and local day; the cron claims a day by inserting it
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'manager_reports_manager_date_unique') THEN
+    ALTER TABLE public.manager_reports
+      ADD CONSTRAINT manager_reports_manager_date_unique UNIQUE (manager_id, report_date);
+  END IF;
+END $$;
+
+COMMIT;
@@ -0,0 +1,93 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'task_event_type') THEN
+    CREATE TYPE public.task_event_type AS ENUM ('created','status_changed','updated');
+  END IF;
+END $$;
+
+-- Append-only task history, written by trigger only
+CREATE TABLE IF NOT EXISTS public.task_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  owner_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  event_type public.task_event_type NOT NULL,
+  old_status public.task_status,
+  new_status public.task_status,
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_events_task_idx ON public.task_events (task_id, created_at);
+CREATE INDEX IF NOT EXISTS task_events_completions_idx
+  ON public.task_events (owner_id, created_at)
+  WHERE new_status = 'done';
+
+-- actor_id is auth.uid(); null for service-role/cron writes
+CREATE OR REPLACE FUNCTION public.log_task_event()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  changed text[] := '{}';
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_events (task_id, owner_id, actor_id, event_type, new_status)
+    VALUES (NEW.id, NEW.owner_id, auth.uid(), 'created', NEW.status);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title THEN changed := changed || 'title'; END IF;
+  IF NEW.description IS DISTINCT FROM OLD.description THEN changed := changed || 'description'; END IF;
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN changed := changed || 'due_date'; END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status THEN changed := changed || 'status'; END IF;
+  IF NEW.notes IS DISTINCT FROM OLD.notes THEN changed := changed || 'notes'; END IF;
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN changed := changed || 'owner_id'; END IF;
+
+  IF cardinality(changed) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_events (task_id, owner_id, actor_id, event_type, old_status, new_status, changed_fields)
+  VALUES (
+    NEW.id,
+    NEW.owner_id,
+    auth.uid(),
+    CASE WHEN NEW.status IS DISTINCT FROM OLD.status THEN 'status_changed' ELSE 'updated' END::public.task_event_type,
+    OLD.status,
+    NEW.status,
+    changed
+  );
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS log_task_events ON public.tasks;
+CREATE TRIGGER log_task_events
+AFTER INSERT OR UPDATE ON public.tasks
+FOR EACH ROW EXECUTE FUNCTION public.log_task_event();
+
+-- Backfill: creation for every task, and a best-effort completion at the last
+-- update for tasks that are already done
+INSERT INTO public.task_events (task_id, owner_id, event_type, new_status, created_at)
+SELECT t.id, t.owner_id, 'created', 'todo', t.created_at
+FROM public.tasks t
+WHERE NOT EXISTS (SELECT 1 FROM public.task_events e WHERE e.task_id = t.id);
+
+INSERT INTO public.task_events (task_id, owner_id, event_type, old_status, new_status, changed_fields, created_at)
+SELECT t.id, t.owner_id, 'status_changed', NULL, 'done', ARRAY['status'], t.updated_at
+FROM public.tasks t
+WHERE t.status = 'done'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.task_events e WHERE e.task_id = t.id AND e.event_type = 'status_changed'
+  );
+
+ALTER TABLE public.task_events ENABLE ROW LEVEL SECURITY;
+
+-- Policies: task_events (visible to whoever can see the task; no direct writes)
+DROP POLICY IF EXISTS "Task events follow task visibility" ON public.task_events;
+CREATE POLICY "Task events follow task visibility"
+  ON public.task_events FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_events.task_id)
+  );
+
+COMMIT;
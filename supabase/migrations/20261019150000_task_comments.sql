@@ -0,0 +1,36 @@
+BEGIN;
+
+-- Comment thread per task; written through the API so mentions get notified
+CREATE TABLE IF NOT EXISTS public.task_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (char_length(body) BETWEEN 1 AND 4000),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_comments_task_idx ON public.task_comments (task_id, created_at);
+
+DROP TRIGGER IF EXISTS set_task_comments_updated_at ON public.task_comments;
+CREATE TRIGGER set_task_comments_updated_at BEFORE UPDATE ON public.task_comments
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+
+-- Policies: task_comments (same audience as the task: owner, share recipients,
+-- and the owner's manager, via the tasks SELECT policies)
+DROP POLICY IF EXISTS "Comments follow task visibility" ON public.task_comments;
+CREATE POLICY "Comments follow task visibility"
+  ON public.task_comments FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_comments.task_id)
+  );
+
+DROP POLICY IF EXISTS "Authors can delete own comments" ON public.task_comments;
+CREATE POLICY "Authors can delete own comments"
+  ON public.task_comments FOR DELETE
+  USING (auth.uid() = author_id);
+
+COMMIT;
@@ -0,0 +1,113 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'share_permission') THEN
+    CREATE TYPE public.share_permission AS ENUM ('viewer','editor','co_owner');
+  END IF;
+END $$;
+
+-- Existing shares keep the status/notes access they had
+ALTER TABLE public.task_shares
+  ADD COLUMN IF NOT EXISTS permission public.share_permission NOT NULL DEFAULT 'editor';
+
+-- Current auth user's share permission on a task (null when not shared with them).
+-- Security definer so tasks/task_shares policies can use it without recursion.
+CREATE OR REPLACE FUNCTION public.task_share_permission(task_id uuid)
+RETURNS public.share_permission
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  perm public.share_permission;
+BEGIN
+  SELECT ts.permission INTO perm
+  FROM public.task_shares ts
+  WHERE ts.task_id = task_share_permission.task_id AND ts.user_id = auth.uid();
+  RETURN perm;
+END;
+$$;
+
+-- Owners manage every share; co-owners can reshare at viewer/editor level but
+-- only the owner grants or revokes co-ownership.
+CREATE OR REPLACE FUNCTION public.can_manage_task_share(task_id uuid, permission public.share_permission)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_task_owner(task_id) THEN
+    RETURN true;
+  END IF;
+  RETURN public.task_share_permission(task_id) = 'co_owner' AND permission <> 'co_owner';
+END;
+$$;
+
+-- Viewers can no longer write; editors and co-owners can (columns checked below)
+DROP POLICY IF EXISTS "Shared users can update limited fields" ON public.tasks;
+CREATE POLICY "Shared users can update limited fields"
+  ON public.tasks
+  FOR UPDATE
+  USING (public.task_share_permission(id) IN ('editor','co_owner'))
+  WITH CHECK (true);
+
+-- Column-level rules per permission. Service-role writes (no auth user) are trusted.
+CREATE OR REPLACE FUNCTION public.restrict_task_updates()
+RETURNS trigger LANGUAGE plpgsql AS $$
+DECLARE
+  perm public.share_permission;
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = OLD.owner_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.title IS DISTINCT FROM OLD.title)
+     OR (NEW.description IS DISTINCT FROM OLD.description)
+     OR (NEW.owner_id IS DISTINCT FROM OLD.owner_id) THEN
+    RAISE EXCEPTION 'Only owner can modify title, description, or owner';
+  END IF;
+
+  perm := public.task_share_permission(OLD.id);
+
+  IF perm IS NULL OR perm = 'viewer' THEN
+    RAISE EXCEPTION 'Viewers cannot modify this task';
+  END IF;
+
+  IF (NEW.due_date IS DISTINCT FROM OLD.due_date) AND perm <> 'co_owner' THEN
+    RAISE EXCEPTION 'Only owner or co-owners can modify due_date';
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+-- task_shares: owners and co-owners (see can_manage_task_share)
+DROP POLICY IF EXISTS "Owner can insert shares" ON public.task_shares;
+DROP POLICY IF EXISTS "Owner can update shares" ON public.task_shares;
+DROP POLICY IF EXISTS "Owner can delete shares" ON public.task_shares;
+DROP POLICY IF EXISTS "Owners and co-owners can read shares" ON public.task_shares;
+
+CREATE POLICY "Owner can insert shares"
+  ON public.task_shares
+  FOR INSERT
+  WITH CHECK (public.can_manage_task_share(task_id, permission));
+
+CREATE POLICY "Owner can update shares"
+  ON public.task_shares
+  FOR UPDATE
+  USING (public.can_manage_task_share(task_id, permission))
+  WITH CHECK (public.can_manage_task_share(task_id, permission));
+
+CREATE POLICY "Owner can delete shares"
+  ON public.task_shares
+  FOR DELETE
+  USING (public.can_manage_task_share(task_id, permission));
+
+CREATE POLICY "Owners and co-owners can read shares"
+  ON public.task_shares
+  FOR SELECT
+  USING (public.is_task_owner(task_id) OR public.task_share_permission(task_id) = 'co_owner');
+
+COMMIT;
@@ -0,0 +1,7 @@
+BEGIN;
+
+-- Whether nudges also cover tasks shared with the user (on by default)
+ALTER TABLE public.nudge_configs
+  ADD COLUMN IF NOT EXISTS include_shared boolean NOT NULL DEFAULT true;
+
+COMMIT;
@@ -0,0 +1,122 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'nudge_action') THEN
+    CREATE TYPE public.nudge_action AS ENUM ('done','snooze','in_progress');
+  END IF;
+END $$;
+
+-- Task actions taken from nudge emails. The unique key makes each link single-use.
+CREATE TABLE IF NOT EXISTS public.nudge_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  nudge_id uuid NOT NULL REFERENCES public.nudges(id) ON DELETE CASCADE,
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  action public.nudge_action NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT nudge_actions_single_use UNIQUE (nudge_id, task_id, action)
+);
+
+ALTER TABLE public.nudge_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own nudge actions" ON public.nudge_actions;
+CREATE POLICY "Users can read own nudge actions"
+  ON public.nudge_actions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Service-role writes can name the acting user for task history
+CREATE OR REPLACE FUNCTION public.log_task_event()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  changed text[] := '{}';
+  actor uuid := coalesce(auth.uid(), nullif(current_setting('app.actor_id', true), '')::uuid);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_events (task_id, owner_id, actor_id, event_type, new_status)
+    VALUES (NEW.id, NEW.owner_id, actor, 'created', NEW.status);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title THEN changed := changed || 'title'; END IF;
+  IF NEW.description IS DISTINCT FROM OLD.description THEN changed := changed || 'description'; END IF;
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN changed := changed || 'due_date'; END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status THEN changed := changed || 'status'; END IF;
+  IF NEW.notes IS DISTINCT FROM OLD.notes THEN changed := changed || 'notes'; END IF;
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN changed := changed || 'owner_id'; END IF;
+
+  IF cardinality(changed) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.task_events (task_id, owner_id, actor_id, event_type, old_status, new_status, changed_fields)
+  VALUES (
+    NEW.id,
+    NEW.owner_id,
+    actor,
+    CASE WHEN NEW.status IS DISTINCT FROM OLD.status THEN 'status_changed' ELSE 'updated' END::public.task_event_type,
+    OLD.status,
+    NEW.status,
+    changed
+  );
+  RETURN NEW;
+END $$;
+
+-- Applies one email action atomically: checks the nudge recipient may make the
+-- change (same rules as restrict_task_updates), consumes the link, updates the
+-- task and acknowledges the nudge. Returns applied, used, forbidden or not_found.
+CREATE OR REPLACE FUNCTION public.apply_nudge_action(p_nudge_id uuid, p_task_id uuid, p_action public.nudge_action)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid;
+  v_owner uuid;
+  v_perm public.share_permission;
+BEGIN
+  SELECT n.user_id INTO v_user FROM public.nudges n WHERE n.id = p_nudge_id;
+  SELECT t.owner_id INTO v_owner FROM public.tasks t WHERE t.id = p_task_id FOR UPDATE;
+  IF v_user IS NULL OR v_owner IS NULL THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF v_owner <> v_user THEN
+    SELECT ts.permission INTO v_perm
+    FROM public.task_shares ts
+    WHERE ts.task_id = p_task_id AND ts.user_id = v_user;
+    IF v_perm IS NULL OR v_perm = 'viewer' OR (p_action = 'snooze' AND v_perm <> 'co_owner') THEN
+      RETURN 'forbidden';
+    END IF;
+  END IF;
+
+  INSERT INTO public.nudge_actions (nudge_id, task_id, user_id, action)
+  VALUES (p_nudge_id, p_task_id, v_user, p_action)
+  ON CONFLICT ON CONSTRAINT nudge_actions_single_use DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN 'used';
+  END IF;
+
+  PERFORM set_config('app.actor_id', v_user::text, true);
+
+  UPDATE public.tasks
+  SET status = CASE p_action
+        WHEN 'done' THEN 'done'::public.task_status
+        WHEN 'in_progress' THEN 'in_progress'::public.task_status
+        ELSE status
+      END,
+      due_date = CASE WHEN p_action = 'snooze' THEN due_date + 1 ELSE due_date END
+  WHERE id = p_task_id;
+
+  UPDATE public.nudges
+  SET status = 'acknowledged',
+      acknowledged_at = coalesce(acknowledged_at, now())
+  WHERE id = p_nudge_id;
+
+  RETURN 'applied';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_nudge_action(uuid, uuid, public.nudge_action) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,35 @@
+-- A nudge whose recipient changed tasks before the next nudge is "updated".
+-- (ALTER TYPE ... ADD VALUE cannot share a transaction with statements using it.)
+ALTER TYPE public.nudge_status ADD VALUE IF NOT EXISTS 'updated' AFTER 'acknowledged';
+
+BEGIN;
+
+-- updated_task_ids: tasks the recipient changed between sent_at and the next
+-- nudge. outcome_checked_at is set once that window has been evaluated.
+ALTER TABLE public.nudges
+  ADD COLUMN IF NOT EXISTS updated_task_ids uuid[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS outcome_checked_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS task_events_actor_idx ON public.task_events (actor_id, created_at);
+
+-- The outcome is written by the nudges cron only. Users may still acknowledge
+-- an updated nudge, which records acknowledged_at but keeps the stronger status.
+CREATE OR REPLACE FUNCTION public.protect_nudge_outcome()
+RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.updated_task_ids := OLD.updated_task_ids;
+    NEW.outcome_checked_at := OLD.outcome_checked_at;
+  END IF;
+  IF OLD.status = 'updated' AND NEW.status = 'acknowledged' THEN
+    NEW.status := 'updated';
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS protect_nudge_outcome ON public.nudges;
+CREATE TRIGGER protect_nudge_outcome
+  BEFORE UPDATE ON public.nudges
+  FOR EACH ROW EXECUTE FUNCTION public.protect_nudge_outcome();
+
+COMMIT;
@@ -0,0 +1,15 @@
+BEGIN;
+
+-- Managers see their team's nudge history on the reports dashboard, mirroring
+-- how they can already read the team's profiles and tasks.
+DROP POLICY IF EXISTS "Managers can read team nudges" ON public.nudges;
+CREATE POLICY "Managers can read team nudges"
+  ON public.nudges FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = nudges.user_id AND p.manager_id = auth.uid()
+    )
+  );
+
+COMMIT;
@@ -0,0 +1,28 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'report_period') THEN
+    CREATE TYPE public.report_period AS ENUM ('daily','weekly','monthly');
+  END IF;
+END $$;
+
+-- Weekly and monthly rollups live next to the daily reports. A rollup's
+-- report_date is the first day of the period it covers.
+ALTER TABLE public.manager_reports
+  ADD COLUMN IF NOT EXISTS period public.report_period NOT NULL DEFAULT 'daily';
+
+ALTER TABLE public.manager_reports DROP CONSTRAINT IF EXISTS manager_reports_manager_date_unique;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'manager_reports_manager_period_date_unique') THEN
+    ALTER TABLE public.manager_reports
+      ADD CONSTRAINT manager_reports_manager_period_date_unique UNIQUE (manager_id, period, report_date);
+  END IF;
+END $$;
+
+-- Rollups go out at send_time on the first day of the next period
+ALTER TABLE public.report_configs
+  ADD COLUMN IF NOT EXISTS weekly_enabled boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS monthly_enabled boolean NOT NULL DEFAULT true;
+
+COMMIT;
@@ -0,0 +1,101 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+    CREATE TYPE public.notification_type AS ENUM ('nudge','task_shared','mention','report_ready');
+  END IF;
+END $$;
+
+-- In-app inbox shown behind the bell on /tasks. Rows are written by the
+-- service role (crons, API routes) and by the task_shares trigger below.
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type public.notification_type NOT NULL,
+  title text NOT NULL,
+  body text,
+  link text,
+  source_id uuid,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_idx ON public.notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_unread_idx ON public.notifications (user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own notifications" ON public.notifications;
+CREATE POLICY "Users can read own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can mark own notifications read" ON public.notifications;
+CREATE POLICY "Users can mark own notifications read"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users may only flip read_at; the content stays as written
+CREATE OR REPLACE FUNCTION public.protect_notification_columns()
+RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.user_id := OLD.user_id;
+    NEW.type := OLD.type;
+    NEW.title := OLD.title;
+    NEW.body := OLD.body;
+    NEW.link := OLD.link;
+    NEW.source_id := OLD.source_id;
+    NEW.created_at := OLD.created_at;
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS protect_notification_columns ON public.notifications;
+CREATE TRIGGER protect_notification_columns
+  BEFORE UPDATE ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.protect_notification_columns();
+
+-- Shares are created from the browser, so the notification comes from a trigger
+CREATE OR REPLACE FUNCTION public.notify_task_shared()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_title text;
+  v_owner text;
+BEGIN
+  SELECT t.title, coalesce(nullif(p.name, ''), p.email, 'Someone')
+  INTO v_title, v_owner
+  FROM public.tasks t
+  JOIN public.profiles p ON p.id = t.owner_id
+  WHERE t.id = NEW.task_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, source_id)
+  VALUES (
+    NEW.user_id,
+    'task_shared',
+    v_owner || ' shared a task with you',
+    v_title,
+    '/tasks?task=' || NEW.task_id,
+    NEW.task_id
+  );
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS notify_task_shared ON public.task_shares;
+CREATE TRIGGER notify_task_shared
+  AFTER INSERT ON public.task_shares
+  FOR EACH ROW EXECUTE FUNCTION public.notify_task_shared();
+
+-- Push new rows to the bell over Realtime
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+COMMIT;
@@ -0,0 +1,57 @@
+-- Nudges that fall inside a vacation are "skipped" rather than sent, and
+-- revoked shares get their own notification type.
+-- (ALTER TYPE ... ADD VALUE cannot share a transaction with statements using it.)
+ALTER TYPE public.nudge_status ADD VALUE IF NOT EXISTS 'skipped' AFTER 'failed';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'share_revoked' AFTER 'task_shared';
+
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_channel') THEN
+    CREATE TYPE public.notification_channel AS ENUM ('email','in_app','webhook');
+  END IF;
+END $$;
+
+-- One row per user; a missing row means the defaults below. Each *_channels
+-- column lists where that event is delivered (empty = muted). Quiet hours and
+-- vacation are read in the user's nudge_configs.timezone.
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  nudge_channels public.notification_channel[] NOT NULL DEFAULT '{email,in_app}',
+  share_received_channels public.notification_channel[] NOT NULL DEFAULT '{in_app}',
+  share_revoked_channels public.notification_channel[] NOT NULL DEFAULT '{in_app}',
+  mention_channels public.notification_channel[] NOT NULL DEFAULT '{email,in_app}',
+  daily_report_channels public.notification_channel[] NOT NULL DEFAULT '{email,in_app}',
+  webhook_url text CHECK (webhook_url IS NULL OR webhook_url ~ '^https?://'),
+  quiet_hours_start text CHECK (quiet_hours_start IS NULL OR quiet_hours_start ~ '^([01]\d|2[0-3]):[0-5]\d$'),
+  quiet_hours_end text CHECK (quiet_hours_end IS NULL OR quiet_hours_end ~ '^([01]\d|2[0-3]):[0-5]\d$'),
+  vacation_until date,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT notification_preferences_quiet_hours_pair
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can read own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can insert own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can update own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Share notifications are now sent by PUT /api/tasks/[id]/shares, which
+-- applies the recipient's channel preferences.
+DROP TRIGGER IF EXISTS notify_task_shared ON public.task_shares;
+DROP FUNCTION IF EXISTS public.notify_task_shared();
+
+COMMIT;
@@ -0,0 +1,271 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'webhook_scope') THEN
+    CREATE TYPE public.webhook_scope AS ENUM ('user','team');
+  END IF;
+END $$;
+
+-- Outgoing webhook endpoints. A "user" subscription receives events about its
+-- owner; a "team" subscription (managers only) receives events about everyone
+-- who reports to its owner. secret signs every delivery (HMAC-SHA256).
+CREATE TABLE IF NOT EXISTS public.webhook_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  scope public.webhook_scope NOT NULL DEFAULT 'user',
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  secret text NOT NULL,
+  events text[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['task.created','task.status_changed','task.shared','nudge.sent','nudge.acknowledged','report.generated']
+  ),
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_subscriptions_owner_idx ON public.webhook_subscriptions (owner_id);
+
+DROP TRIGGER IF EXISTS set_webhook_subscriptions_updated_at ON public.webhook_subscriptions;
+CREATE TRIGGER set_webhook_subscriptions_updated_at BEFORE UPDATE ON public.webhook_subscriptions
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Delivery queue and log, drained by /api/cron/webhooks with the same
+-- claim/lease/backoff scheme as email_outbox.
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES public.webhook_subscriptions(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  status public.outbox_status NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 6,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_until timestamptz,
+  response_status integer,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx
+  ON public.webhook_deliveries (next_attempt_at)
+  WHERE status IN ('pending','sending');
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_subscription_idx
+  ON public.webhook_deliveries (subscription_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS set_webhook_deliveries_updated_at ON public.webhook_deliveries;
+CREATE TRIGGER set_webhook_deliveries_updated_at BEFORE UPDATE ON public.webhook_deliveries
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Policies: webhook_subscriptions (own rows; team scope needs the manager role)
+DROP POLICY IF EXISTS "Users can read own webhooks" ON public.webhook_subscriptions;
+CREATE POLICY "Users can read own webhooks"
+  ON public.webhook_subscriptions FOR SELECT
+  USING (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can create own webhooks" ON public.webhook_subscriptions;
+CREATE POLICY "Users can create own webhooks"
+  ON public.webhook_subscriptions FOR INSERT
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND (
+      scope = 'user'
+      OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'manager')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update own webhooks" ON public.webhook_subscriptions;
+CREATE POLICY "Users can update own webhooks"
+  ON public.webhook_subscriptions FOR UPDATE
+  USING (auth.uid() = owner_id)
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND (
+      scope = 'user'
+      OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'manager')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete own webhooks" ON public.webhook_subscriptions;
+CREATE POLICY "Users can delete own webhooks"
+  ON public.webhook_subscriptions FOR DELETE
+  USING (auth.uid() = owner_id);
+
+-- Policies: webhook_deliveries (read-only log for the subscription owner)
+DROP POLICY IF EXISTS "Users can read own webhook deliveries" ON public.webhook_deliveries;
+CREATE POLICY "Users can read own webhook deliveries"
+  ON public.webhook_deliveries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.webhook_subscriptions s
+      WHERE s.id = webhook_deliveries.subscription_id AND s.owner_id = auth.uid()
+    )
+  );
+
+-- Queues one delivery per enabled subscription that wants the event: user
+-- subscriptions of the subject users, and team subscriptions of their managers.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(p_user_ids uuid[], p_event text, p_data jsonb)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.webhook_deliveries (subscription_id, event, payload)
+  SELECT s.id, p_event, p_data
+  FROM public.webhook_subscriptions s
+  WHERE s.enabled
+    AND p_event = ANY (s.events)
+    AND (
+      (s.scope = 'user' AND s.owner_id = ANY (p_user_ids))
+      OR (
+        s.scope = 'team'
+        AND s.owner_id IN (SELECT p.manager_id FROM public.profiles p WHERE p.id = ANY (p_user_ids))
+      )
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(uuid[], text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Events are emitted by triggers, so browser writes, API routes and crons all
+-- produce them. Task events ride on task_events, which already classifies
+-- inserts and status changes.
+CREATE OR REPLACE FUNCTION public.emit_task_webhook()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_task jsonb;
+BEGIN
+  IF NEW.event_type NOT IN ('created','status_changed') THEN
+    RETURN NEW;
+  END IF;
+  SELECT to_jsonb(t) INTO v_task FROM public.tasks t WHERE t.id = NEW.task_id;
+
+  PERFORM public.enqueue_webhook_event(
+    ARRAY[NEW.owner_id],
+    CASE WHEN NEW.event_type = 'created' THEN 'task.created' ELSE 'task.status_changed' END,
+    jsonb_build_object(
+      'task', v_task,
+      'actor_id', NEW.actor_id,
+      'old_status', NEW.old_status,
+      'new_status', NEW.new_status
+    )
+  );
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS emit_task_webhook ON public.task_events;
+CREATE TRIGGER emit_task_webhook
+  AFTER INSERT ON public.task_events
+  FOR EACH ROW EXECUTE FUNCTION public.emit_task_webhook();
+
+-- Both the owner and the recipient hear about a new share
+CREATE OR REPLACE FUNCTION public.emit_share_webhook()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_task record;
+BEGIN
+  SELECT t.id, t.title, t.owner_id INTO v_task FROM public.tasks t WHERE t.id = NEW.task_id;
+
+  PERFORM public.enqueue_webhook_event(
+    ARRAY[v_task.owner_id, NEW.user_id],
+    'task.shared',
+    jsonb_build_object(
+      'task_id', v_task.id,
+      'task_title', v_task.title,
+      'owner_id', v_task.owner_id,
+      'shared_with', NEW.user_id,
+      'permission', NEW.permission
+    )
+  );
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS emit_share_webhook ON public.task_shares;
+CREATE TRIGGER emit_share_webhook
+  AFTER INSERT ON public.task_shares
+  FOR EACH ROW EXECUTE FUNCTION public.emit_share_webhook();
+
+-- sent_at and acknowledged_at are each set once, whichever path delivers or
+-- acknowledges the nudge (outbox worker, in-app delivery, links, the UI)
+CREATE OR REPLACE FUNCTION public.emit_nudge_webhook()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_data jsonb := jsonb_build_object(
+    'nudge_id', NEW.id,
+    'user_id', NEW.user_id,
+    'scheduled_at', NEW.scheduled_at,
+    'sent_at', NEW.sent_at,
+    'acknowledged_at', NEW.acknowledged_at,
+    'counts', NEW.payload -> 'counts'
+  );
+BEGIN
+  IF OLD.sent_at IS NULL AND NEW.sent_at IS NOT NULL THEN
+    PERFORM public.enqueue_webhook_event(ARRAY[NEW.user_id], 'nudge.sent', v_data);
+  END IF;
+  IF OLD.acknowledged_at IS NULL AND NEW.acknowledged_at IS NOT NULL THEN
+    PERFORM public.enqueue_webhook_event(ARRAY[NEW.user_id], 'nudge.acknowledged', v_data);
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS emit_nudge_webhook ON public.nudges;
+CREATE TRIGGER emit_nudge_webhook
+  AFTER UPDATE OF sent_at, acknowledged_at ON public.nudges
+  FOR EACH ROW EXECUTE FUNCTION public.emit_nudge_webhook();
+
+-- A report is generated when the cron first stores its summary; retries of a
+-- failed send overwrite the summary but do not emit again.
+CREATE OR REPLACE FUNCTION public.emit_report_webhook()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF OLD.summary IS NULL AND NEW.summary IS NOT NULL THEN
+    PERFORM public.enqueue_webhook_event(
+      ARRAY[NEW.manager_id],
+      'report.generated',
+      jsonb_build_object(
+        'report_id', NEW.id,
+        'manager_id', NEW.manager_id,
+        'period', NEW.period,
+        'report_date', NEW.report_date,
+        'summary', NEW.summary
+      )
+    );
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS emit_report_webhook ON public.manager_reports;
+CREATE TRIGGER emit_report_webhook
+  AFTER UPDATE OF summary ON public.manager_reports
+  FOR EACH ROW EXECUTE FUNCTION public.emit_report_webhook();
+
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(batch_size integer DEFAULT 20, lease_seconds integer DEFAULT 300)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.webhook_deliveries d
+  SET status = 'sending',
+      attempts = d.attempts + 1,
+      locked_until = now() + make_interval(secs => lease_seconds)
+  WHERE d.id IN (
+    SELECT c.id
+    FROM public.webhook_deliveries c
+    WHERE (c.status = 'pending' AND c.next_attempt_at <= now())
+       OR (c.status = 'sending' AND c.locked_until < now())
+    ORDER BY c.next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(integer, integer) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,32 @@
+BEGIN;
+
+-- Personal access tokens for /api/v1. Only a SHA-256 hash of the token is
+-- stored; token_prefix is kept so users can tell their tokens apart.
+CREATE TABLE IF NOT EXISTS public.personal_access_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  token_prefix text NOT NULL,
+  token_hash text NOT NULL,
+  scopes text[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY['read:tasks','write:tasks','read:reports']
+  ),
+  expires_at timestamptz,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT personal_access_tokens_hash_unique UNIQUE (token_hash)
+);
+
+CREATE INDEX IF NOT EXISTS personal_access_tokens_user_idx ON public.personal_access_tokens (user_id, created_at DESC);
+
+ALTER TABLE public.personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are created and revoked through /api/tokens; users only list their own
+DROP POLICY IF EXISTS "Users can read own access tokens" ON public.personal_access_tokens;
+CREATE POLICY "Users can read own access tokens"
+  ON public.personal_access_tokens FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMIT;
@@ -0,0 +1,44 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'calendar_feed_scope') THEN
+    CREATE TYPE public.calendar_feed_scope AS ENUM ('user','team');
+  END IF;
+END $$;
+
+-- Secret iCalendar feed URLs. A "user" feed lists its owner's own and shared
+-- open tasks; a "team" feed (managers only) lists the open tasks of everyone
+-- who reports to its owner. Only a SHA-256 hash of the URL token is stored, so
+-- resetting a feed replaces token_hash and revoking deletes the row.
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  scope public.calendar_feed_scope NOT NULL DEFAULT 'user',
+  token_prefix text NOT NULL,
+  token_hash text NOT NULL,
+  last_fetched_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT calendar_feeds_user_scope_unique UNIQUE (user_id, scope),
+  CONSTRAINT calendar_feeds_hash_unique UNIQUE (token_hash)
+);
+
+DROP TRIGGER IF EXISTS set_calendar_feeds_updated_at ON public.calendar_feeds;
+CREATE TRIGGER set_calendar_feeds_updated_at BEFORE UPDATE ON public.calendar_feeds
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Feeds are created and reset through /api/calendar-feeds; users list and
+-- revoke their own
+DROP POLICY IF EXISTS "Users can read own calendar feeds" ON public.calendar_feeds;
+CREATE POLICY "Users can read own calendar feeds"
+  ON public.calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can revoke own calendar feeds" ON public.calendar_feeds;
+CREATE POLICY "Users can revoke own calendar feeds"
+  ON public.calendar_feeds FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMIT;
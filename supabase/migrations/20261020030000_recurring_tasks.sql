@@ -0,0 +1,201 @@
+BEGIN;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'recurrence_frequency') THEN
+    CREATE TYPE public.recurrence_frequency AS ENUM ('daily','weekly','monthly');
+  END IF;
+END $$;
+
+-- RRULE-style schedule shared by every occurrence of a recurring task:
+--   daily    every interval_count days
+--   weekly   every interval_count weeks on weekdays (ISO: 1 = Monday .. 7 = Sunday)
+--   monthly  every interval_count months on month_day (clamped to the month's last day)
+-- ending on until_date or after occurrence_limit occurrences (or never).
+-- Week and month alignment for interval_count > 1 is counted from starts_on.
+CREATE TABLE IF NOT EXISTS public.task_recurrences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  frequency public.recurrence_frequency NOT NULL,
+  interval_count integer NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 365),
+  weekdays smallint[] NOT NULL DEFAULT '{}' CHECK (weekdays <@ ARRAY[1,2,3,4,5,6,7]::smallint[]),
+  month_day smallint CHECK (month_day BETWEEN 1 AND 31),
+  starts_on date NOT NULL,
+  until_date date,
+  occurrence_limit integer CHECK (occurrence_limit > 0),
+  -- Occurrences generated so far, including the first
+  occurrences integer NOT NULL DEFAULT 1,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT task_recurrences_weekly_days CHECK (frequency <> 'weekly' OR cardinality(weekdays) > 0),
+  CONSTRAINT task_recurrences_monthly_day CHECK (frequency <> 'monthly' OR month_day IS NOT NULL),
+  CONSTRAINT task_recurrences_single_end CHECK (until_date IS NULL OR occurrence_limit IS NULL),
+  CONSTRAINT task_recurrences_until_after_start CHECK (until_date IS NULL OR until_date >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS task_recurrences_owner_idx ON public.task_recurrences (owner_id);
+
+DROP TRIGGER IF EXISTS set_task_recurrences_updated_at ON public.task_recurrences;
+CREATE TRIGGER set_task_recurrences_updated_at BEFORE UPDATE ON public.task_recurrences
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Each occurrence is an ordinary task. recurrence_date is the date the rule
+-- scheduled it for; due_date starts equal to it but may be snoozed or edited.
+-- The unique pair makes generating an occurrence idempotent, so reopening and
+-- re-completing a task never creates a second copy of the next one.
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurrence_id uuid REFERENCES public.task_recurrences(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurrence_date date;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tasks_recurrence_occurrence_unique') THEN
+    ALTER TABLE public.tasks
+      ADD CONSTRAINT tasks_recurrence_occurrence_unique UNIQUE (recurrence_id, recurrence_date);
+  END IF;
+END $$;
+
+ALTER TABLE public.task_recurrences ENABLE ROW LEVEL SECURITY;
+
+-- Policies: task_recurrences (owners manage; anyone who can see an occurrence can read its rule)
+DROP POLICY IF EXISTS "Owners can manage own recurrences" ON public.task_recurrences;
+CREATE POLICY "Owners can manage own recurrences"
+  ON public.task_recurrences FOR ALL
+  USING (auth.uid() = owner_id)
+  WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Task viewers can read recurrences" ON public.task_recurrences;
+CREATE POLICY "Task viewers can read recurrences"
+  ON public.task_recurrences FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.tasks t WHERE t.recurrence_id = task_recurrences.id));
+
+-- The schedule is part of the task's definition, so only its owner changes it
+CREATE OR REPLACE FUNCTION public.restrict_task_updates()
+RETURNS trigger LANGUAGE plpgsql AS $$
+DECLARE
+  perm public.share_permission;
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = OLD.owner_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.title IS DISTINCT FROM OLD.title)
+     OR (NEW.description IS DISTINCT FROM OLD.description)
+     OR (NEW.owner_id IS DISTINCT FROM OLD.owner_id)
+     OR (NEW.recurrence_id IS DISTINCT FROM OLD.recurrence_id)
+     OR (NEW.recurrence_date IS DISTINCT FROM OLD.recurrence_date) THEN
+    RAISE EXCEPTION 'Only owner can modify title, description, owner, or recurrence';
+  END IF;
+
+  perm := public.task_share_permission(OLD.id);
+
+  IF perm IS NULL OR perm = 'viewer' THEN
+    RAISE EXCEPTION 'Viewers cannot modify this task';
+  END IF;
+
+  IF (NEW.due_date IS DISTINCT FROM OLD.due_date) AND perm <> 'co_owner' THEN
+    RAISE EXCEPTION 'Only owner or co-owners can modify due_date';
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+-- First date strictly after `after` that the rule schedules, or null once the
+-- series has passed until_date. occurrence_limit is checked by the caller.
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(r public.task_recurrences, after date)
+RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  candidate date;
+  month_start date;
+  months_since integer;
+  i integer;
+BEGIN
+  IF r.frequency = 'daily' THEN
+    candidate := after + r.interval_count;
+  ELSIF r.frequency = 'weekly' THEN
+    -- Every chosen weekday of every interval_count-th week; one full cycle plus
+    -- a week always contains the next match
+    FOR i IN 1..(7 * (r.interval_count + 1)) LOOP
+      IF extract(isodow FROM after + i)::smallint = ANY (r.weekdays)
+         AND ((date_trunc('week', after + i)::date - date_trunc('week', r.starts_on)::date) / 7)
+             % r.interval_count = 0 THEN
+        candidate := after + i;
+        EXIT;
+      END IF;
+    END LOOP;
+  ELSE
+    month_start := date_trunc('month', after)::date;
+    FOR i IN 0..r.interval_count LOOP
+      months_since := (extract(year FROM month_start)::integer * 12 + extract(month FROM month_start)::integer)
+        - (extract(year FROM r.starts_on)::integer * 12 + extract(month FROM r.starts_on)::integer);
+      IF months_since % r.interval_count = 0 THEN
+        candidate := month_start + (least(
+          r.month_day::integer,
+          extract(day FROM (month_start + interval '1 month' - interval '1 day'))::integer
+        ) - 1);
+        EXIT WHEN candidate > after;
+        candidate := NULL;
+      END IF;
+      month_start := (month_start + interval '1 month')::date;
+    END LOOP;
+  END IF;
+
+  IF candidate IS NULL OR (r.until_date IS NOT NULL AND candidate > r.until_date) THEN
+    RETURN NULL;
+  END IF;
+  RETURN candidate;
+END;
+$$;
+
+-- Completing an occurrence creates the next one, carrying over the title,
+-- description and shares. Security definer: whoever completes it (a shared
+-- editor, a nudge email action) creates the task on the owner's behalf.
+CREATE OR REPLACE FUNCTION public.spawn_next_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.task_recurrences;
+  next_date date;
+  next_id uuid;
+BEGIN
+  SELECT * INTO r FROM public.task_recurrences WHERE id = NEW.recurrence_id FOR UPDATE;
+  IF NOT FOUND OR (r.occurrence_limit IS NOT NULL AND r.occurrences >= r.occurrence_limit) THEN
+    RETURN NULL;
+  END IF;
+
+  next_date := public.next_recurrence_date(r, coalesce(NEW.recurrence_date, NEW.due_date));
+  IF next_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (owner_id, title, description, due_date, status, recurrence_id, recurrence_date)
+  VALUES (NEW.owner_id, NEW.title, NEW.description, next_date, 'todo', r.id, next_date)
+  ON CONFLICT ON CONSTRAINT tasks_recurrence_occurrence_unique DO NOTHING
+  RETURNING id INTO next_id;
+  IF next_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.task_recurrences SET occurrences = occurrences + 1 WHERE id = r.id;
+
+  INSERT INTO public.task_shares (task_id, user_id, permission)
+  SELECT next_id, ts.user_id, ts.permission
+  FROM public.task_shares ts
+  WHERE ts.task_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS spawn_next_occurrence ON public.tasks;
+CREATE TRIGGER spawn_next_occurrence
+AFTER UPDATE OF status ON public.tasks
+FOR EACH ROW
+WHEN (NEW.status = 'done' AND OLD.status IS DISTINCT FROM 'done' AND NEW.recurrence_id IS NOT NULL)
+EXECUTE FUNCTION public.spawn_next_occurrence();
+
+COMMIT;
@@ -0,0 +1,203 @@
+BEGIN;
+
+-- Subtasks are tasks with a parent_id, one level deep, ordered by position
+-- within their parent. They belong to the parent's owner so reports and
+-- nudges attribute them to the same person.
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES public.tasks(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 0;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tasks_parent_not_self') THEN
+    ALTER TABLE public.tasks ADD CONSTRAINT tasks_parent_not_self CHECK (parent_id IS DISTINCT FROM id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS tasks_parent_idx ON public.tasks (parent_id, position) WHERE parent_id IS NOT NULL;
+
+-- Managers choose whether reports count subtasks alongside top-level tasks
+ALTER TABLE public.report_configs
+  ADD COLUMN IF NOT EXISTS include_subtasks boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.task_owner_id(task_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.owner_id FROM public.tasks t WHERE t.id = task_owner_id.task_id;
+$$;
+
+-- A share on a parent task applies to its subtasks. A direct share on the
+-- subtask itself (if any) takes precedence.
+CREATE OR REPLACE FUNCTION public.task_share_permission(task_id uuid)
+RETURNS public.share_permission
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  perm public.share_permission;
+BEGIN
+  SELECT ts.permission INTO perm
+  FROM public.task_shares ts
+  WHERE ts.task_id = task_share_permission.task_id AND ts.user_id = auth.uid();
+  IF perm IS NULL THEN
+    SELECT ts.permission INTO perm
+    FROM public.tasks t
+    JOIN public.task_shares ts ON ts.task_id = t.parent_id
+    WHERE t.id = task_share_permission.task_id AND ts.user_id = auth.uid();
+  END IF;
+  RETURN perm;
+END;
+$$;
+
+-- Reading now follows task_share_permission, so subtasks of shared tasks are visible
+DROP POLICY IF EXISTS "Shared users and managers can read tasks" ON public.tasks;
+CREATE POLICY "Shared users and managers can read tasks"
+  ON public.tasks
+  FOR SELECT
+  USING (
+    public.task_share_permission(id) IS NOT NULL
+    OR EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = tasks.owner_id AND p.manager_id = auth.uid()
+    )
+  );
+
+-- Editors and co-owners of a shared task can add subtasks to it (owned by the parent's owner)
+DROP POLICY IF EXISTS "Shared editors can add subtasks" ON public.tasks;
+CREATE POLICY "Shared editors can add subtasks"
+  ON public.tasks
+  FOR INSERT
+  WITH CHECK (
+    parent_id IS NOT NULL
+    AND public.task_share_permission(parent_id) IN ('editor','co_owner')
+    AND owner_id = public.task_owner_id(parent_id)
+  );
+
+-- Structure checks that policies cannot express
+CREATE OR REPLACE FUNCTION public.check_task_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent public.tasks;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM public.tasks WHERE id = NEW.parent_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parent task not found';
+  END IF;
+  IF parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Subtasks cannot have subtasks';
+  END IF;
+  IF parent.owner_id <> NEW.owner_id THEN
+    RAISE EXCEPTION 'Subtasks must belong to the parent task''s owner';
+  END IF;
+  IF NEW.recurrence_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Subtasks cannot repeat; make the parent task recurring instead';
+  END IF;
+  IF TG_OP = 'UPDATE' AND EXISTS (SELECT 1 FROM public.tasks c WHERE c.parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'A task with subtasks cannot become a subtask';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_task_parent ON public.tasks;
+CREATE TRIGGER check_task_parent
+BEFORE INSERT OR UPDATE OF parent_id, owner_id, recurrence_id ON public.tasks
+FOR EACH ROW EXECUTE FUNCTION public.check_task_parent();
+
+-- Moving a task under another parent is owner-only; reordering (position) is
+-- open to editors like status and notes
+CREATE OR REPLACE FUNCTION public.restrict_task_updates()
+RETURNS trigger LANGUAGE plpgsql AS $$
+DECLARE
+  perm public.share_permission;
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = OLD.owner_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.title IS DISTINCT FROM OLD.title)
+     OR (NEW.description IS DISTINCT FROM OLD.description)
+     OR (NEW.owner_id IS DISTINCT FROM OLD.owner_id)
+     OR (NEW.parent_id IS DISTINCT FROM OLD.parent_id)
+     OR (NEW.recurrence_id IS DISTINCT FROM OLD.recurrence_id)
+     OR (NEW.recurrence_date IS DISTINCT FROM OLD.recurrence_date) THEN
+    RAISE EXCEPTION 'Only owner can modify title, description, owner, parent, or recurrence';
+  END IF;
+
+  perm := public.task_share_permission(OLD.id);
+
+  IF perm IS NULL OR perm = 'viewer' THEN
+    RAISE EXCEPTION 'Viewers cannot modify this task';
+  END IF;
+
+  IF (NEW.due_date IS DISTINCT FROM OLD.due_date) AND perm <> 'co_owner' THEN
+    RAISE EXCEPTION 'Only owner or co-owners can modify due_date';
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+-- The next occurrence of a recurring task also gets fresh copies of its
+-- subtasks, keeping their order and their offset from the parent's date.
+CREATE OR REPLACE FUNCTION public.spawn_next_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.task_recurrences;
+  scheduled date;
+  next_date date;
+  next_id uuid;
+BEGIN
+  SELECT * INTO r FROM public.task_recurrences WHERE id = NEW.recurrence_id FOR UPDATE;
+  IF NOT FOUND OR (r.occurrence_limit IS NOT NULL AND r.occurrences >= r.occurrence_limit) THEN
+    RETURN NULL;
+  END IF;
+
+  scheduled := coalesce(NEW.recurrence_date, NEW.due_date);
+  next_date := public.next_recurrence_date(r, scheduled);
+  IF next_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (owner_id, title, description, due_date, status, recurrence_id, recurrence_date)
+  VALUES (NEW.owner_id, NEW.title, NEW.description, next_date, 'todo', r.id, next_date)
+  ON CONFLICT ON CONSTRAINT tasks_recurrence_occurrence_unique DO NOTHING
+  RETURNING id INTO next_id;
+  IF next_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.task_recurrences SET occurrences = occurrences + 1 WHERE id = r.id;
+
+  INSERT INTO public.task_shares (task_id, user_id, permission)
+  SELECT next_id, ts.user_id, ts.permission
+  FROM public.task_shares ts
+  WHERE ts.task_id = NEW.id;
+
+  INSERT INTO public.tasks (owner_id, parent_id, position, title, description, due_date, status)
+  SELECT NEW.owner_id, next_id, c.position, c.title, c.description, next_date + (c.due_date - scheduled), 'todo'
+  FROM public.tasks c
+  WHERE c.parent_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,35 @@
+BEGIN;
+
+-- profiles.email mirrors auth.users.email. Team invites are addressed by
+-- email, so users must not be able to rewrite their copy and claim someone
+-- else's invite. Auth-side writes (handle_new_user) run without auth.uid().
+CREATE OR REPLACE FUNCTION public.protect_profile_columns()
+RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF NEW.manager_id IS DISTINCT FROM OLD.manager_id THEN
+      RAISE EXCEPTION 'manager_id can only be changed through team management';
+    END IF;
+    IF NEW.role IS DISTINCT FROM OLD.role THEN
+      RAISE EXCEPTION 'role can only be changed by an admin or an accepted manager invite';
+    END IF;
+    IF NEW.is_admin IS DISTINCT FROM OLD.is_admin THEN
+      RAISE EXCEPTION 'is_admin cannot be changed by users';
+    END IF;
+    IF NEW.email IS DISTINCT FROM OLD.email THEN
+      RAISE EXCEPTION 'email is managed by authentication';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END $$;
+
+-- Restore any profile email that was edited away from the auth address
+UPDATE public.profiles p
+SET email = u.email
+FROM auth.users u
+WHERE u.id = p.id
+  AND u.email IS NOT NULL
+  AND p.email IS DISTINCT FROM u.email;
+
+COMMIT;
@@ -0,0 +1,52 @@
+BEGIN;
+
+-- The "webhook" notification channel now rides on webhook subscriptions, so
+-- those notifications are signed and retried like every other event. A
+-- subscription opts in with the "notification" event; only "user" scope may,
+-- since notifications (mentions, shares) are addressed to one person.
+ALTER TABLE public.webhook_subscriptions DROP CONSTRAINT IF EXISTS webhook_subscriptions_events_check;
+ALTER TABLE public.webhook_subscriptions ADD CONSTRAINT webhook_subscriptions_events_check CHECK (
+  cardinality(events) > 0
+  AND events <@ ARRAY['task.created','task.status_changed','task.shared','nudge.sent','nudge.acknowledged','report.generated','notification']
+  AND (scope = 'user' OR NOT ('notification' = ANY (events)))
+);
+
+-- Carry existing notification webhook URLs over as subscriptions. Their new
+-- signing secret is shown on /webhooks.
+INSERT INTO public.webhook_subscriptions (owner_id, scope, url, secret, events)
+SELECT np.user_id, 'user', np.webhook_url, 'whsec_' || encode(gen_random_bytes(24), 'hex'), ARRAY['notification']
+FROM public.notification_preferences np
+WHERE np.webhook_url IS NOT NULL;
+
+ALTER TABLE public.notification_preferences DROP COLUMN IF EXISTS webhook_url;
+
+-- Now reports how many deliveries were queued, so callers can tell whether
+-- anyone was listening. Trigger callers use PERFORM and ignore it.
+DROP FUNCTION IF EXISTS public.enqueue_webhook_event(uuid[], text, jsonb);
+CREATE FUNCTION public.enqueue_webhook_event(p_user_ids uuid[], p_event text, p_data jsonb)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH queued AS (
+    INSERT INTO public.webhook_deliveries (subscription_id, event, payload)
+    SELECT s.id, p_event, p_data
+    FROM public.webhook_subscriptions s
+    WHERE s.enabled
+      AND p_event = ANY (s.events)
+      AND (
+        (s.scope = 'user' AND s.owner_id = ANY (p_user_ids))
+        OR (
+          s.scope = 'team'
+          AND s.owner_id IN (SELECT p.manager_id FROM public.profiles p WHERE p.id = ANY (p_user_ids))
+        )
+      )
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM queued;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(uuid[], text, jsonb) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
@@ -0,0 +1,37 @@
+BEGIN;
+
+-- Notifications raised during the recipient's quiet hours are queued to go out
+-- when the window ends. Triggers keep the default and deliver right away.
+DROP FUNCTION IF EXISTS public.enqueue_webhook_event(uuid[], text, jsonb);
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+  p_user_ids uuid[],
+  p_event text,
+  p_data jsonb,
+  p_not_before timestamptz DEFAULT now()
+)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH queued AS (
+    INSERT INTO public.webhook_deliveries (subscription_id, event, payload, next_attempt_at)
+    SELECT s.id, p_event, p_data, greatest(coalesce(p_not_before, now()), now())
+    FROM public.webhook_subscriptions s
+    WHERE s.enabled
+      AND p_event = ANY (s.events)
+      AND (
+        (s.scope = 'user' AND s.owner_id = ANY (p_user_ids))
+        OR (
+          s.scope = 'team'
+          AND s.owner_id IN (SELECT p.manager_id FROM public.profiles p WHERE p.id = ANY (p_user_ids))
+        )
+      )
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM queued;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(uuid[], text, jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
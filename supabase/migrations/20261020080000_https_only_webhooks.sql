@@ -0,0 +1,13 @@
+BEGIN;
+
+-- Webhooks are https only. Existing plain-http subscriptions are switched off
+-- and cannot be re-enabled; their owners can add an https endpoint instead.
+-- Hosts are checked against private ranges in the app, at creation and again
+-- before each delivery.
+UPDATE public.webhook_subscriptions SET enabled = false WHERE url !~ '^https://';
+
+ALTER TABLE public.webhook_subscriptions DROP CONSTRAINT IF EXISTS webhook_subscriptions_url_check;
+ALTER TABLE public.webhook_subscriptions
+  ADD CONSTRAINT webhook_subscriptions_url_check CHECK (url ~ '^https://') NOT VALID;
+
+COMMIT;
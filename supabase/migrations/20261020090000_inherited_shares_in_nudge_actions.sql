@@ -0,0 +1,67 @@
+BEGIN;
+
+-- Email actions follow the same sharing rules as the app: a share on a parent
+-- task applies to its subtasks unless the subtask has its own share. This runs
+-- as the service role, so task_share_permission (auth.uid()) cannot be used.
+CREATE OR REPLACE FUNCTION public.apply_nudge_action(p_nudge_id uuid, p_task_id uuid, p_action public.nudge_action)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid;
+  v_owner uuid;
+  v_perm public.share_permission;
+BEGIN
+  SELECT n.user_id INTO v_user FROM public.nudges n WHERE n.id = p_nudge_id;
+  SELECT t.owner_id INTO v_owner FROM public.tasks t WHERE t.id = p_task_id FOR UPDATE;
+  IF v_user IS NULL OR v_owner IS NULL THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF v_owner <> v_user THEN
+    SELECT ts.permission INTO v_perm
+    FROM public.task_shares ts
+    WHERE ts.task_id = p_task_id AND ts.user_id = v_user;
+    IF v_perm IS NULL THEN
+      SELECT ts.permission INTO v_perm
+      FROM public.tasks t
+      JOIN public.task_shares ts ON ts.task_id = t.parent_id
+      WHERE t.id = p_task_id AND ts.user_id = v_user;
+    END IF;
+    IF v_perm IS NULL OR v_perm = 'viewer' OR (p_action = 'snooze' AND v_perm <> 'co_owner') THEN
+      RETURN 'forbidden';
+    END IF;
+  END IF;
+
+  INSERT INTO public.nudge_actions (nudge_id, task_id, user_id, action)
+  VALUES (p_nudge_id, p_task_id, v_user, p_action)
+  ON CONFLICT ON CONSTRAINT nudge_actions_single_use DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN 'used';
+  END IF;
+
+  PERFORM set_config('app.actor_id', v_user::text, true);
+
+  UPDATE public.tasks
+  SET status = CASE p_action
+        WHEN 'done' THEN 'done'::public.task_status
+        WHEN 'in_progress' THEN 'in_progress'::public.task_status
+        ELSE status
+      END,
+      due_date = CASE WHEN p_action = 'snooze' THEN due_date + 1 ELSE due_date END
+  WHERE id = p_task_id;
+
+  UPDATE public.nudges
+  SET status = 'acknowledged',
+      acknowledged_at = coalesce(acknowledged_at, now())
+  WHERE id = p_nudge_id;
+
+  RETURN 'applied';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_nudge_action(uuid, uuid, public.nudge_action) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
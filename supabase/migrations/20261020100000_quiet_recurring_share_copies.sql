@@ -0,0 +1,83 @@
+BEGIN;
+
+-- spawn_next_occurrence copies a recurring task's shares onto each new
+-- occurrence. Those copies must not emit task.shared every time the series
+-- repeats, so the copy runs with app.copying_shares set for the transaction
+-- and the share webhook trigger skips it. The occurrence itself still emits
+-- task.created.
+CREATE OR REPLACE FUNCTION public.emit_share_webhook()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_task record;
+BEGIN
+  IF current_setting('app.copying_shares', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  SELECT t.id, t.title, t.owner_id INTO v_task FROM public.tasks t WHERE t.id = NEW.task_id;
+
+  PERFORM public.enqueue_webhook_event(
+    ARRAY[v_task.owner_id, NEW.user_id],
+    'task.shared',
+    jsonb_build_object(
+      'task_id', v_task.id,
+      'task_title', v_task.title,
+      'owner_id', v_task.owner_id,
+      'shared_with', NEW.user_id,
+      'permission', NEW.permission
+    )
+  );
+  RETURN NEW;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.spawn_next_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.task_recurrences;
+  scheduled date;
+  next_date date;
+  next_id uuid;
+BEGIN
+  SELECT * INTO r FROM public.task_recurrences WHERE id = NEW.recurrence_id FOR UPDATE;
+  IF NOT FOUND OR (r.occurrence_limit IS NOT NULL AND r.occurrences >= r.occurrence_limit) THEN
+    RETURN NULL;
+  END IF;
+
+  scheduled := coalesce(NEW.recurrence_date, NEW.due_date);
+  next_date := public.next_recurrence_date(r, scheduled);
+  IF next_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (owner_id, title, description, due_date, status, recurrence_id, recurrence_date)
+  VALUES (NEW.owner_id, NEW.title, NEW.description, next_date, 'todo', r.id, next_date)
+  ON CONFLICT ON CONSTRAINT tasks_recurrence_occurrence_unique DO NOTHING
+  RETURNING id INTO next_id;
+  IF next_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.task_recurrences SET occurrences = occurrences + 1 WHERE id = r.id;
+
+  -- Collaborators were told when the series was shared; copying their access
+  -- onto each occurrence is not a new share
+  PERFORM set_config('app.copying_shares', 'on', true);
+  INSERT INTO public.task_shares (task_id, user_id, permission)
+  SELECT next_id, ts.user_id, ts.permission
+  FROM public.task_shares ts
+  WHERE ts.task_id = NEW.id;
+  PERFORM set_config('app.copying_shares', 'off', true);
+
+  INSERT INTO public.tasks (owner_id, parent_id, position, title, description, due_date, status)
+  SELECT NEW.owner_id, next_id, c.position, c.title, c.description, next_date + (c.due_date - scheduled), 'todo'
+  FROM public.tasks c
+  WHERE c.parent_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+COMMIT;
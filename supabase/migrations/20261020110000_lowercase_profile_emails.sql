@@ -0,0 +1,34 @@
+BEGIN;
+
+-- Invites look profiles up by exact email, so profiles.email is stored
+-- lower-cased (invite addresses are normalized the same way).
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  meta jsonb;
+  name text;
+BEGIN
+  meta := coalesce(NEW.raw_user_meta_data, '{}'::jsonb);
+  name := coalesce(meta->>'name', '');
+
+  INSERT INTO public.profiles (id, name, role, email)
+  VALUES (NEW.id, name, 'user', lower(trim(coalesce(NEW.email, ''))))
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    email = EXCLUDED.email;
+
+  RETURN NEW;
+END;
+$$;
+
+UPDATE public.profiles
+SET email = lower(trim(email))
+WHERE email IS DISTINCT FROM lower(trim(email));
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_email_lowercase CHECK (email = lower(trim(email)));
+
+-- profiles_email_unique is on lower(email); equality filters need the plain column
+CREATE INDEX IF NOT EXISTS profiles_email_idx ON public.profiles (email);
+
+COMMIT;
@@ -0,0 +1,3 @@
+-- Reports muted by vacation are "skipped", like nudges, instead of staying
+-- scheduled forever.
+ALTER TYPE public.report_status ADD VALUE IF NOT EXISTS 'skipped' AFTER 'failed';